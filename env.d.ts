@@ -5,6 +5,7 @@ declare namespace Cloudflare {
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
 		AI: Ai;
 		DB: D1Database;
+		ASSETS: Fetcher;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -0,0 +1,97 @@
+-- Normalized views over the WCF dataset.
+-- Mirrors src/lib/normalize.ts so SQL written by the agent sees the same
+-- values as the API endpoints:
+--   * 'NaN' scores and clocks become NULL
+--   * 999/0 Win/Loss results become NULL scores with is_win_loss = 1
+--   * color_hammer 'error_color' becomes 'unknown'
+--   * turn is split into rotation and handle (right-handed assumed)
+
+CREATE VIEW IF NOT EXISTS games_normalized AS
+SELECT
+  id,
+  event_id,
+  session,
+  name,
+  sheet,
+  type,
+  start_date,
+  start_time,
+  team_red,
+  team_yellow,
+  CASE
+    WHEN final_score_red = 999 OR final_score_yellow = 999 THEN NULL
+    WHEN typeof(final_score_red) IN ('integer', 'real') THEN final_score_red
+  END AS final_score_red,
+  CASE
+    WHEN final_score_red = 999 OR final_score_yellow = 999 THEN NULL
+    WHEN typeof(final_score_yellow) IN ('integer', 'real') THEN final_score_yellow
+  END AS final_score_yellow,
+  CASE
+    WHEN final_score_red = 999 OR final_score_yellow = 999 THEN 1
+    ELSE 0
+  END AS is_win_loss,
+  CASE
+    WHEN final_score_red = 999 THEN 'red'
+    WHEN final_score_yellow = 999 THEN 'yellow'
+    WHEN typeof(final_score_red) NOT IN ('integer', 'real')
+      OR typeof(final_score_yellow) NOT IN ('integer', 'real') THEN NULL
+    WHEN final_score_red > final_score_yellow THEN 'red'
+    WHEN final_score_yellow > final_score_red THEN 'yellow'
+    ELSE 'tie'
+  END AS winner
+FROM games;
+
+CREATE VIEW IF NOT EXISTS ends_normalized AS
+SELECT
+  id,
+  game_id,
+  number,
+  direction,
+  CASE
+    WHEN lower(color_hammer) IN ('red', 'yellow') THEN lower(color_hammer)
+    ELSE 'unknown'
+  END AS hammer,
+  CASE
+    WHEN typeof(score_red) IN ('integer', 'real') THEN score_red
+  END AS score_red,
+  CASE
+    WHEN typeof(score_yellow) IN ('integer', 'real') THEN score_yellow
+  END AS score_yellow,
+  CASE
+    WHEN typeof(time_left_red) IN ('integer', 'real') THEN time_left_red
+  END AS time_left_red,
+  CASE
+    WHEN typeof(time_left_yellow) IN ('integer', 'real') THEN time_left_yellow
+  END AS time_left_yellow
+FROM ends;
+
+CREATE VIEW IF NOT EXISTS shots_normalized AS
+SELECT
+  id,
+  end_id,
+  number,
+  color,
+  team,
+  player_name,
+  type,
+  CASE lower(replace(replace(turn, '-', ''), ' ', ''))
+    WHEN 'clockwise' THEN 'clockwise'
+    WHEN 'in' THEN 'clockwise'
+    WHEN 'counterclockwise' THEN 'counterclockwise'
+    WHEN 'out' THEN 'counterclockwise'
+  END AS rotation,
+  CASE lower(replace(replace(turn, '-', ''), ' ', ''))
+    WHEN 'in' THEN 'in'
+    WHEN 'clockwise' THEN 'in'
+    WHEN 'out' THEN 'out'
+    WHEN 'counterclockwise' THEN 'out'
+  END AS handle,
+  CASE
+    WHEN lower(turn) IN ('in', 'out') THEN 'handle'
+    WHEN lower(replace(replace(turn, '-', ''), ' ', ''))
+      IN ('clockwise', 'counterclockwise') THEN 'rotation'
+  END AS turn_recorded,
+  CASE
+    WHEN typeof(percent_score) IN ('integer', 'real') THEN percent_score
+  END AS percent_score
+FROM shots;
@@ -0,0 +1,45 @@
+-- Player identities.
+-- The same athlete appears under several spellings in shots.player_name
+-- ("Niklas EDIN", "N. EDIN", "Niklas EDlN"), which splits their statistics.
+-- Each raw spelling, per team code, can be mapped to one canonical player:
+--   * players holds the canonical name and team
+--   * player_aliases maps (raw_name, team) to a player
+--   * shots_canonical is shots with player_id and canonical_name added;
+--     unmapped names keep their raw spelling and a NULL player_id
+-- Merges are proposed by the agent and applied only after admin approval.
+
+CREATE TABLE IF NOT EXISTS players(
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    team TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS player_aliases(
+    raw_name TEXT NOT NULL,
+    team TEXT NOT NULL,
+    player_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (raw_name, team),
+    FOREIGN KEY (player_id) REFERENCES players(id)
+);
+
+CREATE INDEX IF NOT EXISTS player_aliases_player_id
+ON player_aliases(player_id);
+
+CREATE VIEW IF NOT EXISTS shots_canonical AS
+SELECT
+  s.id,
+  s.end_id,
+  s.number,
+  s.color,
+  s.team,
+  s.player_name,
+  s.type,
+  s.turn,
+  s.percent_score,
+  pa.player_id,
+  COALESCE(p.name, s.player_name) AS canonical_name
+FROM shots s
+LEFT JOIN player_aliases pa
+  ON pa.raw_name = s.player_name AND pa.team = s.team
+LEFT JOIN players p ON p.id = pa.player_id;
@@ -0,0 +1,50 @@
+-- Team positions derived from the shot number.
+-- Mirrors src/lib/positions.ts. The schema has no player position, but the
+-- throwing order fixes it: with 16 shots per end each team throws 8 stones,
+-- two per player, so a team's stones 1-2 are the lead's, 3-4 the second's,
+-- 5-6 the vice's and 7-8 the skip's.
+--   * Mixed doubles games (at most 10 shots per end, or "Mixed Doubles" in
+--     the event name) have two players: one throws the team's stones 1 and 5
+--     ('first_last'), the other stones 2-4 ('middle')
+--   * position is per shot, so a player who changes position during a game
+--     (a rotation change) is counted at each position they threw from
+
+CREATE VIEW IF NOT EXISTS shot_positions AS
+WITH game_formats AS (
+  SELECT
+    g.id AS game_id,
+    CASE
+      WHEN lower(ev.name) LIKE '%mixed doubles%' THEN 'mixed_doubles'
+      WHEN MAX(s.number) <= 10 THEN 'mixed_doubles'
+      ELSE 'fours'
+    END AS format
+  FROM games g
+  JOIN events ev ON g.event_id = ev.id
+  JOIN ends e ON e.game_id = g.id
+  JOIN shots s ON s.end_id = e.id
+  GROUP BY g.id
+)
+SELECT
+  s.id,
+  s.end_id,
+  e.game_id,
+  e.number AS end_number,
+  s.number,
+  s.color,
+  s.team,
+  s.player_name,
+  s.type,
+  s.percent_score,
+  gf.format,
+  (s.number + 1) / 2 AS team_stone,
+  CASE
+    WHEN gf.format = 'mixed_doubles' THEN
+      CASE WHEN (s.number + 1) / 2 IN (1, 5) THEN 'first_last' ELSE 'middle' END
+    WHEN (s.number + 1) / 2 <= 2 THEN 'lead'
+    WHEN (s.number + 1) / 2 <= 4 THEN 'second'
+    WHEN (s.number + 1) / 2 <= 6 THEN 'vice'
+    ELSE 'skip'
+  END AS position
+FROM shots_normalized s
+JOIN ends e ON s.end_id = e.id
+JOIN game_formats gf ON gf.game_id = e.game_id;
@@ -0,0 +1,28 @@
+-- Stone layout signatures, the coarse stage of similar-position search.
+-- Mirrors src/lib/position-search.ts: one row per shot with the number of
+-- stones of each color in play and in the house, and the centroid of each
+-- color's stones (NULL when it has none). Searches keep the shots with the
+-- same stone counts, order them by how close the centroids are (optionally
+-- mirrored across the center line) and only then match stones one by one.
+--   * in the house means touching the 12-foot ring: x² + y² <= (120 + 9.17)²
+--     in stone_positions units (20 per foot)
+--   * shots without recorded stones have zero counts
+
+CREATE VIEW IF NOT EXISTS position_signatures AS
+SELECT
+  s.id AS shot_id,
+  s.end_id,
+  s.number AS shot_number,
+  COALESCE(SUM(sp.color = 'red'), 0) AS red_count,
+  COALESCE(SUM(sp.color = 'yellow'), 0) AS yellow_count,
+  COALESCE(SUM(sp.color = 'red' AND sp.x * sp.x + sp.y * sp.y <= 16684), 0)
+    AS red_in_house,
+  COALESCE(SUM(sp.color = 'yellow' AND sp.x * sp.x + sp.y * sp.y <= 16684), 0)
+    AS yellow_in_house,
+  AVG(CASE WHEN sp.color = 'red' THEN sp.x END) AS red_x,
+  AVG(CASE WHEN sp.color = 'red' THEN sp.y END) AS red_y,
+  AVG(CASE WHEN sp.color = 'yellow' THEN sp.x END) AS yellow_x,
+  AVG(CASE WHEN sp.color = 'yellow' THEN sp.y END) AS yellow_y
+FROM shots s
+LEFT JOIN stone_positions sp ON sp.shot_id = s.id
+GROUP BY s.id;
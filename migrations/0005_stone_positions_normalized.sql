@@ -0,0 +1,40 @@
+-- Stone positions with every end seen the same way round.
+-- Mirrors normalizeDirection in src/lib/coordinates.ts: ends with a negative
+-- direction were recorded from the other end of the sheet, so their stones
+-- are turned half a turn (x and y negated). Coordinates stay in
+-- stone_positions units, 20 per foot, with the button at the origin.
+
+CREATE VIEW IF NOT EXISTS stone_positions_normalized AS
+SELECT
+  sp.id,
+  sp.shot_id,
+  sp.color,
+  CASE WHEN e.direction < 0 THEN -sp.x ELSE sp.x END AS x,
+  CASE WHEN e.direction < 0 THEN -sp.y ELSE sp.y END AS y
+FROM stone_positions sp
+JOIN shots s ON sp.shot_id = s.id
+JOIN ends e ON s.end_id = e.id;
+
+-- position_signatures (0004) again, on the normalized positions so layouts
+-- from either end of the sheet compare, and with the WCF stone size: in the
+-- house means x² + y² <= (120 + 9.55)²
+DROP VIEW IF EXISTS position_signatures;
+
+CREATE VIEW position_signatures AS
+SELECT
+  s.id AS shot_id,
+  s.end_id,
+  s.number AS shot_number,
+  COALESCE(SUM(sp.color = 'red'), 0) AS red_count,
+  COALESCE(SUM(sp.color = 'yellow'), 0) AS yellow_count,
+  COALESCE(SUM(sp.color = 'red' AND sp.x * sp.x + sp.y * sp.y <= 16783), 0)
+    AS red_in_house,
+  COALESCE(SUM(sp.color = 'yellow' AND sp.x * sp.x + sp.y * sp.y <= 16783), 0)
+    AS yellow_in_house,
+  AVG(CASE WHEN sp.color = 'red' THEN sp.x END) AS red_x,
+  AVG(CASE WHEN sp.color = 'red' THEN sp.y END) AS red_y,
+  AVG(CASE WHEN sp.color = 'yellow' THEN sp.x END) AS yellow_x,
+  AVG(CASE WHEN sp.color = 'yellow' THEN sp.y END) AS yellow_y
+FROM shots s
+LEFT JOIN stone_positions_normalized sp ON sp.shot_id = s.id
+GROUP BY s.id;
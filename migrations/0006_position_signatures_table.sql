@@ -0,0 +1,98 @@
+-- position_signatures (0005) stored instead of recomputed on every search.
+-- The view grouped all stone_positions on each call before filtering by
+-- stone count; the table holds the same columns, filled once here, with an
+-- index on what findSimilarPositions filters by (stone counts, then shot
+-- number). position_signature_rows computes a shot's row, and triggers keep
+-- the table current as shots, stones or end directions change.
+
+DROP VIEW IF EXISTS position_signatures;
+
+CREATE VIEW position_signature_rows AS
+SELECT
+  s.id AS shot_id,
+  s.end_id,
+  s.number AS shot_number,
+  COALESCE(SUM(sp.color = 'red'), 0) AS red_count,
+  COALESCE(SUM(sp.color = 'yellow'), 0) AS yellow_count,
+  COALESCE(SUM(sp.color = 'red' AND sp.x * sp.x + sp.y * sp.y <= 16783), 0)
+    AS red_in_house,
+  COALESCE(SUM(sp.color = 'yellow' AND sp.x * sp.x + sp.y * sp.y <= 16783), 0)
+    AS yellow_in_house,
+  AVG(CASE WHEN sp.color = 'red' THEN sp.x END) AS red_x,
+  AVG(CASE WHEN sp.color = 'red' THEN sp.y END) AS red_y,
+  AVG(CASE WHEN sp.color = 'yellow' THEN sp.x END) AS yellow_x,
+  AVG(CASE WHEN sp.color = 'yellow' THEN sp.y END) AS yellow_y
+FROM shots s
+LEFT JOIN stone_positions_normalized sp ON sp.shot_id = s.id
+GROUP BY s.id;
+
+CREATE TABLE position_signatures (
+  shot_id INTEGER PRIMARY KEY REFERENCES shots(id),
+  end_id INTEGER NOT NULL,
+  shot_number INTEGER NOT NULL,
+  red_count INTEGER NOT NULL,
+  yellow_count INTEGER NOT NULL,
+  red_in_house INTEGER NOT NULL,
+  yellow_in_house INTEGER NOT NULL,
+  red_x REAL,
+  red_y REAL,
+  yellow_x REAL,
+  yellow_y REAL
+);
+
+CREATE INDEX idx_position_signatures_counts
+  ON position_signatures (red_count, yellow_count, shot_number);
+
+INSERT INTO position_signatures SELECT * FROM position_signature_rows;
+
+CREATE TRIGGER position_signatures_stone_insert
+AFTER INSERT ON stone_positions
+BEGIN
+  INSERT OR REPLACE INTO position_signatures
+  SELECT * FROM position_signature_rows WHERE shot_id = NEW.shot_id;
+END;
+
+CREATE TRIGGER position_signatures_stone_update
+AFTER UPDATE ON stone_positions
+BEGIN
+  INSERT OR REPLACE INTO position_signatures
+  SELECT * FROM position_signature_rows
+  WHERE shot_id IN (OLD.shot_id, NEW.shot_id);
+END;
+
+CREATE TRIGGER position_signatures_stone_delete
+AFTER DELETE ON stone_positions
+BEGIN
+  INSERT OR REPLACE INTO position_signatures
+  SELECT * FROM position_signature_rows WHERE shot_id = OLD.shot_id;
+END;
+
+CREATE TRIGGER position_signatures_shot_insert
+AFTER INSERT ON shots
+BEGIN
+  INSERT OR REPLACE INTO position_signatures
+  SELECT * FROM position_signature_rows WHERE shot_id = NEW.id;
+END;
+
+CREATE TRIGGER position_signatures_shot_update
+AFTER UPDATE OF id, end_id, number ON shots
+BEGIN
+  DELETE FROM position_signatures WHERE shot_id = OLD.id;
+  INSERT OR REPLACE INTO position_signatures
+  SELECT * FROM position_signature_rows WHERE shot_id = NEW.id;
+END;
+
+CREATE TRIGGER position_signatures_shot_delete
+AFTER DELETE ON shots
+BEGIN
+  DELETE FROM position_signatures WHERE shot_id = OLD.id;
+END;
+
+-- Normalized positions depend on the end's direction
+CREATE TRIGGER position_signatures_end_direction
+AFTER UPDATE OF direction ON ends
+BEGIN
+  INSERT OR REPLACE INTO position_signatures
+  SELECT * FROM position_signature_rows
+  WHERE shot_id IN (SELECT id FROM shots WHERE end_id = NEW.id);
+END;
@@ -0,0 +1,607 @@
+/**
+ * REST endpoints for the React client, backed by the typed repository
+ */
+import {
+  findEndId,
+  findSimilarPositions,
+  getEndReplay,
+  getGameLineups,
+  getGameSummary,
+  getShot,
+  getShots,
+  listEndsForGame,
+  listEvents,
+  listGameSummaries,
+  listGamesForEvent,
+  listPlayerNameUsage,
+  listPlayers,
+  listShotSnapshots,
+  listShotsForEnd,
+  type Paging
+} from "./lib/repository";
+import { PNG_SCALES, renderHousePng, renderHouseSvg } from "./lib/house-image";
+import { suggestMerges } from "./lib/merge-suggester";
+import { computeEndEfficiency } from "./lib/end-efficiency";
+import {
+  DIVISIONS,
+  divisionForEvent,
+  gameWinProbability,
+  getWinProbabilityTables
+} from "./lib/win-probability";
+import { HEATMAP_SOURCES, buildHeatmap } from "./lib/heatmap";
+import { type EndRules, checkReplayRules } from "./lib/rules";
+import { MAX_OUTCOME_SHOTS, summarizeShotOutcomes } from "./lib/shot-outcomes";
+import {
+  MAX_COMPARED_SHOTS,
+  MIN_COMPARED_SHOTS,
+  compareShots
+} from "./lib/shot-comparison";
+import type {
+  ApiResponse,
+  Division,
+  EfficiencyGrouping,
+  End,
+  EndEfficiency,
+  EndReplay,
+  EventListItem,
+  Game,
+  GameLineups,
+  GameSummary,
+  GameWinProbability,
+  Handle,
+  Heatmap,
+  HeatmapFilters,
+  HeatmapSource,
+  MergeSuggestion,
+  Page,
+  Player,
+  Rotation,
+  Shot,
+  ShotComparison,
+  ShotDetails,
+  ShotOutcomeSummary,
+  SimilarPosition,
+  StonePosition,
+  WinProbabilityTable
+} from "./lib/domain";
+
+const errorResponse = (error: string, status: number) =>
+  Response.json({ success: false, error }, { status });
+
+/**
+ * Read a numeric query parameter, or null when missing or not a number
+ */
+const getNumberParam = (url: URL, name: string) => {
+  const value = url.searchParams.get(name);
+  if (!value || Number.isNaN(Number(value))) return null;
+  return Number(value);
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Read ?page= and ?pageSize=, clamped to sensible bounds
+ */
+const getPaging = (url: URL): Paging => ({
+  page: Math.max(1, Math.floor(getNumberParam(url, "page") ?? 1)),
+  pageSize: Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(
+      1,
+      Math.floor(getNumberParam(url, "pageSize") ?? DEFAULT_PAGE_SIZE)
+    )
+  )
+});
+
+/**
+ * Read ?limit=, clamped like ?pageSize=
+ */
+const getLimit = (url: URL, fallback: number) =>
+  Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Math.floor(getNumberParam(url, "limit") ?? fallback))
+  );
+
+async function handleShot(db: D1Database, url: URL) {
+  const shotId = getNumberParam(url, "id");
+  if (shotId === null) return errorResponse("Valid shot ID required", 400);
+
+  const details = await getShot(db, shotId);
+  if (!details) return errorResponse(`Shot with ID ${shotId} not found`, 404);
+
+  return Response.json({
+    success: true,
+    ...details
+  } satisfies ApiResponse<ShotDetails>);
+}
+
+/**
+ * An end is addressed either by ?id= or, for permalinks, by ?gameId=&number=
+ */
+async function handleEnd(db: D1Database, url: URL) {
+  const gameId = getNumberParam(url, "gameId");
+  const endNumber = getNumberParam(url, "number");
+  const endId =
+    gameId !== null && endNumber !== null
+      ? await findEndId(db, gameId, endNumber)
+      : getNumberParam(url, "id");
+  if (endId === null) {
+    return gameId !== null && endNumber !== null
+      ? errorResponse(`End ${endNumber} of game ${gameId} not found`, 404)
+      : errorResponse("Valid end ID required", 400);
+  }
+
+  const replay = await getEndReplay(db, endId);
+  if (!replay) return errorResponse(`End with ID ${endId} not found`, 404);
+
+  return Response.json({
+    success: true,
+    ...replay
+  } satisfies ApiResponse<EndReplay>);
+}
+
+/**
+ * Free guard zone, no-tick and mixed doubles checks for every shot of an end
+ * (?id=), with the sequences that break them; ?noTick=true applies the
+ * no-tick rule
+ */
+async function handleEndRules(db: D1Database, url: URL) {
+  const endId = getNumberParam(url, "id");
+  if (endId === null) return errorResponse("Valid end ID required", 400);
+
+  const replay = await getEndReplay(db, endId);
+  if (!replay) return errorResponse(`End with ID ${endId} not found`, 404);
+
+  return Response.json({
+    success: true,
+    ...checkReplayRules(replay, {
+      noTick: url.searchParams.get("noTick") === "true"
+    })
+  } satisfies ApiResponse<EndRules>);
+}
+
+async function handleGame(db: D1Database, url: URL) {
+  const gameId = getNumberParam(url, "id");
+  if (gameId === null) return errorResponse("Valid game ID required", 400);
+
+  const summary = await getGameSummary(db, gameId);
+  if (!summary) return errorResponse(`Game with ID ${gameId} not found`, 404);
+
+  return Response.json({
+    success: true,
+    ...summary
+  } satisfies ApiResponse<GameSummary>);
+}
+
+/**
+ * Both teams' inferred positions and rotation changes in a game (?id=)
+ */
+async function handleGamePositions(db: D1Database, url: URL) {
+  const gameId = getNumberParam(url, "id");
+  if (gameId === null) return errorResponse("Valid game ID required", 400);
+
+  const lineups = await getGameLineups(db, gameId);
+  if (!lineups) return errorResponse(`Game with ID ${gameId} not found`, 404);
+
+  return Response.json({
+    success: true,
+    ...lineups
+  } satisfies ApiResponse<GameLineups>);
+}
+
+async function handleEvents(db: D1Database, url: URL) {
+  const page = await listEvents(db, getPaging(url));
+  return Response.json({
+    success: true,
+    ...page
+  } satisfies ApiResponse<Page<EventListItem>>);
+}
+
+async function handleGames(db: D1Database, url: URL) {
+  const eventId = getNumberParam(url, "eventId");
+  if (eventId === null) return errorResponse("Valid event ID required", 400);
+
+  const page = await listGamesForEvent(db, eventId, getPaging(url));
+  return Response.json({
+    success: true,
+    ...page
+  } satisfies ApiResponse<Page<Game>>);
+}
+
+// Ends and shots are bounded by the game structure, so they are not paged
+
+async function handleEnds(db: D1Database, url: URL) {
+  const gameId = getNumberParam(url, "gameId");
+  if (gameId === null) return errorResponse("Valid game ID required", 400);
+
+  const ends = await listEndsForGame(db, gameId);
+  return Response.json({
+    success: true,
+    ends
+  } satisfies ApiResponse<{ ends: End[] }>);
+}
+
+async function handleShots(db: D1Database, url: URL) {
+  const endId = getNumberParam(url, "endId");
+  if (endId === null) return errorResponse("Valid end ID required", 400);
+
+  const shots = await listShotsForEnd(db, endId);
+  return Response.json({
+    success: true,
+    shots
+  } satisfies ApiResponse<{ shots: Shot[] }>);
+}
+
+/**
+ * Canonical players and their aliases, optionally for one team (?team=)
+ */
+async function handlePlayers(db: D1Database, url: URL) {
+  const players = await listPlayers(
+    db,
+    url.searchParams.get("team") ?? undefined
+  );
+  return Response.json({
+    success: true,
+    players
+  } satisfies ApiResponse<{ players: Player[] }>);
+}
+
+/**
+ * Spellings that are probably the same player, for admin review. Merges are
+ * applied through the agent's mergePlayers tool, which needs approval.
+ */
+async function handleMergeSuggestions(db: D1Database, url: URL) {
+  const team = url.searchParams.get("team");
+  const usages = await listPlayerNameUsage(db);
+  const suggestions = suggestMerges(
+    team ? usages.filter((usage) => usage.team === team) : usages,
+    { limit: getLimit(url, 20) }
+  );
+  return Response.json({
+    success: true,
+    suggestions
+  } satisfies ApiResponse<{ suggestions: MergeSuggestion[] }>);
+}
+
+const EFFICIENCY_GROUPINGS: EfficiencyGrouping[] = [
+  "team",
+  "event",
+  "endNumber",
+  "situation"
+];
+
+/**
+ * Hammer efficiency (conversions, forces, steals, blanks) of the games
+ * matching ?eventId=, ?gameId= and ?team=, grouped by ?groupBy=
+ */
+async function handleEndEfficiency(db: D1Database, url: URL) {
+  const groupBy = (url.searchParams.get("groupBy") ??
+    "team") as EfficiencyGrouping;
+  if (!EFFICIENCY_GROUPINGS.includes(groupBy)) {
+    return errorResponse(
+      `groupBy must be one of ${EFFICIENCY_GROUPINGS.join(", ")}`,
+      400
+    );
+  }
+  const team = url.searchParams.get("team") ?? undefined;
+
+  const games = await listGameSummaries(db, {
+    eventId: getNumberParam(url, "eventId") ?? undefined,
+    gameId: getNumberParam(url, "gameId") ?? undefined,
+    team
+  });
+  return Response.json({
+    success: true,
+    ...computeEndEfficiency(games, { groupBy, team })
+  } satisfies ApiResponse<EndEfficiency>);
+}
+
+/**
+ * What physically happened on the shots matching ?eventId=, ?gameId=,
+ * ?endId=, ?team=, ?type= and ?player=, overall and per shot type; with
+ * ?endId= every shot's outcome is included too
+ */
+async function handleShotOutcomes(db: D1Database, url: URL) {
+  const endId = getNumberParam(url, "endId") ?? undefined;
+  const shots = await listShotSnapshots(db, {
+    eventId: getNumberParam(url, "eventId") ?? undefined,
+    gameId: getNumberParam(url, "gameId") ?? undefined,
+    endId,
+    team: url.searchParams.get("team") ?? undefined,
+    type: url.searchParams.get("type") ?? undefined,
+    playerName: url.searchParams.get("player") ?? undefined,
+    limit: MAX_OUTCOME_SHOTS
+  });
+  return Response.json({
+    success: true,
+    ...summarizeShotOutcomes(shots, {
+      truncated: shots.length === MAX_OUTCOME_SHOTS,
+      includeOutcomes: endId !== undefined
+    })
+  } satisfies ApiResponse<ShotOutcomeSummary>);
+}
+
+const TURNS: Array<Handle | Rotation> = [
+  "in",
+  "out",
+  "clockwise",
+  "counterclockwise"
+];
+
+/**
+ * Where stones finished for the shots matching ?eventId=, ?gameId=, ?team=,
+ * ?player=, ?type= and ?turn=, binned into one-foot cells; ?source=delivered
+ * (default) counts each thrown stone, ?source=all every stone after each shot
+ */
+async function handleHeatmap(db: D1Database, url: URL) {
+  const source = (url.searchParams.get("source") ??
+    "delivered") as HeatmapSource;
+  if (!HEATMAP_SOURCES.includes(source)) {
+    return errorResponse(
+      `source must be one of ${HEATMAP_SOURCES.join(", ")}`,
+      400
+    );
+  }
+  const turn = url.searchParams.get("turn") as Handle | Rotation | null;
+  if (turn !== null && !TURNS.includes(turn)) {
+    return errorResponse(`turn must be one of ${TURNS.join(", ")}`, 400);
+  }
+
+  const filters: HeatmapFilters = {
+    eventId: getNumberParam(url, "eventId") ?? undefined,
+    gameId: getNumberParam(url, "gameId") ?? undefined,
+    team: url.searchParams.get("team") ?? undefined,
+    playerName: url.searchParams.get("player") ?? undefined,
+    type: url.searchParams.get("type") ?? undefined,
+    turn: turn ?? undefined
+  };
+  const shots = await listShotSnapshots(db, {
+    ...filters,
+    limit: MAX_OUTCOME_SHOTS
+  });
+  return Response.json({
+    success: true,
+    ...buildHeatmap(shots, {
+      source,
+      filters,
+      truncated: shots.length === MAX_OUTCOME_SHOTS
+    })
+  } satisfies ApiResponse<Heatmap>);
+}
+
+/**
+ * The win-probability table of a division (?division=men|women|mixed_doubles)
+ */
+async function handleWinProbability(db: D1Database, url: URL) {
+  const division = (url.searchParams.get("division") ?? "men") as Division;
+  if (!DIVISIONS.includes(division)) {
+    return errorResponse(
+      `division must be one of ${DIVISIONS.join(", ")}`,
+      400
+    );
+  }
+
+  const tables = await getWinProbabilityTables(db);
+  return Response.json({
+    success: true,
+    ...tables[division]
+  } satisfies ApiResponse<WinProbabilityTable>);
+}
+
+/**
+ * Red's win probability after each end of a game (?id=), for the chart
+ * under the scoreboard
+ */
+async function handleGameWinProbability(db: D1Database, url: URL) {
+  const gameId = getNumberParam(url, "id");
+  if (gameId === null) return errorResponse("Valid game ID required", 400);
+
+  const summary = await getGameSummary(db, gameId);
+  if (!summary) return errorResponse(`Game with ID ${gameId} not found`, 404);
+
+  const tables = await getWinProbabilityTables(db);
+  return Response.json({
+    success: true,
+    ...gameWinProbability(tables[divisionForEvent(summary.event.name)], summary)
+  } satisfies ApiResponse<GameWinProbability>);
+}
+
+/**
+ * Read ?stones= as a JSON array of {color, x, y}, or null when missing or
+ * malformed
+ */
+const getStonesParam = (url: URL): StonePosition[] | null => {
+  try {
+    const value: unknown = JSON.parse(url.searchParams.get("stones") ?? "");
+    if (!Array.isArray(value)) return null;
+    const stones = value.map((stone) => ({
+      color: stone?.color,
+      x: Number(stone?.x),
+      y: Number(stone?.y)
+    }));
+    return stones.every(
+      (stone) =>
+        (stone.color === "red" || stone.color === "yellow") &&
+        Number.isFinite(stone.x) &&
+        Number.isFinite(stone.y)
+    )
+      ? stones
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Historical shots with a stone layout like the one after ?shotId= or the
+ * ?stones= given, nearest first; ?mirror=true also matches it mirrored,
+ * ?shotNumber= keeps one point of the end and ?limit= caps the results
+ */
+async function handleSimilarPositions(db: D1Database, url: URL) {
+  const shotId = getNumberParam(url, "shotId");
+  let stones: StonePosition[] | null;
+  if (shotId !== null) {
+    const details = await getShot(db, shotId);
+    if (!details) return errorResponse(`Shot with ID ${shotId} not found`, 404);
+    stones = details.stones;
+  } else {
+    stones = getStonesParam(url);
+    if (!stones) {
+      return errorResponse(
+        "Valid shot ID or stones ([{color, x, y}]) required",
+        400
+      );
+    }
+  }
+  if (!stones.length) return errorResponse("Position has no stones", 400);
+
+  const positions = await findSimilarPositions(db, stones, {
+    mirror: url.searchParams.get("mirror") === "true",
+    shotNumber: getNumberParam(url, "shotNumber") ?? undefined,
+    excludeShotId: shotId ?? undefined,
+    limit: getLimit(url, 10)
+  });
+  return Response.json({
+    success: true,
+    positions
+  } satisfies ApiResponse<{ positions: SimilarPosition[] }>);
+}
+
+/**
+ * Shots side by side (?ids=1,2), with how each layout differs from the first
+ */
+async function handleShotComparison(db: D1Database, url: URL) {
+  const shotIds = (url.searchParams.get("ids") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map(Number);
+  if (
+    shotIds.length < MIN_COMPARED_SHOTS ||
+    shotIds.length > MAX_COMPARED_SHOTS ||
+    !shotIds.every(Number.isInteger)
+  ) {
+    return errorResponse(
+      `Between ${MIN_COMPARED_SHOTS} and ${MAX_COMPARED_SHOTS} shot IDs required`,
+      400
+    );
+  }
+
+  const shots = await getShots(db, shotIds);
+  const found = shots.filter((shot): shot is ShotDetails => shot !== null);
+  if (found.length < shotIds.length) {
+    const missing = shotIds.filter((_, i) => !shots[i]);
+    return errorResponse(`Shots not found: ${missing.join(", ")}`, 404);
+  }
+
+  return Response.json({
+    success: true,
+    ...compareShots(found)
+  } satisfies ApiResponse<ShotComparison>);
+}
+
+// Stone layouts never change once recorded, so images can be cached for a day
+const IMAGE_CACHE_CONTROL = "public, max-age=86400";
+
+const SHOT_IMAGE_PATH = /^\/api\/shot\/(\d+)\.(svg|png)$/;
+
+/**
+ * /api/shot/:id.svg and /api/shot/:id.png: the stone layout after a shot,
+ * as used for link previews. PNGs take ?scale=1 or 2 (the default) and are
+ * kept in the Cache API, so each shot is rendered once per scale.
+ */
+async function handleShotImage(db: D1Database, url: URL) {
+  const [, id, format] = SHOT_IMAGE_PATH.exec(url.pathname) ?? [];
+  const shotId = Number(id);
+
+  if (format === "png") return handleShotPng(db, url, shotId);
+
+  const details = await getShot(db, shotId);
+  if (!details) return errorResponse(`Shot with ID ${shotId} not found`, 404);
+
+  const title = `Shot ${details.shot.number} of end ${details.end.number}: ${details.shot.playerName}, ${details.shot.type}`;
+  return new Response(renderHouseSvg(details.stones, title), {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": IMAGE_CACHE_CONTROL
+    }
+  });
+}
+
+async function handleShotPng(db: D1Database, url: URL, shotId: number) {
+  const scaleParam = url.searchParams.get("scale");
+  const scale =
+    scaleParam === null
+      ? 2
+      : PNG_SCALES.find((value) => String(value) === scaleParam);
+  if (scale === undefined) {
+    return errorResponse(`scale must be one of ${PNG_SCALES.join(", ")}`, 400);
+  }
+
+  // One entry per shot and scale, whatever else is in the query string
+  const cacheKey = new Request(
+    new URL(`/api/shot/${shotId}.png?scale=${scale}`, url)
+  );
+  const cache = await caches.open("shot-images");
+  const cachedResponse = await cache.match(cacheKey);
+  if (cachedResponse) return cachedResponse;
+
+  const details = await getShot(db, shotId);
+  if (!details) return errorResponse(`Shot with ID ${shotId} not found`, 404);
+
+  const response = new Response(await renderHousePng(details.stones, scale), {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": IMAGE_CACHE_CONTROL
+    }
+  });
+  await cache.put(cacheKey, response.clone());
+  return response;
+}
+
+const routes: Record<string, (db: D1Database, url: URL) => Promise<Response>> =
+  {
+    "/api/shot": handleShot,
+    "/api/end": handleEnd,
+    "/api/end/rules": handleEndRules,
+    "/api/game": handleGame,
+    "/api/game/positions": handleGamePositions,
+    "/api/game/win-probability": handleGameWinProbability,
+    "/api/events": handleEvents,
+    "/api/games": handleGames,
+    "/api/ends": handleEnds,
+    "/api/shots": handleShots,
+    "/api/shots/compare": handleShotComparison,
+    "/api/players": handlePlayers,
+    "/api/players/merge-suggestions": handleMergeSuggestions,
+    "/api/analytics/end-efficiency": handleEndEfficiency,
+    "/api/analytics/shot-outcomes": handleShotOutcomes,
+    "/api/heatmap": handleHeatmap,
+    "/api/win-probability": handleWinProbability,
+    "/api/positions/similar": handleSimilarPositions
+  };
+
+/**
+ * Handle a GET request to one of the /api routes, or return null when the
+ * request is not for an API route
+ */
+export async function handleApiRequest(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  const route =
+    routes[url.pathname] ??
+    (SHOT_IMAGE_PATH.test(url.pathname) ? handleShotImage : undefined);
+  if (!route || request.method !== "GET") return null;
+
+  const db = env.DB;
+  if (!db) return errorResponse("Database not configured", 500);
+
+  try {
+    return await route(db, url);
+  } catch (error) {
+    console.error("Database query error:", error);
+    return errorResponse("Database query failed", 500);
+  }
+}
@@ -1,34 +1,68 @@
 /** biome-ignore-all lint/correctness/useUniqueElementIds: it's alright */
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useAgent } from "agents/react";
-import { isToolUIPart } from "ai";
+import { isToolUIPart, type InferUITools, type UIDataTypes } from "ai";
 import { useAgentChat } from "agents/ai-react";
 import type { UIMessage } from "@ai-sdk/react";
-import type { tools } from "./tools";
+import type { executions, tools } from "./tools";
+import type { Approval } from "./shared";
+import type {
+  ApiResponse,
+  EndReplay,
+  GameSummary,
+  GameWinProbability,
+  Heatmap,
+  ShotComparison,
+  ShotDetails,
+  StonePosition
+} from "@/lib/domain";
+import { fetchApi } from "@/lib/api-client";
+import { type NavigateOptions, useRoute } from "@/hooks/useRoute";
+import { detectGameFormat } from "@/lib/positions";
+import { rulesForEvent } from "@/lib/rules";
+import { formatRoute } from "@/lib/routes";
+import { completedToolCallIds } from "@/lib/tool-calls";
+import { heatmapPath } from "@/lib/heatmap";
+import {
+  type CustomPosition,
+  MAX_SHOT_NUMBER,
+  decodePosition,
+  describePosition,
+  encodePosition
+} from "@/lib/position-code";
 
 // Type definitions
-interface ShotData {
-  success: boolean;
-  shot?: {
-    shot_id: number;
-    shot_number: number;
-    shot_color: string;
-    shot_team: string;
-    player_name: string;
-    shot_type: string;
-    turn: string;
-    percent_score: number;
-    end_number: number;
-    color_hammer: string;
-    event_name: string;
-  };
-  stones?: Array<{ color: "red" | "yellow"; x: number; y: number }>;
-  error?: string;
+type ChatMessage = UIMessage<
+  { createdAt: string },
+  UIDataTypes,
+  InferUITools<typeof tools>
+>;
+
+interface ReplayState {
+  data: EndReplay;
+  /** Index of the displayed shot in data.shots */
+  index: number;
 }
 
+// Shot shown when the URL doesn't point at a shot or an end
+const DEFAULT_SHOT_ID = 42;
+
+// Views the agent opens replace the current history entry, so Back leaves
+// the page the user was on rather than stepping through tool calls
+const AGENT_NAVIGATION: NavigateOptions = { replace: true };
+
+/**
+ * Index in the replay of the shot with the given number, or the first shot
+ */
+const replayIndex = (replay: EndReplay, shotNumber?: number) =>
+  Math.max(
+    0,
+    replay.shots.findIndex(({ shot }) => shot.number === shotNumber)
+  );
+
 interface CurrentShot {
-  stones?: Array<{ color: "red" | "yellow"; x: number; y: number }>;
-  shot?: ShotData["shot"];
+  stones: StonePosition[];
+  details?: ShotDetails;
   shotInfo?: {
     player: string;
     team: string;
@@ -46,25 +80,58 @@ import { Textarea } from "@/components/textarea/Textarea";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
 import { CurlingHouse } from "@/components/curling-house/CurlingHouse";
+import { EndReplayViewer } from "@/components/end-replay/EndReplayViewer";
+import { ShotComparisonView } from "@/components/shot-comparison/ShotComparisonView";
+import { Scoreboard } from "@/components/scoreboard/Scoreboard";
+import { DataBrowser } from "@/components/data-browser/DataBrowser";
+import { WinProbabilityChart } from "@/components/win-probability/WinProbabilityChart";
+import { PositionEditor } from "@/components/position-editor/PositionEditor";
 
 // Icon imports
-import { Bug, Robot, Trash, PaperPlaneTilt, Stop } from "@phosphor-icons/react";
+import {
+  Books,
+  Bug,
+  FilmStrip,
+  PencilSimple,
+  Table,
+  Robot,
+  Trash,
+  PaperPlaneTilt,
+  Stop
+} from "@phosphor-icons/react";
 
 // List of tools that require human confirmation
 // NOTE: this should match the tools that don't have execute functions in tools.ts
-const toolsRequiringConfirmation: (keyof typeof tools)[] = [
-  // No tools require confirmation for curling analytics
+const toolsRequiringConfirmation: (keyof typeof executions)[] = [
+  // Player merges change the database and are reviewed by an admin
+  "mergePlayers"
 ];
 
+const requiresConfirmation = (
+  toolName: string
+): toolName is keyof typeof executions =>
+  toolsRequiringConfirmation.some((name) => name === toolName);
+
 export default function Chat() {
   const [_theme] = useState<"dark" | "light">("light");
   const [showDebug, setShowDebug] = useState(false);
   const [textareaHeight, setTextareaHeight] = useState("auto");
   const [currentShot, setCurrentShot] = useState<CurrentShot | null>(null);
-  const [shotId, setShotId] = useState(42);
-  const [processedToolCalls, setProcessedToolCalls] = useState<Set<string>>(
-    new Set()
-  );
+  const { route, navigate } = useRoute();
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  // Read by the route effect without re-running it on every replay step
+  const replayRef = useRef(replay);
+  replayRef.current = replay;
+  const [comparison, setComparison] = useState<ShotComparison | null>(null);
+  const [scoreboard, setScoreboard] = useState<GameSummary | null>(null);
+  const scoreboardRef = useRef(scoreboard);
+  scoreboardRef.current = scoreboard;
+  const [winProbability, setWinProbability] =
+    useState<GameWinProbability | null>(null);
+  const [showBrowser, setShowBrowser] = useState(false);
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [heatmap, setHeatmap] = useState<Heatmap | null>(null);
+  const [showRules, setShowRules] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = useCallback(() => {
@@ -122,20 +189,35 @@ export default function Chat() {
     status,
     sendMessage,
     stop
-  } = useAgentChat<unknown, UIMessage<{ createdAt: string }>>({
+  } = useAgentChat<unknown, ChatMessage>({
     agent
   });
+  // Results already in the loaded history were handled before the reload
+  const [processedToolCalls, setProcessedToolCalls] = useState(() =>
+    completedToolCallIds(agentMessages)
+  );
+
+  // Confirmation cards answer with an APPROVAL string, which processToolCalls
+  // replaces with the tool's result on the server
+  const addConfirmationResult = (
+    tool: keyof typeof executions,
+    toolCallId: string,
+    result: Approval
+  ) => {
+    addToolResult({ tool, toolCallId, output: result });
+  };
 
   const handleShotQuery = useCallback(
     async (shotId: number) => {
       try {
         // Make direct API call to query the shot
         const response = await fetch(`/api/shot?id=${shotId}`);
-        const data = (await response.json()) as ShotData;
+        const data = (await response.json()) as ApiResponse<ShotDetails>;
 
-        if (data.success && data.shot && data.stones) {
+        if (data.success) {
           // Update the curling house visualization directly
-          setCurrentShot(data);
+          setCurrentShot({ stones: data.stones, details: data });
+          setReplay(null);
 
           // Send a summary message to the chat
           // await sendMessage(
@@ -144,7 +226,7 @@ export default function Chat() {
           //     parts: [
           //       {
           //         type: "text",
-          //         text: `Shot ${shotId} loaded: ${data.shot.player_name} (${data.shot.shot_team}) - ${data.shot.shot_type} with ${data.stones.length} stones in play. Game: ${data.shot.event_name}, End ${data.shot.end_number}, ${data.shot.percent_score}% accuracy.`
+          //         text: `Shot ${shotId} loaded: ${data.shot.playerName} (${data.shot.team}) - ${data.shot.type} with ${data.stones.length} stones in play. Game: ${data.event.name}, End ${data.end.number}, ${data.shot.percentScore}% accuracy.`
           //       }
           //     ]
           //   },
@@ -158,7 +240,7 @@ export default function Chat() {
               parts: [
                 {
                   type: "text",
-                  text: `Error: ${data.error || `Shot ${shotId} not found`}`
+                  text: `Error: ${data.error}`
                 }
               ]
             },
@@ -184,12 +266,232 @@ export default function Chat() {
     [sendMessage]
   );
 
-  // Load initial shot on mount
+  const sendErrorMessage = useCallback(
+    async (text: string) => {
+      await sendMessage(
+        { role: "user", parts: [{ type: "text", text: `Error: ${text}` }] },
+        {}
+      );
+    },
+    [sendMessage]
+  );
+
+  const navigateToShot = useCallback(
+    (shotId: number) => navigate({ view: "shot", shotId }),
+    [navigate]
+  );
+
+  const handleOpenReplay = useCallback(
+    async (endId: number, shotNumber?: number, options?: NavigateOptions) => {
+      const data = await fetchApi<EndReplay>(`/api/end?id=${endId}`);
+      if (!data.success) {
+        await sendErrorMessage(data.error);
+        return;
+      }
+      const index = replayIndex(data, shotNumber);
+      setReplay({ data, index });
+      navigate(
+        {
+          view: "end",
+          gameId: data.game.id,
+          endNumber: data.end.number,
+          shotNumber: data.shots[index]?.shot.number
+        },
+        options
+      );
+    },
+    [navigate, sendErrorMessage]
+  );
+
+  const loadScoreboard = useCallback(
+    async (gameId: number) => {
+      const [data, probability] = await Promise.all([
+        fetchApi<GameSummary>(`/api/game?id=${gameId}`),
+        fetchApi<GameWinProbability>(`/api/game/win-probability?id=${gameId}`)
+      ]);
+      if (!data.success) {
+        await sendErrorMessage(data.error);
+        return;
+      }
+      setScoreboard(data);
+      // The chart is optional; the scoreboard shows without it
+      setWinProbability(probability.success ? probability : null);
+    },
+    [sendErrorMessage]
+  );
+
+  // The route effect loads the scoreboard
+  const handleOpenScoreboard = useCallback(
+    (gameId: number, options?: NavigateOptions) =>
+      navigate({ view: "game", gameId }, options),
+    [navigate]
+  );
+
+  // Closing the scoreboard leaves its link for the shot still shown
+  const handleCloseScoreboard = useCallback(() => {
+    setScoreboard(null);
+    setWinProbability(null);
+    if (route.view !== "game") return;
+    const shotId = currentShot?.details?.shot.id;
+    navigate(
+      shotId !== undefined ? { view: "shot", shotId } : { view: "home" }
+    );
+  }, [route, currentShot, navigate]);
+
+  const handleReplayIndexChange = useCallback(
+    (index: number) => {
+      if (!replay) return;
+      setReplay({ ...replay, index });
+      // Stepping through an end shouldn't flood the browser history
+      navigate(
+        {
+          view: "end",
+          gameId: replay.data.game.id,
+          endNumber: replay.data.end.number,
+          shotNumber: replay.data.shots[index]?.shot.number
+        },
+        { replace: true }
+      );
+    },
+    [replay, navigate]
+  );
+
+  // Closing the replay keeps the shot it was showing in the curling house
+  const handleCloseReplay = useCallback(() => {
+    const shot = replay?.data.shots[replay.index]?.shot;
+    navigate(shot ? { view: "shot", shotId: shot.id } : { view: "home" });
+  }, [replay, navigate]);
+
+  // The position editor shows whatever position the URL holds, and every
+  // edit replaces the URL so a position can be shared as it is
+  const editedPosition =
+    route.view === "position" ? decodePosition(route.code) : null;
+
+  const handlePositionChange = useCallback(
+    (position: CustomPosition) =>
+      navigate(
+        { view: "position", code: encodePosition(position) },
+        { replace: true }
+      ),
+    [navigate]
+  );
+
+  // Start from the stones after the shot shown, with the next shot to throw
+  const handleEditPosition = useCallback(() => {
+    const details = currentShot?.details;
+    navigate({
+      view: "position",
+      code: encodePosition({
+        shotNumber: details
+          ? Math.min(MAX_SHOT_NUMBER, details.shot.number + 1)
+          : 1,
+        hammer: details?.end.hammer === "yellow" ? "yellow" : "red",
+        stones: currentShot?.stones ?? []
+      })
+    });
+  }, [currentShot, navigate]);
+
+  const handleAskPosition = useCallback(
+    async (position: CustomPosition) => {
+      await sendMessage(
+        {
+          role: "user",
+          parts: [
+            {
+              type: "text",
+              text: `What would you throw here?\n\n${describePosition(position)}`
+            }
+          ]
+        },
+        {}
+      );
+    },
+    [sendMessage]
+  );
+
+  // Closing the editor goes back to the shot it started from
+  const handleClosePositionEditor = useCallback(() => {
+    const shotId = currentShot?.details?.shot.id;
+    navigate(
+      shotId !== undefined ? { view: "shot", shotId } : { view: "home" }
+    );
+  }, [currentShot, navigate]);
+
+  // Only shown while the URL points at it, so going back hides it
+  const shownComparison = route.view === "compare" ? comparison : null;
+
+  // Closing the comparison keeps its first shot in the curling house
+  const handleCloseComparison = useCallback(() => {
+    const shotId = comparison?.shots[0]?.shot.id;
+    navigate(
+      shotId !== undefined ? { view: "shot", shotId } : { view: "home" }
+    );
+  }, [comparison, navigate]);
+
+  // Show whatever the URL points at, on load and on back / forward
   useEffect(() => {
-    if (shotId) {
-      handleShotQuery(shotId);
+    if (route.view === "compare") {
+      setReplay(null);
+      let cancelled = false;
+      fetchApi<ShotComparison>(
+        `/api/shots/compare?ids=${route.shotIds.join(",")}`
+      ).then((data) => {
+        if (cancelled) return;
+        if (data.success) {
+          setComparison(data);
+        } else {
+          sendErrorMessage(data.error);
+        }
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+    if (route.view === "position") {
+      setReplay(null);
+      if (!decodePosition(route.code)) {
+        sendErrorMessage(`Invalid position code ${route.code}`);
+      }
+      return;
+    }
+    if (route.view === "game") {
+      setReplay(null);
+      if (scoreboardRef.current?.game.id !== route.gameId) {
+        loadScoreboard(route.gameId);
+      }
+      return;
+    }
+    if (route.view !== "end") {
+      setReplay(null);
+      handleShotQuery(route.view === "shot" ? route.shotId : DEFAULT_SHOT_ID);
+      return;
+    }
+
+    const current = replayRef.current;
+    if (
+      current?.data.game.id === route.gameId &&
+      current.data.end.number === route.endNumber
+    ) {
+      const index = replayIndex(current.data, route.shotNumber);
+      if (index !== current.index) setReplay({ ...current, index });
+      return;
     }
-  }, [handleShotQuery, shotId]);
+
+    let cancelled = false;
+    fetchApi<EndReplay>(
+      `/api/end?gameId=${route.gameId}&number=${route.endNumber}`
+    ).then((data) => {
+      if (cancelled) return;
+      if (data.success) {
+        setReplay({ data, index: replayIndex(data, route.shotNumber) });
+      } else {
+        sendErrorMessage(data.error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [route, handleShotQuery, loadScoreboard, sendErrorMessage]);
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -210,28 +512,15 @@ export default function Chat() {
               return;
             }
 
-            const result = part.output as Record<string, unknown>;
-
             // Debug logging
-            console.log("Tool result detected:", part.type, result);
+            console.log("Tool result detected:", part.type, part.output);
 
             // Handle visualization tool results
             if (
               part.type === "tool-visualizeCurlingShot" &&
-              result?.success &&
-              result?.visualization
+              part.output.success
             ) {
-              const viz = result.visualization as {
-                stones: Array<{
-                  color: "red" | "yellow";
-                  x: number;
-                  y: number;
-                }>;
-                player: string;
-                team: string;
-                shotType: string;
-                shotId: number;
-              };
+              const viz = part.output.visualization;
               console.log("Setting current shot from visualization:", viz);
               setCurrentShot({
                 stones: viz.stones,
@@ -249,14 +538,114 @@ export default function Chat() {
             // Handle setShotId tool results
             if (
               part.type === "tool-setShotId" &&
-              result?.success &&
-              result?.updateShotId
+              part.output.success &&
+              part.output.updateShotId
             ) {
-              const newShotId = result.shotId as number;
+              const newShotId = part.output.shotId;
               console.log("Setting shot ID from tool:", newShotId);
-              setShotId(newShotId);
-              // Automatically load the shot data
-              handleShotQuery(newShotId);
+              // The route effect loads the shot data
+              navigate({ view: "shot", shotId: newShotId }, AGENT_NAVIGATION);
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // Handle analyzeHouse tool results: show the shot measured
+            if (
+              part.type === "tool-analyzeHouse" &&
+              part.output.success &&
+              "showMeasurements" in part.output
+            ) {
+              setShowMeasurements(true);
+              navigate(
+                { view: "shot", shotId: part.output.shotId },
+                AGENT_NAVIGATION
+              );
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // Handle showPosition tool results: open it in the editor
+            if (
+              part.type === "tool-showPosition" &&
+              part.output.success &&
+              "showPosition" in part.output
+            ) {
+              navigate(
+                { view: "position", code: part.output.code },
+                AGENT_NAVIGATION
+              );
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // Handle compareShots tool results: open the shots side by side
+            if (
+              part.type === "tool-compareShots" &&
+              part.output.success &&
+              part.output.showComparison
+            ) {
+              navigate(
+                { view: "compare", shotIds: part.output.shotIds },
+                AGENT_NAVIGATION
+              );
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // Handle showHeatmap tool results: overlay it on the house
+            if (
+              part.type === "tool-showHeatmap" &&
+              part.output.success &&
+              "showHeatmap" in part.output
+            ) {
+              // The tool only returns a summary; the grid comes from the API
+              fetchApi<Heatmap>(
+                heatmapPath(part.output.source, part.output.filters)
+              ).then((data) => {
+                if (data.success) {
+                  setHeatmap(data);
+                } else {
+                  sendErrorMessage(data.error);
+                }
+              });
+              setReplay(null);
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // Handle openEndReplay tool results
+            if (
+              part.type === "tool-openEndReplay" &&
+              part.output.success &&
+              part.output.openReplay
+            ) {
+              handleOpenReplay(
+                part.output.endId,
+                part.output.shotNumber,
+                AGENT_NAVIGATION
+              );
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // Handle showScoreboard tool results
+            if (
+              part.type === "tool-showScoreboard" &&
+              part.output.success &&
+              part.output.showScoreboard
+            ) {
+              handleOpenScoreboard(part.output.gameId, AGENT_NAVIGATION);
+              // Mark this tool call as processed
+              setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
+            }
+
+            // The win-probability chart is shown under the scoreboard
+            if (
+              part.type === "tool-estimateWinProbability" &&
+              part.output.success &&
+              "showWinProbability" in part.output
+            ) {
+              handleOpenScoreboard(part.output.gameId, AGENT_NAVIGATION);
               // Mark this tool call as processed
               setProcessedToolCalls((prev) => new Set(prev).add(toolCallId));
             }
@@ -264,39 +653,148 @@ export default function Chat() {
         });
       }
     });
-  }, [agentMessages, handleShotQuery, processedToolCalls]);
+  }, [
+    agentMessages,
+    navigate,
+    handleOpenReplay,
+    handleOpenScoreboard,
+    sendErrorMessage,
+    processedToolCalls
+  ]);
 
-  const pendingToolCallConfirmation = agentMessages.some((m: UIMessage) =>
+  const pendingToolCallConfirmation = agentMessages.some((m) =>
     m.parts?.some(
       (part) =>
         isToolUIPart(part) &&
         part.state === "input-available" &&
         // Manual check inside the component
-        toolsRequiringConfirmation.includes(
-          part.type.replace("tool-", "") as keyof typeof tools
-        )
+        requiresConfirmation(part.type.replace("tool-", ""))
     )
   );
 
+  // Rules of the shot's event, for the free guard zone overlay
+  const shotRules = currentShot?.details
+    ? rulesForEvent(
+        detectGameFormat({
+          eventName: currentShot.details.event.name,
+          maxShotNumber: 0
+        }),
+        currentShot.details.event.startDate
+      )
+    : undefined;
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
   };
 
   return (
     <div className="w-full min-h-screen flex justify-center items-center p-5">
-      <div className="flex gap-4 w-full max-w-6xl">
+      <div className="flex gap-4 w-full max-w-7xl">
+        {showBrowser && (
+          <div className="w-64 flex-shrink-0 border border-neutral-300 dark:border-neutral-800 rounded-md overflow-hidden h-[660px]">
+            <DataBrowser
+              selectedShotId={currentShot?.details?.shot.id}
+              onShotSelect={navigateToShot}
+              onEndReplay={(endId) => handleOpenReplay(endId)}
+              onGameScoreboard={handleOpenScoreboard}
+            />
+          </div>
+        )}
+
         <div className="dark:bg-neutral-900 border border-neutral-300 dark:border-neutral-800 rounded-md flex-shrink-0 p-4">
-          <CurlingHouse
-            stones={
-              (currentShot?.stones || []) as Array<{
-                color: "red" | "yellow";
-                x: number;
-                y: number;
-              }>
-            }
-            shotInfo={currentShot?.shot}
-            onShotQuery={handleShotQuery}
-          />
+          {scoreboard && (
+            <div className="mb-3 max-w-[300px] overflow-x-auto">
+              <Scoreboard
+                summary={scoreboard}
+                selectedEndId={
+                  replay?.data.end.id ?? currentShot?.details?.end.id
+                }
+                onEndSelect={(end) => handleOpenReplay(end.id)}
+                onClose={handleCloseScoreboard}
+              />
+              {winProbability?.gameId === scoreboard.game.id && (
+                <WinProbabilityChart
+                  data={winProbability}
+                  teamRed={scoreboard.game.teamRed}
+                  teamYellow={scoreboard.game.teamYellow}
+                />
+              )}
+            </div>
+          )}
+
+          {replay ? (
+            <EndReplayViewer
+              replay={replay.data}
+              index={replay.index}
+              onIndexChange={handleReplayIndexChange}
+              onClose={handleCloseReplay}
+            />
+          ) : shownComparison ? (
+            <ShotComparisonView
+              comparison={shownComparison}
+              onClose={handleCloseComparison}
+            />
+          ) : editedPosition ? (
+            <PositionEditor
+              position={editedPosition}
+              onChange={handlePositionChange}
+              onAsk={handleAskPosition}
+              link={`${window.location.origin}${formatRoute(route)}`}
+              onClose={handleClosePositionEditor}
+            />
+          ) : (
+            <>
+              <CurlingHouse
+                stones={currentShot?.stones ?? []}
+                shotInfo={currentShot?.details}
+                onShotQuery={navigateToShot}
+                showMeasurements={showMeasurements}
+                onShowMeasurementsChange={setShowMeasurements}
+                heatmap={heatmap}
+                onHeatmapClose={() => setHeatmap(null)}
+                showRules={showRules}
+                onShowRulesChange={setShowRules}
+                rules={shotRules}
+              />
+              {currentShot?.details && (
+                <div className="flex gap-1 mt-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      currentShot.details &&
+                      handleOpenReplay(
+                        currentShot.details.end.id,
+                        currentShot.details.shot.number
+                      )
+                    }
+                  >
+                    <FilmStrip size={14} />
+                    Replay end
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      currentShot.details &&
+                      handleOpenScoreboard(currentShot.details.game.id)
+                    }
+                  >
+                    <Table size={14} />
+                    Scoreboard
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleEditPosition}
+                  >
+                    <PencilSimple size={14} />
+                    Edit position
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
         </div>
 
         {/* <pre className="overflow-auto text-sm">
@@ -314,29 +812,15 @@ export default function Chat() {
               <h2 className="font-semibold text-base">Curling Analytics</h2>
             </div>
 
-            {/* Shot ID Input */}
-            <div className="flex items-center gap-2">
-              <label htmlFor="shot-id-input" className="text-sm font-medium">
-                Shot ID:
-              </label>
-              <input
-                id="shot-id-input"
-                type="number"
-                value={shotId}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  setShotId(parseInt(value, 10));
-
-                  const id = parseInt(value, 10);
-                  if (!Number.isNaN(id)) {
-                    handleShotQuery(id);
-                  }
-                }}
-                placeholder="Enter Shot ID"
-                className="w-20 px-2 py-1 text-sm border border-gray-300 rounded dark:border-neutral-600 dark:bg-neutral-800 dark:text-white"
-                min="0"
-              />
-            </div>
+            <Button
+              variant="ghost"
+              size="md"
+              toggled={showBrowser}
+              onClick={() => setShowBrowser((prev) => !prev)}
+            >
+              <Books size={16} />
+              Browse
+            </Button>
 
             <div className="flex items-center gap-2 mr-2">
               <Bug size={16} />
@@ -481,9 +965,7 @@ export default function Chat() {
                               const toolCallId = part.toolCallId;
                               const toolName = part.type.replace("tool-", "");
                               const needsConfirmation =
-                                toolsRequiringConfirmation.includes(
-                                  toolName as keyof typeof tools
-                                );
+                                requiresConfirmation(toolName);
 
                               // Skip rendering the card in debug mode
                               if (showDebug) return null;
@@ -496,18 +978,22 @@ export default function Chat() {
                                   toolCallId={toolCallId}
                                   needsConfirmation={needsConfirmation}
                                   onSubmit={({ toolCallId, result }) => {
-                                    addToolResult({
-                                      tool: part.type.replace("tool-", ""),
-                                      toolCallId,
-                                      output: result
-                                    });
+                                    if (requiresConfirmation(toolName)) {
+                                      addConfirmationResult(
+                                        toolName,
+                                        toolCallId,
+                                        result
+                                      );
+                                    }
                                   }}
                                   addToolResult={(toolCallId, result) => {
-                                    addToolResult({
-                                      tool: part.type.replace("tool-", ""),
-                                      toolCallId,
-                                      output: result
-                                    });
+                                    if (requiresConfirmation(toolName)) {
+                                      addConfirmationResult(
+                                        toolName,
+                                        toolCallId,
+                                        result
+                                      );
+                                    }
                                   }}
                                 />
                               );
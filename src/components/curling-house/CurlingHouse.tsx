@@ -1,206 +1,730 @@
 import type React from "react";
+import { useEffect, useId, useRef, useState } from "react";
 import {
   ArrowClockwiseIcon,
   ArrowCounterClockwiseIcon,
-  HammerIcon
+  HammerIcon,
+  XIcon
 } from "@phosphor-icons/react";
-
-interface Stone {
-  color: "red" | "yellow";
-  x: number;
-  y: number;
-}
+import type {
+  Heatmap,
+  ShotDetails,
+  StoneColor,
+  StonePosition
+} from "@/lib/domain";
+import { diffStonePositions, type StoneChange } from "@/lib/stone-diff";
+import { analyzeHouse, type HouseAnalysis } from "@/lib/house-analysis";
+import {
+  type RuleSet,
+  type RuleStone,
+  isProtectedShot,
+  ruleStones
+} from "@/lib/rules";
+import { Button } from "@/components/button/Button";
+import { Toggle } from "@/components/toggle/Toggle";
+import {
+  HOG_LINE_Y,
+  HOUSE_RINGS,
+  type HouseShape,
+  SIDE_LINE_X,
+  STONE_FILL,
+  STONE_RADIUS,
+  sheetBackground,
+  stoneShape,
+  toDrawingCoords
+} from "@/lib/house-geometry";
+import {
+  SHEET_VIEWPORTS,
+  SHEET_VIEWS,
+  SHEET_VIEW_LABELS,
+  type SheetView,
+  type Viewport,
+  frameSize,
+  panViewport,
+  viewBoxOf,
+  zoomViewport
+} from "@/lib/sheet-view";
 
 interface CurlingHouseProps {
-  stones?: Stone[];
-  shotInfo?: {
-    shot_id?: number;
-    shot_number?: number;
-    shot_color?: string;
-    shot_team?: string;
-    player_name?: string;
-    shot_type?: string;
-    turn?: string;
-    percent_score?: number;
-    end_number?: number;
-    color_hammer?: string;
-  };
+  stones?: StonePosition[];
+  shotInfo?: Pick<ShotDetails, "shot" | "end">;
   onShotQuery?: (shotId: number) => void;
+  /** Stones before the current shot; enables the animated rendering mode */
+  previousStones?: StonePosition[];
+  /** Changes whenever the displayed shot changes, to restart the animations */
+  transitionKey?: string | number;
+  /** Overlay shot rock, counting stones and distances to the button */
+  showMeasurements?: boolean;
+  /** Shows a toggle for the measurement overlay when given */
+  onShowMeasurementsChange?: (show: boolean) => void;
+  /** Binned stone positions drawn under the stones */
+  heatmap?: Heatmap | null;
+  /** Shows a button to hide the heatmap when given */
+  onHeatmapClose?: () => void;
+  /** Shade the free guard zone and ring the stones the next shot can't remove */
+  showRules?: boolean;
+  /** Shows a toggle for the rules overlay when given */
+  onShowRulesChange?: (show: boolean) => void;
+  /** The rules of the game shown, needed to tell which stones are protected */
+  rules?: RuleSet;
+  /** A layout to compare with: draws how the stones differ from it */
+  referenceStones?: StonePosition[];
 }
 
-const ftToPx = (ft: number) => ft * 20;
+// Outline used to highlight each kind of change in the animated mode and
+// against a reference layout
+const CHANGE_STROKE: Record<StoneChange, string> = {
+  delivered: "#16a34a",
+  moved: "#2563eb",
+  removed: "#000",
+  unchanged: "#000"
+};
+
+export const ShapeElement = ({ shape }: { shape: HouseShape }) => {
+  switch (shape.kind) {
+    case "rect":
+      return (
+        <rect
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.height}
+          fill={shape.fill}
+        />
+      );
+    case "circle":
+      return (
+        <circle
+          cx={shape.cx}
+          cy={shape.cy}
+          r={shape.r}
+          fill={shape.fill}
+          stroke={shape.stroke}
+          strokeWidth={shape.strokeWidth}
+        />
+      );
+    case "line":
+      return (
+        <line
+          x1={shape.x1}
+          y1={shape.y1}
+          x2={shape.x2}
+          y2={shape.y2}
+          stroke={shape.stroke}
+          strokeWidth={shape.strokeWidth}
+        />
+      );
+  }
+};
+
+const MEASURE_STROKE = "#1e293b";
+
+/**
+ * Rank labels on the stones in the house, lines from the button to the
+ * counting stones and a ring around shot rock
+ */
+const MeasurementOverlay = ({ analysis }: { analysis: HouseAnalysis }) => {
+  const button = toDrawingCoords(0, 0);
+  const shotRock =
+    analysis.shotRock &&
+    toDrawingCoords(analysis.shotRock.x, analysis.shotRock.y);
+  return (
+    <g className="pointer-events-none">
+      {analysis.stones
+        .filter((stone) => stone.counting)
+        .map((stone) => {
+          const center = toDrawingCoords(stone.x, stone.y);
+          return (
+            <line
+              key={`line-${stone.color}-${stone.x}-${stone.y}`}
+              x1={button.x}
+              y1={button.y}
+              x2={center.x}
+              y2={center.y}
+              stroke={MEASURE_STROKE}
+              strokeWidth={1}
+              strokeDasharray="3 2"
+            />
+          );
+        })}
+      {shotRock && (
+        <circle
+          cx={shotRock.x}
+          cy={shotRock.y}
+          r={STONE_RADIUS + 3}
+          fill="none"
+          stroke={MEASURE_STROKE}
+          strokeWidth={1.5}
+        />
+      )}
+      {analysis.stones
+        .filter((stone) => stone.zone !== "behind")
+        .map((stone) => {
+          const center = toDrawingCoords(stone.x, stone.y);
+          return (
+            <text
+              key={`label-${stone.color}-${stone.x}-${stone.y}`}
+              x={center.x}
+              y={center.y + 3}
+              textAnchor="middle"
+              fontSize={9}
+              fontWeight={stone.counting ? "bold" : "normal"}
+              fill={MEASURE_STROKE}
+            >
+              {stone.rank ?? "G"}
+              <title>
+                {stone.zone === "guard" ? "Guard" : `#${stone.rank}`},{" "}
+                {stone.distance} ft from the button
+              </title>
+            </text>
+          );
+        })}
+    </g>
+  );
+};
+
+const HEATMAP_FILL = "#dc2626";
+
+/**
+ * One square per binned cell, more opaque the more stones it holds
+ */
+const HeatmapOverlay = ({ heatmap }: { heatmap: Heatmap }) => (
+  <g className="pointer-events-none">
+    {heatmap.cells.map((cell) => {
+      const center = toDrawingCoords(cell.x, cell.y);
+      return (
+        <rect
+          key={`${cell.x},${cell.y}`}
+          x={center.x - heatmap.cellSize / 2}
+          y={center.y - heatmap.cellSize / 2}
+          width={heatmap.cellSize}
+          height={heatmap.cellSize}
+          fill={HEATMAP_FILL}
+          fillOpacity={0.15 + 0.7 * (cell.count / heatmap.max)}
+        >
+          <title>
+            {cell.count} stone{cell.count === 1 ? "" : "s"}
+          </title>
+        </rect>
+      );
+    })}
+  </g>
+);
+
+/**
+ * The filters of a heatmap as a short caption, e.g. "SWE, Draw, in"
+ */
+const heatmapCaption = ({ source, filters }: Heatmap) =>
+  [
+    source === "delivered" ? "Thrown stones" : "All stones",
+    filters.playerName ?? filters.team,
+    filters.type,
+    filters.turn,
+    filters.gameId !== undefined
+      ? `game ${filters.gameId}`
+      : filters.eventId !== undefined
+        ? `event ${filters.eventId}`
+        : undefined
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const FGZ_FILL = "#f59e0b";
+
+/**
+ * The free guard zone (tee line to hog line, outside the house) and a
+ * dashed ring around each protected stone
+ */
+const RulesOverlay = ({ stones }: { stones: RuleStone[] | null }) => {
+  const maskId = useId();
+  const hog = toDrawingCoords(-SIDE_LINE_X, HOG_LINE_Y);
+  const button = toDrawingCoords(0, 0);
+  const scoringEnd = SHEET_VIEWPORTS.end;
+  return (
+    <g className="pointer-events-none">
+      <mask id={maskId}>
+        <rect
+          x={hog.x}
+          y={hog.y}
+          width={SIDE_LINE_X * 2}
+          height={button.y - hog.y}
+          fill="white"
+        />
+        <circle
+          cx={button.x}
+          cy={button.y}
+          r={HOUSE_RINGS[0].radius}
+          fill="black"
+        />
+      </mask>
+      <rect
+        x={scoringEnd.x}
+        y={scoringEnd.y}
+        width={scoringEnd.width}
+        height={scoringEnd.height}
+        fill={FGZ_FILL}
+        fillOpacity={0.2}
+        mask={`url(#${maskId})`}
+      />
+      {stones
+        ?.filter((stone) => stone.protected)
+        .map((stone) => {
+          const center = toDrawingCoords(stone.x, stone.y);
+          return (
+            <circle
+              key={`protected-${stone.color}-${stone.x}-${stone.y}`}
+              cx={center.x}
+              cy={center.y}
+              r={STONE_RADIUS + 3}
+              fill="none"
+              stroke={FGZ_FILL}
+              strokeWidth={2}
+              strokeDasharray="3 2"
+            />
+          );
+        })}
+    </g>
+  );
+};
+
+/**
+ * Where the stones differ from a reference layout: a ring around added
+ * stones, a line from where moved stones were and a dashed outline where
+ * stones are missing
+ */
+const DifferenceOverlay = ({
+  reference,
+  stones
+}: {
+  reference: StonePosition[];
+  stones: StonePosition[];
+}) => {
+  const differences = diffStonePositions(reference, stones);
+  return (
+    <g className="pointer-events-none">
+      {differences.map((difference, index) => {
+        if (difference.change === "unchanged") return null;
+        const key = `${difference.change}-${index}`;
+        if (difference.change === "moved") {
+          const from = toDrawingCoords(difference.from.x, difference.from.y);
+          const to = toDrawingCoords(difference.to.x, difference.to.y);
+          return (
+            <g key={key}>
+              <line
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke={CHANGE_STROKE.moved}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+              <circle
+                cx={to.x}
+                cy={to.y}
+                r={STONE_RADIUS}
+                fill="none"
+                stroke={CHANGE_STROKE.moved}
+                strokeWidth={2.5}
+              />
+            </g>
+          );
+        }
+        const position =
+          difference.change === "removed" ? difference.from : difference.to;
+        const center = toDrawingCoords(position.x, position.y);
+        return difference.change === "removed" ? (
+          <circle
+            key={key}
+            cx={center.x}
+            cy={center.y}
+            r={STONE_RADIUS}
+            fill={STONE_FILL[difference.color]}
+            fillOpacity={0.35}
+            stroke={CHANGE_STROKE.removed}
+            strokeWidth={1}
+            strokeDasharray="3 2"
+          />
+        ) : (
+          <circle
+            key={key}
+            cx={center.x}
+            cy={center.y}
+            r={STONE_RADIUS}
+            fill="none"
+            stroke={CHANGE_STROKE.delivered}
+            strokeWidth={2.5}
+          />
+        );
+      })}
+    </g>
+  );
+};
+
+// The static part of the drawing never changes, so build it once
+const BACKGROUND = sheetBackground();
+
+// Zoom step per mouse wheel notch
+const WHEEL_ZOOM = 1.2;
+
+const CHANGE_LABELS: Array<[StoneChange, string]> = [
+  ["delivered", "Delivered"],
+  ["moved", "Moved"],
+  ["removed", "Removed"]
+];
+
+// The same changes seen against a reference layout rather than the last shot
+const DIFFERENCE_LABELS: Array<[StoneChange, string]> = [
+  ["delivered", "Added"],
+  ["moved", "Moved"],
+  ["removed", "Missing"]
+];
 
 export const CurlingHouse: React.FC<CurlingHouseProps> = ({
   stones = [],
   shotInfo,
-  onShotQuery: _onShotQuery
+  onShotQuery: _onShotQuery,
+  previousStones,
+  transitionKey,
+  showMeasurements = false,
+  onShowMeasurementsChange,
+  heatmap,
+  onHeatmapClose,
+  showRules = false,
+  onShowRulesChange,
+  rules,
+  referenceStones
 }) => {
-  // Curling ice: 27ft x 15ft
-  1380 / 764;
-  848 / 1588;
-
-  // Coordinate system matching pdf_parsing_functions.py exactly:
-  // - Origin (0,0) is at the button center
-  // - X: negative = left, positive = right
-  // - Y: negative = behind tee line (toward hack), positive = in front (toward back boards)
-  // - Units are in pixels from 300x600 original images
-  const svgWidth = ftToPx(15);
-  const svgHeight = ftToPx(27);
-
-  // Position the button center in our SVG - using same proportions as original 300x600
-  const buttonCenterX = svgWidth / 2;
-  const buttonCenterY = ftToPx(21);
-
-  const convertCoords = (x: number, y: number) => {
-    // Apply the exact same coordinate transformation as the Python code:
-    // x = pixel_x - 149, y = 439 - pixel_y
-    // We reverse this: pixel_x = x + 149, pixel_y = 439 - y
-    // Then scale to our SVG dimensions
-    return {
-      x: buttonCenterX + x,
-      y: buttonCenterY - y // Note: y is already flipped in the Python coordinate system
+  // Matched stones between the previous and current snapshot
+  const transitions = previousStones
+    ? diffStonePositions(previousStones, stones)
+    : null;
+  const analysis = showMeasurements ? analyzeHouse(stones) : null;
+  // The stones as the next shot finds them, when the shot is known
+  const nextShot: { shotNumber: number; thrower: StoneColor } | undefined =
+    shotInfo && {
+      shotNumber: shotInfo.shot.number + 1,
+      thrower: shotInfo.shot.color === "red" ? "yellow" : "red"
     };
+  const protection =
+    showRules && rules && nextShot ? ruleStones(stones, rules, nextShot) : null;
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<SheetView>("play");
+  const [viewport, setViewport] = useState<Viewport>(SHEET_VIEWPORTS.play);
+  // Where a pan started, in client pixels, while the pointer is down
+  const panStart = useRef<{ x: number; y: number } | null>(null);
+  const frame = frameSize(SHEET_VIEWPORTS[view]);
+
+  // Wheel zoom around the pointer; React's wheel listeners are passive, so
+  // the page would scroll too
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const factor = event.deltaY < 0 ? WHEEL_ZOOM : 1 / WHEEL_ZOOM;
+      setViewport((current) =>
+        zoomViewport(current, factor, {
+          x:
+            current.x +
+            ((event.clientX - rect.left) / rect.width) * current.width,
+          y:
+            current.y +
+            ((event.clientY - rect.top) / rect.height) * current.height
+        })
+      );
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    panStart.current = { x: event.clientX, y: event.clientY };
   };
 
-  // Curling house dimensions in the coordinate system (scaled appropriately)
-  // These need to be proportional to the actual house in the 300x600 pixel images
-  const buttonRadius = ftToPx(0.5);
-  const fourFootRadius = ftToPx(2); // 4-foot circle
-  const eightFootRadius = ftToPx(4); // 8-foot circle
-  const twelveFootRadius = ftToPx(6); // 12-foot circle
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const start = panStart.current;
+    if (!start) return;
+    const unitsPerPixel = viewport.width / frame.width;
+    setViewport(
+      panViewport(
+        viewport,
+        (start.x - event.clientX) * unitsPerPixel,
+        (start.y - event.clientY) * unitsPerPixel
+      )
+    );
+    panStart.current = { x: event.clientX, y: event.clientY };
+  };
 
-  // Line positions relative to button center (Y=0)
-  // Positive Y is toward back boards, negative Y is toward hack
+  const handleViewChange = (next: SheetView) => {
+    setView(next);
+    setViewport(SHEET_VIEWPORTS[next]);
+  };
 
   return (
     <div className="font-mono">
       {shotInfo && (
         <div className="flex items-center gap-2 mb-2">
-          <h3 className="font-bold">Shot #{shotInfo?.shot_number}</h3>
-          <h2 className="ml-auto">End {shotInfo?.end_number}</h2>
+          <h3 className="font-bold">Shot #{shotInfo.shot.number}</h3>
+          <h2 className="ml-auto">End {shotInfo.end.number}</h2>
           <div
             className={`${
-              shotInfo?.color_hammer === "red" ? "bg-[#ff6464]" : "bg-[#FFFF05]"
+              shotInfo.end.hammer === "red"
+                ? "bg-[#ff6464]"
+                : shotInfo.end.hammer === "yellow"
+                  ? "bg-[#FFFF05]"
+                  : "bg-neutral-300"
             } rounded-full p-0.5 flex items-center justify-center border border-black`}
+            title={
+              shotInfo.end.hammer === "unknown"
+                ? "Hammer unknown"
+                : `${shotInfo.end.hammer} has hammer`
+            }
           >
-            <HammerIcon
-              size={14}
-              color={shotInfo?.color_hammer === "red" ? "black" : "black"}
-              weight="duotone"
-            />
+            <HammerIcon size={14} color="black" weight="duotone" />
           </div>
         </div>
       )}
 
       <svg
-        width={svgWidth}
-        height={svgHeight}
-        className="outline outline-[#00000080] bg-white"
+        ref={svgRef}
+        width={frame.width}
+        height={frame.height}
+        viewBox={viewBoxOf(viewport)}
+        className="outline outline-[#00000080] bg-white cursor-grab touch-none"
         aria-label="Curling house with stone positions"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => {
+          panStart.current = null;
+        }}
+        onPointerCancel={() => {
+          panStart.current = null;
+        }}
       >
         <title>Curling house with stone positions</title>
-        {/* Ice surface background */}
-        <rect width={svgWidth} height={svgHeight} fill="#f0f8ff" />
-
-        {/* 12-foot circle */}
-        <circle
-          cx={buttonCenterX}
-          cy={buttonCenterY}
-          r={twelveFootRadius}
-          fill="#D58FFF"
-          stroke="black"
-          strokeWidth="1"
-        />
-
-        {/* 8-foot circle */}
-        <circle
-          cx={buttonCenterX}
-          cy={buttonCenterY}
-          r={eightFootRadius}
-          fill="white"
-          stroke="black"
-          strokeWidth="1"
-        />
-
-        {/* 4-foot circle */}
-        <circle
-          cx={buttonCenterX}
-          cy={buttonCenterY}
-          r={fourFootRadius}
-          fill="#FED2BC"
-          stroke="black"
-          strokeWidth="1"
-        />
-
-        {/* Button */}
-        <circle
-          cx={buttonCenterX}
-          cy={buttonCenterY}
-          r={buttonRadius}
-          fill="white"
-          stroke="black"
-          strokeWidth="1"
-        />
+        {/* Ice, free guard zone, rings and the lines of the sheet */}
+        {BACKGROUND.map((shape, index) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: the background is a fixed list
+          <ShapeElement key={index} shape={shape} />
+        ))}
 
-        {/* Center line */}
-        <line
-          x1={buttonCenterX}
-          y1={0}
-          x2={buttonCenterX}
-          y2={svgHeight}
-          stroke="#00000080"
-          strokeWidth="1"
-        />
-
-        {/* Tee line (horizontal through button) */}
-        <line
-          x1={0}
-          y1={buttonCenterY}
-          x2={svgWidth}
-          y2={buttonCenterY}
-          stroke="#00000080"
-          strokeWidth="1"
-        />
+        {heatmap && <HeatmapOverlay heatmap={heatmap} />}
 
         {/* Stones */}
-        {stones.map((stone) => {
-          const coords = convertCoords(stone.x, stone.y);
-          const stoneRadius = ftToPx(11 / 12 / 2);
+        {!transitions &&
+          stones.map((stone) => (
+            <ShapeElement
+              key={`${stone.color}-${stone.x}-${stone.y}`}
+              shape={stoneShape(stone)}
+            />
+          ))}
+
+        {/* Animated stones: trails first so they sit underneath */}
+        {transitions?.map((transition) => {
+          if (transition.change !== "moved") return null;
+          const from = toDrawingCoords(transition.from.x, transition.from.y);
+          const to = toDrawingCoords(transition.to.x, transition.to.y);
+          return (
+            <line
+              key={`${transitionKey}-trail-${transition.color}-${transition.from.x},${transition.from.y}`}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              className="stone-trail"
+              stroke={CHANGE_STROKE.moved}
+              strokeWidth="1.5"
+              strokeDasharray="4 3"
+            />
+          );
+        })}
+        {transitions?.map((transition) => {
+          const position =
+            transition.change === "removed" ? transition.from : transition.to;
+          const coords = toDrawingCoords(position.x, position.y);
+          // Moved stones slide in from their old spot, delivered stones
+          // from the hog line, the way they were thrown
+          const start =
+            transition.change === "moved"
+              ? toDrawingCoords(transition.from.x, transition.from.y)
+              : toDrawingCoords(position.x, HOG_LINE_Y);
+          const offset = { x: start.x - coords.x, y: start.y - coords.y };
 
           return (
             <circle
-              key={`${stone.color}-${stone.x}-${stone.y}`}
+              // A new key for every shot and stone restarts its animation
+              key={`${transitionKey}-${transition.change}-${transition.color}-${position.x},${position.y}`}
               cx={coords.x}
               cy={coords.y}
-              r={stoneRadius}
-              fill={stone.color === "red" ? "#ff6464" : "#FFFF05"}
-              stroke="#000"
-              strokeWidth="1"
+              r={STONE_RADIUS}
+              fill={STONE_FILL[transition.color]}
+              stroke={CHANGE_STROKE[transition.change]}
+              strokeWidth={
+                transition.change === "delivered" ||
+                transition.change === "moved"
+                  ? 2.5
+                  : 1
+              }
+              strokeDasharray={
+                transition.change === "removed" ? "3 2" : undefined
+              }
+              className={`stone-${transition.change}`}
+              style={
+                {
+                  "--stone-dx": `${offset.x}px`,
+                  "--stone-dy": `${offset.y}px`
+                } as React.CSSProperties
+              }
             />
           );
         })}
+
+        {referenceStones && !transitions && (
+          <DifferenceOverlay reference={referenceStones} stones={stones} />
+        )}
+
+        {showRules && <RulesOverlay stones={protection} />}
+
+        {analysis && <MeasurementOverlay analysis={analysis} />}
       </svg>
 
+      <div className="flex items-center gap-1 mt-1 text-xs">
+        {SHEET_VIEWS.map((option) => (
+          <Button
+            key={option}
+            variant="ghost"
+            size="sm"
+            toggled={view === option}
+            onClick={() => handleViewChange(option)}
+          >
+            {SHEET_VIEW_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {(onShowMeasurementsChange || onShowRulesChange || analysis) && (
+        <div className="flex items-center gap-2 mt-1 text-xs">
+          {onShowMeasurementsChange && (
+            <>
+              <Toggle
+                size="sm"
+                toggled={showMeasurements}
+                onClick={() => onShowMeasurementsChange(!showMeasurements)}
+              />
+              <span>Measure</span>
+            </>
+          )}
+          {onShowRulesChange && (
+            <>
+              <Toggle
+                size="sm"
+                toggled={showRules}
+                onClick={() => onShowRulesChange(!showRules)}
+              />
+              <span>Rules</span>
+            </>
+          )}
+          {analysis && (
+            <span className="ml-auto">
+              {analysis.counting && analysis.shotRock
+                ? `${analysis.counting.color} ${analysis.counting.count} counting, shot ${analysis.shotRock.distance} ft`
+                : "House empty"}
+            </span>
+          )}
+        </div>
+      )}
+
+      {showRules && (
+        <div className="flex items-center gap-2 mt-1 text-xs">
+          <span
+            className="inline-block w-2.5 h-2.5"
+            style={{ backgroundColor: FGZ_FILL }}
+          />
+          <span>
+            {rules && nextShot
+              ? isProtectedShot(rules, nextShot.shotNumber)
+                ? `Free guard zone: shot ${nextShot.shotNumber} can't remove ${protection?.filter((stone) => stone.protected).length ?? 0} stone(s)`
+                : "Free guard zone no longer applies"
+              : "Free guard zone"}
+          </span>
+        </div>
+      )}
+
+      {heatmap && (
+        <div className="flex items-center gap-2 mt-1 text-xs">
+          <span
+            className="inline-block w-2.5 h-2.5"
+            style={{ backgroundColor: HEATMAP_FILL }}
+          />
+          <span>
+            {heatmapCaption(heatmap)}: {heatmap.stones} from {heatmap.shots}{" "}
+            shots
+          </span>
+          {onHeatmapClose && (
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              className="ml-auto"
+              aria-label="Hide heatmap"
+              onClick={onHeatmapClose}
+            >
+              <XIcon size={12} />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {(transitions || referenceStones) && (
+        <div className="flex items-center gap-3 mt-1 text-xs">
+          {(transitions ? CHANGE_LABELS : DIFFERENCE_LABELS).map(
+            ([change, label]) => (
+              <span key={change} className="flex items-center gap-1">
+                <svg width={10} height={10} aria-hidden="true">
+                  <circle
+                    cx={5}
+                    cy={5}
+                    r={4}
+                    fill="white"
+                    stroke={CHANGE_STROKE[change]}
+                    strokeWidth={change === "removed" ? 1 : 2}
+                    strokeDasharray={change === "removed" ? "2 1" : undefined}
+                  />
+                </svg>
+                {label}
+              </span>
+            )
+          )}
+        </div>
+      )}
+
       {shotInfo && (
         <div className="mt-2 text-md">
           <p className="text-lg">
-            {shotInfo.shot_team}: {shotInfo.player_name}
+            {shotInfo.shot.team}: {shotInfo.shot.playerName}
           </p>
           <div className="flex items-center gap-2">
-            <span>{shotInfo.shot_type}</span>
+            <span>{shotInfo.shot.type}</span>
             <span className="flex items-center ml-auto">
-              {shotInfo.turn === "clockwise" && (
+              {shotInfo.shot.turn?.rotation === "clockwise" && (
                 <ArrowClockwiseIcon size={16} />
               )}
-              {shotInfo.turn === "counterclockwise" && (
+              {shotInfo.shot.turn?.rotation === "counterclockwise" && (
                 <ArrowCounterClockwiseIcon size={16} />
               )}
-              {shotInfo.turn &&
-                shotInfo.turn !== "clockwise" &&
-                shotInfo.turn !== "counterclockwise" &&
-                shotInfo.turn}
+              {shotInfo.shot.turn?.recorded === "handle" &&
+                shotInfo.shot.turn.handle}
+            </span>
+            <span>
+              {shotInfo.shot.percentScore === null
+                ? "–"
+                : `${shotInfo.shot.percentScore}%`}
             </span>
-            <span>{shotInfo.percent_score}%</span>
           </div>
         </div>
       )}
@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import {
+  CaretLeftIcon,
+  CaretRightIcon,
+  FilmStripIcon,
+  TableIcon
+} from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Loader } from "@/components/loader/Loader";
+import { fetchApi } from "@/lib/api-client";
+import { cn } from "@/lib/utils";
+import type {
+  CurlingEvent,
+  End,
+  EventListItem,
+  Game,
+  Page,
+  Shot
+} from "@/lib/domain";
+
+type Location =
+  | { level: "events" }
+  | { level: "games"; event: CurlingEvent }
+  | { level: "ends"; event: CurlingEvent; game: Game }
+  | { level: "shots"; event: CurlingEvent; game: Game; end: End };
+
+type Listing =
+  | { level: "events"; page: Page<EventListItem> }
+  | { level: "games"; page: Page<Game> }
+  | { level: "ends"; ends: End[] }
+  | { level: "shots"; shots: Shot[] };
+
+interface DataBrowserProps {
+  selectedShotId?: number;
+  onShotSelect: (shotId: number) => void;
+  onEndReplay?: (endId: number) => void;
+  onGameScoreboard?: (gameId: number) => void;
+}
+
+const PAGE_SIZE = 20;
+
+async function loadListing(
+  location: Location,
+  page: number
+): Promise<Listing | string> {
+  const paging = `page=${page}&pageSize=${PAGE_SIZE}`;
+  switch (location.level) {
+    case "events": {
+      const data = await fetchApi<Page<EventListItem>>(`/api/events?${paging}`);
+      return data.success ? { level: "events", page: data } : data.error;
+    }
+    case "games": {
+      const data = await fetchApi<Page<Game>>(
+        `/api/games?eventId=${location.event.id}&${paging}`
+      );
+      return data.success ? { level: "games", page: data } : data.error;
+    }
+    case "ends": {
+      const data = await fetchApi<{ ends: End[] }>(
+        `/api/ends?gameId=${location.game.id}`
+      );
+      return data.success ? { level: "ends", ends: data.ends } : data.error;
+    }
+    case "shots": {
+      const data = await fetchApi<{ shots: Shot[] }>(
+        `/api/shots?endId=${location.end.id}`
+      );
+      return data.success ? { level: "shots", shots: data.shots } : data.error;
+    }
+  }
+}
+
+const formatScore = (game: Game) => {
+  if (game.isWinLoss) return game.winner === "red" ? "W–L" : "L–W";
+  if (game.finalScoreRed === null || game.finalScoreYellow === null) return "";
+  return `${game.finalScoreRed}–${game.finalScoreYellow}`;
+};
+
+const formatDates = (event: CurlingEvent) =>
+  [event.startDate, event.endDate].filter(Boolean).join(" – ");
+
+const itemClassName =
+  "w-full text-left px-2 py-1.5 rounded hover:bg-neutral-200 dark:hover:bg-neutral-800 cursor-pointer";
+
+/**
+ * Navigable list of events → games → ends → shots, so any shot can be reached
+ * without knowing its database ID
+ */
+export const DataBrowser = ({
+  selectedShotId,
+  onShotSelect,
+  onEndReplay,
+  onGameScoreboard
+}: DataBrowserProps) => {
+  const [location, setLocation] = useState<Location>({ level: "events" });
+  const [page, setPage] = useState(1);
+  const [listing, setListing] = useState<Listing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setListing(null);
+    setError(null);
+    loadListing(location, page).then((result) => {
+      if (cancelled) return;
+      if (typeof result === "string") setError(result);
+      else setListing(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [location, page]);
+
+  const navigate = (next: Location) => {
+    setLocation(next);
+    setPage(1);
+  };
+
+  const goBack = () => {
+    switch (location.level) {
+      case "games":
+        return navigate({ level: "events" });
+      case "ends":
+        return navigate({ level: "games", event: location.event });
+      case "shots":
+        return navigate({
+          level: "ends",
+          event: location.event,
+          game: location.game
+        });
+    }
+  };
+
+  const breadcrumb =
+    location.level === "events"
+      ? "Events"
+      : location.level === "games"
+        ? location.event.name
+        : location.level === "ends"
+          ? `${location.game.teamRed} vs ${location.game.teamYellow}`
+          : `End ${location.end.number}`;
+
+  const pageInfo =
+    listing?.level === "events" || listing?.level === "games"
+      ? listing.page
+      : null;
+  const pageCount = pageInfo
+    ? Math.max(1, Math.ceil(pageInfo.total / pageInfo.pageSize))
+    : 1;
+
+  return (
+    <div className="flex flex-col h-full text-sm">
+      <div className="flex items-center gap-1 px-2 py-2 border-b border-neutral-300 dark:border-neutral-800">
+        {location.level !== "events" && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            aria-label="Back"
+            onClick={goBack}
+          >
+            <CaretLeftIcon size={14} />
+          </Button>
+        )}
+        <span className="font-semibold truncate flex-1">{breadcrumb}</span>
+        {location.level === "ends" && onGameScoreboard && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            tooltip="Show scoreboard"
+            onClick={() => onGameScoreboard(location.game.id)}
+          >
+            <TableIcon size={14} />
+          </Button>
+        )}
+        {location.level === "shots" && onEndReplay && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            tooltip="Replay end"
+            onClick={() => onEndReplay(location.end.id)}
+          >
+            <FilmStripIcon size={14} />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {error && <p className="p-2 text-red-600">{error}</p>}
+        {!listing && !error && (
+          <div className="flex justify-center p-4">
+            <Loader />
+          </div>
+        )}
+
+        {listing?.level === "events" &&
+          listing.page.items.map((event) => (
+            <button
+              key={event.id}
+              type="button"
+              className={itemClassName}
+              onClick={() => navigate({ level: "games", event })}
+            >
+              <span className="block font-medium">{event.name}</span>
+              <span className="block text-xs text-neutral-500">
+                {formatDates(event)} · {event.gameCount} games
+              </span>
+            </button>
+          ))}
+
+        {listing?.level === "games" &&
+          location.level === "games" &&
+          listing.page.items.map((game) => (
+            <button
+              key={game.id}
+              type="button"
+              className={itemClassName}
+              onClick={() =>
+                navigate({ level: "ends", event: location.event, game })
+              }
+            >
+              <span className="flex justify-between font-medium">
+                <span>
+                  {game.teamRed} vs {game.teamYellow}
+                </span>
+                <span className="font-mono">{formatScore(game)}</span>
+              </span>
+              <span className="block text-xs text-neutral-500">
+                {[game.session, game.name, game.startDate]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+            </button>
+          ))}
+
+        {listing?.level === "ends" &&
+          location.level === "ends" &&
+          listing.ends.map((end) => (
+            <button
+              key={end.id}
+              type="button"
+              className={itemClassName}
+              onClick={() =>
+                navigate({
+                  level: "shots",
+                  event: location.event,
+                  game: location.game,
+                  end
+                })
+              }
+            >
+              <span className="flex justify-between">
+                <span className="font-medium">End {end.number}</span>
+                <span className="font-mono">
+                  {end.scoreRed ?? "–"}–{end.scoreYellow ?? "–"}
+                </span>
+              </span>
+              <span className="block text-xs text-neutral-500">
+                Hammer: {end.hammer}
+              </span>
+            </button>
+          ))}
+
+        {listing?.level === "shots" &&
+          listing.shots.map((shot) => (
+            <button
+              key={shot.id}
+              type="button"
+              className={cn(itemClassName, {
+                "bg-neutral-200 dark:bg-neutral-800": shot.id === selectedShotId
+              })}
+              onClick={() => onShotSelect(shot.id)}
+            >
+              <span className="flex justify-between">
+                <span className="font-medium">
+                  #{shot.number} {shot.playerName}
+                </span>
+                <span className="font-mono">
+                  {shot.percentScore === null ? "–" : `${shot.percentScore}%`}
+                </span>
+              </span>
+              <span className="block text-xs text-neutral-500">
+                {shot.team} · {shot.type}
+              </span>
+            </button>
+          ))}
+      </div>
+
+      {pageInfo && pageCount > 1 && (
+        <div className="flex items-center justify-between px-2 py-1 border-t border-neutral-300 dark:border-neutral-800 text-xs">
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            aria-label="Previous page"
+            disabled={page <= 1}
+            onClick={() => setPage((prev) => prev - 1)}
+          >
+            <CaretLeftIcon size={12} />
+          </Button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            aria-label="Next page"
+            disabled={page >= pageCount}
+            onClick={() => setPage((prev) => prev + 1)}
+          >
+            <CaretRightIcon size={12} />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
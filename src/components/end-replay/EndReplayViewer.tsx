@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import {
+  CaretLeftIcon,
+  CaretRightIcon,
+  PauseIcon,
+  PlayIcon,
+  SkipBackIcon,
+  SkipForwardIcon,
+  XIcon
+} from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { CurlingHouse } from "@/components/curling-house/CurlingHouse";
+import { Toggle } from "@/components/toggle/Toggle";
+import type { EndReplay } from "@/lib/domain";
+
+const PLAY_INTERVAL_MS = 1500;
+
+interface EndReplayViewerProps {
+  replay: EndReplay;
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose?: () => void;
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.isContentEditable);
+
+/**
+ * Step-through viewer for every shot of an end.
+ *
+ * Keyboard shortcuts: ← / → previous and next shot, Space play / pause,
+ * Home / End first and last shot, Escape close.
+ */
+export const EndReplayViewer = ({
+  replay,
+  index,
+  onIndexChange,
+  onClose
+}: EndReplayViewerProps) => {
+  const [playing, setPlaying] = useState(false);
+  const [animated, setAnimated] = useState(true);
+  const lastIndex = replay.shots.length - 1;
+  const current = replay.shots[index];
+  // The first shot of an end is thrown onto an empty sheet
+  const previousStones = replay.shots[index - 1]?.stones ?? [];
+
+  // Advance while playing and stop on the last shot
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onIndexChange(index + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, lastIndex, onIndexChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return;
+
+      switch (event.key) {
+        case "ArrowLeft":
+          setPlaying(false);
+          onIndexChange(Math.max(0, index - 1));
+          break;
+        case "ArrowRight":
+          setPlaying(false);
+          onIndexChange(Math.min(lastIndex, index + 1));
+          break;
+        case " ":
+          setPlaying((prev) => !prev);
+          break;
+        case "Home":
+          setPlaying(false);
+          onIndexChange(0);
+          break;
+        case "End":
+          setPlaying(false);
+          onIndexChange(lastIndex);
+          break;
+        case "Escape":
+          onClose?.();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [index, lastIndex, onIndexChange, onClose]);
+
+  const step = (nextIndex: number) => {
+    setPlaying(false);
+    onIndexChange(nextIndex);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <span className="font-semibold truncate">
+          {replay.game.teamRed} vs {replay.game.teamYellow}
+        </span>
+        <span className="text-muted-foreground truncate">
+          {replay.event.name}
+        </span>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="ml-auto"
+            aria-label="Close replay"
+            onClick={onClose}
+          >
+            <XIcon size={14} />
+          </Button>
+        )}
+      </div>
+
+      {current ? (
+        <CurlingHouse
+          stones={current.stones}
+          shotInfo={{ shot: current.shot, end: replay.end }}
+          previousStones={animated ? previousStones : undefined}
+          transitionKey={current.shot.id}
+        />
+      ) : (
+        <p className="text-sm">No shots recorded for this end.</p>
+      )}
+
+      <div className="flex items-center justify-center gap-1 mt-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          aria-label="First shot"
+          disabled={index <= 0}
+          onClick={() => step(0)}
+        >
+          <SkipBackIcon size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          aria-label="Previous shot"
+          disabled={index <= 0}
+          onClick={() => step(index - 1)}
+        >
+          <CaretLeftIcon size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          aria-label={playing ? "Pause" : "Play"}
+          disabled={lastIndex <= 0}
+          onClick={() => {
+            // Restart from the first shot when playing from the end
+            if (!playing && index >= lastIndex) onIndexChange(0);
+            setPlaying((prev) => !prev);
+          }}
+        >
+          {playing ? <PauseIcon size={16} /> : <PlayIcon size={16} />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          aria-label="Next shot"
+          disabled={index >= lastIndex}
+          onClick={() => step(index + 1)}
+        >
+          <CaretRightIcon size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          aria-label="Last shot"
+          disabled={index >= lastIndex}
+          onClick={() => step(lastIndex)}
+        >
+          <SkipForwardIcon size={16} />
+        </Button>
+        <span className="text-xs font-mono ml-2">
+          {index + 1} / {replay.shots.length}
+        </span>
+        <span className="flex items-center gap-1 ml-auto text-xs">
+          Animate
+          <Toggle
+            size="sm"
+            toggled={animated}
+            onClick={() => setAnimated((prev) => !prev)}
+          />
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import { useRef, useState } from "react";
+import {
+  ChatCircleDotsIcon,
+  LinkIcon,
+  TrashIcon,
+  XIcon
+} from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { ShapeElement } from "@/components/curling-house/CurlingHouse";
+import { Select } from "@/components/select/Select";
+import type { StoneColor, StonePosition } from "@/lib/domain";
+import {
+  HOUSE_HEIGHT,
+  HOUSE_WIDTH,
+  STONE_FILL,
+  fromDrawingCoords,
+  houseBackground,
+  stoneShape
+} from "@/lib/house-geometry";
+import {
+  type CustomPosition,
+  MAX_SHOT_NUMBER,
+  MAX_STONES_PER_COLOR,
+  throwerOf
+} from "@/lib/position-code";
+
+interface PositionEditorProps {
+  position: CustomPosition;
+  onChange: (position: CustomPosition) => void;
+  /** Send the position to the agent */
+  onAsk: (position: CustomPosition) => void;
+  /** A link that opens the position, copied by the link button */
+  link?: string;
+  onClose?: () => void;
+}
+
+const COLORS: StoneColor[] = ["red", "yellow"];
+
+const SHOT_OPTIONS = Array.from({ length: MAX_SHOT_NUMBER }, (_, i) => ({
+  value: String(i + 1)
+}));
+
+const BACKGROUND = houseBackground();
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+
+/**
+ * Editor for a hypothetical layout.
+ *
+ * Click the ice to add a stone of the selected color, drag a stone to move
+ * it, double-click or right-click it to remove it.
+ */
+export const PositionEditor = ({
+  position,
+  onChange,
+  onAsk,
+  link,
+  onClose
+}: PositionEditorProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [color, setColor] = useState<StoneColor>("red");
+  // The stone being dragged and where it is, committed on release
+  const [drag, setDrag] = useState<{
+    index: number;
+    x: number;
+    y: number;
+  } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const counts = {
+    red: position.stones.filter((stone) => stone.color === "red").length,
+    yellow: position.stones.filter((stone) => stone.color === "yellow").length
+  };
+
+  // Stone coordinates of a pointer event, kept on the drawn sheet
+  const pointerCoords = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const drawing = fromDrawingCoords(
+      clamp(event.clientX - rect.left, HOUSE_WIDTH),
+      clamp(event.clientY - rect.top, HOUSE_HEIGHT)
+    );
+    return { x: Math.round(drawing.x), y: Math.round(drawing.y) };
+  };
+
+  const setStones = (stones: StonePosition[]) =>
+    onChange({ ...position, stones });
+
+  const removeStone = (index: number) =>
+    setStones(position.stones.filter((_, i) => i !== index));
+
+  const handleIcePointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0 || counts[color] >= MAX_STONES_PER_COLOR) return;
+    setStones([...position.stones, { color, ...pointerCoords(event) }]);
+  };
+
+  const handleStonePointerDown = (event: React.PointerEvent, index: number) => {
+    event.stopPropagation();
+    if (event.button !== 0) return;
+    svgRef.current?.setPointerCapture(event.pointerId);
+    setDrag({ index, ...pointerCoords(event) });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (drag) setDrag({ index: drag.index, ...pointerCoords(event) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const { index, x, y } = drag;
+    setDrag(null);
+    const stone = position.stones[index];
+    if (stone && (stone.x !== x || stone.y !== y)) {
+      setStones(
+        position.stones.map((other, i) =>
+          i === index ? { ...other, x, y } : other
+        )
+      );
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const stones = position.stones.map((stone, index) =>
+    drag?.index === index ? { ...stone, x: drag.x, y: drag.y } : stone
+  );
+
+  return (
+    <div className="font-mono">
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="font-bold">Custom position</h3>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="ml-auto"
+            aria-label="Close position editor"
+            onClick={onClose}
+          >
+            <XIcon size={14} />
+          </Button>
+        )}
+      </div>
+
+      <svg
+        ref={svgRef}
+        width={HOUSE_WIDTH}
+        height={HOUSE_HEIGHT}
+        className="outline outline-[#00000080] bg-white cursor-crosshair touch-none"
+        aria-label="Curling house position editor"
+        onPointerDown={handleIcePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+      >
+        <title>Curling house position editor</title>
+        {BACKGROUND.map((shape, index) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: the background is a fixed list
+          <ShapeElement key={index} shape={shape} />
+        ))}
+
+        {stones.map((stone, index) => {
+          const shape = stoneShape(stone);
+          if (shape.kind !== "circle") return null;
+          return (
+            // biome-ignore lint/a11y/noStaticElementInteractions: stones are moved with the pointer only
+            <circle
+              // biome-ignore lint/suspicious/noArrayIndexKey: stones are identified by their place in the position
+              key={index}
+              cx={shape.cx}
+              cy={shape.cy}
+              r={shape.r}
+              fill={shape.fill}
+              stroke={shape.stroke}
+              strokeWidth={drag?.index === index ? 2.5 : shape.strokeWidth}
+              className="cursor-grab"
+              onPointerDown={(event) => handleStonePointerDown(event, index)}
+              onDoubleClick={() => removeStone(index)}
+              onContextMenu={(event) => {
+                event.preventDefault();
+                removeStone(index);
+              }}
+            >
+              <title>
+                {stone.color} ({stone.x}, {stone.y})
+              </title>
+            </circle>
+          );
+        })}
+      </svg>
+
+      <div className="flex items-center gap-1 mt-2 text-xs">
+        {COLORS.map((option) => (
+          <Button
+            key={option}
+            variant="ghost"
+            size="sm"
+            toggled={color === option}
+            disabled={counts[option] >= MAX_STONES_PER_COLOR}
+            onClick={() => setColor(option)}
+          >
+            <svg width={12} height={12} aria-hidden="true">
+              <circle
+                cx={6}
+                cy={6}
+                r={5}
+                fill={STONE_FILL[option]}
+                stroke="#000"
+              />
+            </svg>
+            {counts[option]}/{MAX_STONES_PER_COLOR}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          className="ml-auto"
+          aria-label="Remove all stones"
+          disabled={!position.stones.length}
+          onClick={() => setStones([])}
+        >
+          <TrashIcon size={14} />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2 mt-1 text-xs">
+        <span>Shot</span>
+        <Select
+          size="sm"
+          options={SHOT_OPTIONS}
+          value={String(position.shotNumber)}
+          setValue={(value) =>
+            onChange({ ...position, shotNumber: Number(value) })
+          }
+        />
+        <span>Hammer</span>
+        <Select
+          size="sm"
+          options={COLORS.map((value) => ({ value }))}
+          value={position.hammer}
+          setValue={(value) =>
+            onChange({ ...position, hammer: value as StoneColor })
+          }
+        />
+      </div>
+      <p className="mt-1 text-xs">
+        {throwerOf(position)} to throw. Click to add a {color} stone, drag to
+        move, double-click to remove.
+      </p>
+
+      <div className="flex gap-1 mt-2">
+        <Button variant="primary" size="sm" onClick={() => onAsk(position)}>
+          <ChatCircleDotsIcon size={14} />
+          What would you throw?
+        </Button>
+        {link && (
+          <Button variant="ghost" size="sm" onClick={handleCopyLink}>
+            <LinkIcon size={14} />
+            {copied ? "Copied" : "Copy link"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { HammerIcon, XIcon } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { cn } from "@/lib/utils";
+import type { End, GameSummary, StoneColor } from "@/lib/domain";
+
+interface ScoreboardProps {
+  summary: GameSummary;
+  /** End currently shown in the curling house, highlighted in the line score */
+  selectedEndId?: number;
+  onEndSelect?: (end: End) => void;
+  onClose?: () => void;
+}
+
+const TEAM_COLORS: Record<StoneColor, string> = {
+  red: "bg-[#ff6464]",
+  yellow: "bg-[#FFFF05]"
+};
+
+/**
+ * Remaining thinking time as m:ss; the dataset stores it in seconds
+ */
+const formatTimeLeft = (seconds: number | null) => {
+  if (seconds === null) return "–";
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+};
+
+const endScore = (end: End, color: StoneColor) =>
+  color === "red" ? end.scoreRed : end.scoreYellow;
+
+/**
+ * Classic curling line score: ends across, hammer indicator, running totals
+ * and remaining time per team. Clicking an end selects it.
+ */
+export const Scoreboard = ({
+  summary,
+  selectedEndId,
+  onEndSelect,
+  onClose
+}: ScoreboardProps) => {
+  const { game, event, ends } = summary;
+  const lastTimedEnd = [...ends]
+    .reverse()
+    .find((end) => end.timeLeftRed !== null || end.timeLeftYellow !== null);
+
+  const rows = (["red", "yellow"] as const).map((color) => {
+    let runningTotal = 0;
+    const cells = ends.map((end) => {
+      runningTotal += endScore(end, color) ?? 0;
+      return { end, score: endScore(end, color), runningTotal };
+    });
+
+    const finalScore =
+      color === "red" ? game.finalScoreRed : game.finalScoreYellow;
+    const total = game.isWinLoss
+      ? game.winner === color
+        ? "W"
+        : "L"
+      : (finalScore ?? runningTotal);
+
+    const timeLeft =
+      color === "red"
+        ? (lastTimedEnd?.timeLeftRed ?? null)
+        : (lastTimedEnd?.timeLeftYellow ?? null);
+
+    return {
+      color,
+      team: color === "red" ? game.teamRed : game.teamYellow,
+      cells,
+      total,
+      timeLeft
+    };
+  });
+
+  return (
+    <div className="font-mono text-xs">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="font-semibold truncate">{event.name}</span>
+        {game.name && (
+          <span className="text-muted-foreground truncate">{game.name}</span>
+        )}
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="ml-auto"
+            aria-label="Close scoreboard"
+            onClick={onClose}
+          >
+            <XIcon size={12} />
+          </Button>
+        )}
+      </div>
+
+      <table className="w-full border-collapse text-center">
+        <thead>
+          <tr className="border-b border-neutral-300">
+            <th className="text-left pr-1">Team</th>
+            {ends.map((end) => (
+              <th key={end.id} className="px-0.5 font-normal">
+                {end.number}
+              </th>
+            ))}
+            <th className="px-1">Tot</th>
+            <th className="px-1 font-normal">Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.color}>
+              <td className="text-left pr-1 whitespace-nowrap">
+                <span
+                  className={cn(
+                    "inline-block w-2 h-2 rounded-full border border-black mr-1",
+                    TEAM_COLORS[row.color]
+                  )}
+                />
+                {row.team}
+              </td>
+              {row.cells.map(({ end, score, runningTotal }) => (
+                <td
+                  key={end.id}
+                  className={cn("px-0.5 py-0.5", {
+                    "bg-neutral-200": end.id === selectedEndId
+                  })}
+                >
+                  <button
+                    type="button"
+                    className="w-full cursor-pointer hover:underline"
+                    title={`End ${end.number}: ${runningTotal} total, ${formatTimeLeft(
+                      row.color === "red" ? end.timeLeftRed : end.timeLeftYellow
+                    )} left`}
+                    onClick={() => onEndSelect?.(end)}
+                  >
+                    <span className="flex items-center justify-center">
+                      {end.hammer === row.color && (
+                        <HammerIcon size={8} weight="fill" />
+                      )}
+                      {score ?? "–"}
+                    </span>
+                    <span className="block text-[9px] text-neutral-500">
+                      {runningTotal}
+                    </span>
+                  </button>
+                </td>
+              ))}
+              <td className="px-1 font-bold">{row.total}</td>
+              <td className="px-1">{formatTimeLeft(row.timeLeft)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
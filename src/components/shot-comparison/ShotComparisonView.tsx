@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { XIcon } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { CurlingHouse } from "@/components/curling-house/CurlingHouse";
+import { Toggle } from "@/components/toggle/Toggle";
+import type { ShotComparison } from "@/lib/domain";
+import { describeDifference } from "@/lib/shot-comparison";
+
+interface ShotComparisonViewProps {
+  comparison: ShotComparison;
+  onClose?: () => void;
+}
+
+/**
+ * Two or more shots side by side. The first shot is the reference: with
+ * differences on, every other house marks how its stones differ from it.
+ */
+export const ShotComparisonView = ({
+  comparison,
+  onClose
+}: ShotComparisonViewProps) => {
+  const [showDifferences, setShowDifferences] = useState(true);
+  const [reference] = comparison.shots;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <span className="font-semibold">
+          Comparing {comparison.shots.length} shots
+        </span>
+        <span className="flex items-center gap-1 ml-auto text-xs">
+          Differences
+          <Toggle
+            size="sm"
+            toggled={showDifferences}
+            onClick={() => setShowDifferences((prev) => !prev)}
+          />
+        </span>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            aria-label="Close comparison"
+            onClick={onClose}
+          >
+            <XIcon size={14} />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {comparison.shots.map((details, index) => {
+          const difference = comparison.differences[index - 1];
+          return (
+            <div key={details.shot.id}>
+              <div className="mb-1 text-xs">
+                <p className="font-semibold truncate">
+                  {details.game.teamRed} vs {details.game.teamYellow}
+                </p>
+                <p className="text-muted-foreground truncate">
+                  {details.event.name}
+                </p>
+                <p>
+                  {difference ? describeDifference(difference) : "Reference"}
+                </p>
+              </div>
+              <CurlingHouse
+                stones={details.stones}
+                shotInfo={details}
+                referenceStones={
+                  difference && showDifferences ? reference.stones : undefined
+                }
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
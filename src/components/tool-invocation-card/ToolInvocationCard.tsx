@@ -3,7 +3,7 @@ import type { ToolUIPart } from "ai";
 import { Robot, CaretDown } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
-import { APPROVAL } from "@/shared";
+import { APPROVAL, type Approval } from "@/shared";
 
 interface ToolResultWithContent {
   content: Array<{ type: string; text: string }>;
@@ -29,9 +29,9 @@ interface ToolInvocationCardProps {
     result
   }: {
     toolCallId: string;
-    result: string;
+    result: Approval;
   }) => void;
-  addToolResult: (toolCallId: string, result: string) => void;
+  addToolResult: (toolCallId: string, result: Approval) => void;
 }
 
 export function ToolInvocationCard({
@@ -0,0 +1,125 @@
+import type { GameWinProbability } from "@/lib/domain";
+
+interface WinProbabilityChartProps {
+  data: GameWinProbability;
+  teamRed: string;
+  teamYellow: string;
+}
+
+const WIDTH = 300;
+const HEIGHT = 72;
+const PADDING = { top: 6, right: 6, bottom: 14, left: 24 };
+
+const percent = (probability: number) => `${Math.round(probability * 100)}%`;
+
+/**
+ * Red's historical win probability before the first end and after each end,
+ * drawn under the scoreboard; above the middle line red is favoured
+ */
+export const WinProbabilityChart = ({
+  data,
+  teamRed,
+  teamYellow
+}: WinProbabilityChartProps) => {
+  const { points } = data;
+  if (points.length < 2) return null;
+
+  const lastEnd = points[points.length - 1].afterEnd;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (afterEnd: number) =>
+    PADDING.left + (afterEnd / Math.max(1, lastEnd)) * plotWidth;
+  const y = (probability: number) =>
+    PADDING.top + (1 - probability) * plotHeight;
+
+  const path = points
+    .map(
+      (point, i) =>
+        `${i ? "L" : "M"}${x(point.afterEnd).toFixed(1)},${y(point.probabilityRed).toFixed(1)}`
+    )
+    .join(" ");
+
+  return (
+    <div className="font-mono text-xs mt-2">
+      <div className="flex justify-between text-[10px] text-neutral-500">
+        <span>Win probability</span>
+        <span>
+          {teamRed} {percent(points[points.length - 1].probabilityRed)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full"
+        role="img"
+        aria-label={`Win probability of ${teamRed} against ${teamYellow} by end`}
+      >
+        <rect
+          x={PADDING.left}
+          y={PADDING.top}
+          width={plotWidth}
+          height={plotHeight / 2}
+          fill="#ff6464"
+          opacity={0.08}
+        />
+        <rect
+          x={PADDING.left}
+          y={PADDING.top + plotHeight / 2}
+          width={plotWidth}
+          height={plotHeight / 2}
+          fill="#FFFF05"
+          opacity={0.15}
+        />
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(0.5)}
+          y2={y(0.5)}
+          stroke="#a3a3a3"
+          strokeDasharray="2 2"
+        />
+        {[1, 0.5, 0].map((probability) => (
+          <text
+            key={probability}
+            x={PADDING.left - 3}
+            y={y(probability) + 3}
+            textAnchor="end"
+            fontSize={8}
+            fill="#737373"
+          >
+            {percent(probability)}
+          </text>
+        ))}
+        {points.map((point) => (
+          <text
+            key={point.afterEnd}
+            x={x(point.afterEnd)}
+            y={HEIGHT - 3}
+            textAnchor="middle"
+            fontSize={8}
+            fill="#737373"
+          >
+            {point.afterEnd}
+          </text>
+        ))}
+        <path d={path} fill="none" stroke="#d62828" strokeWidth={1.5} />
+        {points.map((point) => (
+          <circle
+            key={point.afterEnd}
+            cx={x(point.afterEnd)}
+            cy={y(point.probabilityRed)}
+            r={2}
+            fill="#d62828"
+          >
+            <title>
+              {point.afterEnd
+                ? `After end ${point.afterEnd}`
+                : "Before the first end"}
+              : {teamRed} {percent(point.probabilityRed)}, {teamYellow}{" "}
+              {percent(1 - point.probabilityRed)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
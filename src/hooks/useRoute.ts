@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  type AppRoute,
+  formatRoute,
+  isSameRoute,
+  parseRoute
+} from "@/lib/routes";
+
+export interface NavigateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+}
+
+/**
+ * The current client-side route, kept in sync with the address bar and the
+ * browser's back / forward buttons
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<AppRoute>(() =>
+    parseRoute(window.location.pathname)
+  );
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback(
+    (next: AppRoute, { replace = false }: NavigateOptions = {}) => {
+      const path = formatRoute(next);
+      // Re-selecting the current view reloads it without a duplicate entry
+      if (replace || isSameRoute(next, parseRoute(window.location.pathname))) {
+        window.history.replaceState(null, "", path);
+      } else {
+        window.history.pushState(null, "", path);
+      }
+      setRoute(next);
+    },
+    []
+  );
+
+  return { route, navigate };
+};
@@ -0,0 +1,18 @@
+import type { ApiResponse } from "./domain";
+
+/**
+ * GET one of the Worker's /api endpoints, turning network and parsing
+ * failures into the same error envelope the endpoints use
+ */
+export async function fetchApi<T>(path: string): Promise<ApiResponse<T>> {
+  try {
+    const response = await fetch(path);
+    return (await response.json()) as ApiResponse<T>;
+  } catch (error) {
+    console.error(`Failed to fetch ${path}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Cache a promise for the lifetime of the isolate, retrying after a failure.
+ * Arguments are only passed to load, e.g. the D1 binding of the first
+ * request; later calls get the cached value whatever their arguments.
+ */
+export function cached<T, A extends unknown[] = []>(
+  load: (...args: A) => Promise<T>
+) {
+  let value: Promise<T> | undefined;
+  return (...args: A) => {
+    value ??= load(...args).catch((error) => {
+      value = undefined;
+      throw error;
+    });
+    return value;
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * The coordinate system of stone_positions and its physical units.
+ *
+ * The PDF parser measured stones in pixels of the 300x600 house images in
+ * the WCF scoresheets, relative to the button. Those images are 15 feet
+ * wide, so one foot is 20 units:
+ * - x: negative = left, positive = right
+ * - y: negative = behind the tee line (towards the back line), positive =
+ *   in front of it (towards the hog line)
+ *
+ * Drawing (house-geometry.ts), distances (house-analysis.ts, stone-diff.ts,
+ * position-search.ts) and the rules all work in these units; convert with
+ * toLength only when showing a length to a person.
+ *
+ * ends.direction records which end of the sheet an end was played towards.
+ * Ends with a negative direction were drawn from the other end, so their
+ * stones are turned half a turn (x and y negated) to show every end the same
+ * way round. The stone_positions_normalized view
+ * (migrations/0005_stone_positions_normalized.sql) applies the same rule, and
+ * every stone the repository reads comes from it.
+ */
+import type { StonePosition } from "./domain";
+
+export type LengthUnit = "ft" | "m";
+
+export const UNITS_PER_FOOT = 20;
+export const METRES_PER_FOOT = 0.3048;
+
+export const feetToUnits = (feet: number) => feet * UNITS_PER_FOOT;
+
+export const unitsToFeet = (units: number) => units / UNITS_PER_FOOT;
+
+export const metresToUnits = (metres: number) =>
+  feetToUnits(metres / METRES_PER_FOOT);
+
+/**
+ * A length in stone_positions units, in feet or metres rounded to
+ * centimetre-ish precision
+ */
+export function toLength(units: number, unit: LengthUnit = "ft"): number {
+  const feet = unitsToFeet(units);
+  return unit === "ft"
+    ? Math.round(feet * 100) / 100
+    : Math.round(feet * METRES_PER_FOOT * 1000) / 1000;
+}
+
+/**
+ * A point relative to the button in feet or metres
+ */
+export const toPhysical = (
+  { x, y }: { x: number; y: number },
+  unit: LengthUnit = "ft"
+) => ({ x: toLength(x, unit), y: toLength(y, unit) });
+
+export const distanceBetween = (
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Whether an end was recorded from the other end of the sheet
+ */
+export const isReversedEnd = (direction: number | null) =>
+  direction !== null && direction < 0;
+
+/**
+ * Stones as recorded for an end with the given direction, turned to the
+ * common viewing perspective
+ */
+export const normalizeDirection = (
+  stones: StonePosition[],
+  direction: number | null
+): StonePosition[] =>
+  isReversedEnd(direction)
+    ? // `|| 0` keeps stones on a line at 0 rather than -0
+      stones.map(({ color, x, y }) => ({ color, x: -x || 0, y: -y || 0 }))
+    : stones;
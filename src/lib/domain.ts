@@ -0,0 +1,539 @@
+/**
+ * Domain types for the curling database, shared by the Worker, the agent
+ * tools and the React client.
+ */
+
+export type StoneColor = "red" | "yellow";
+
+/** Team with last stone, or "unknown" where the parser could not read it */
+export type Hammer = StoneColor | "unknown";
+
+export type Rotation = "clockwise" | "counterclockwise";
+
+export type Handle = "in" | "out";
+
+export type Handedness = "right" | "left";
+
+export interface Turn {
+  rotation: Rotation;
+  handle: Handle;
+  /** Which of the two the source data recorded; the other is inferred */
+  recorded: "rotation" | "handle";
+  /** Handedness used to infer the value that was not recorded */
+  handedness: Handedness;
+}
+
+export interface CurlingEvent {
+  id: number;
+  name: string;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface Game {
+  id: number;
+  eventId: number;
+  session: string | null;
+  name: string | null;
+  sheet: string | null;
+  type: string | null;
+  startDate: string | null;
+  startTime: string | null;
+  teamRed: string;
+  teamYellow: string;
+  /** Null when missing or when the game was a Win/Loss */
+  finalScoreRed: number | null;
+  finalScoreYellow: number | null;
+  /** The game was recorded as a Win/Loss (e.g. forfeit) rather than a score */
+  isWinLoss: boolean;
+  winner: StoneColor | "tie" | null;
+}
+
+export interface End {
+  id: number;
+  gameId: number;
+  number: number;
+  direction: number | null;
+  hammer: Hammer;
+  scoreRed: number | null;
+  scoreYellow: number | null;
+  timeLeftRed: number | null;
+  timeLeftYellow: number | null;
+}
+
+export interface Shot {
+  id: number;
+  endId: number;
+  number: number;
+  color: StoneColor;
+  team: string;
+  playerName: string;
+  type: string;
+  turn: Turn | null;
+  percentScore: number | null;
+}
+
+export interface StonePosition {
+  color: StoneColor;
+  x: number;
+  y: number;
+}
+
+/**
+ * A shot together with the end, game and event it belongs to and the
+ * stone positions recorded after it was thrown
+ */
+export interface ShotDetails {
+  shot: Shot;
+  end: End;
+  game: Game;
+  event: CurlingEvent;
+  stones: StonePosition[];
+}
+
+/**
+ * A shot and the stone positions recorded after it
+ */
+export interface ShotWithStones {
+  shot: Shot;
+  stones: StonePosition[];
+}
+
+/**
+ * Every shot of an end in throwing order, for stepping through the end
+ */
+export interface EndReplay {
+  end: End;
+  game: Game;
+  event: CurlingEvent;
+  shots: ShotWithStones[];
+}
+
+/**
+ * A game with its event and every end in order, for the line score
+ */
+export interface GameSummary {
+  game: Game;
+  event: CurlingEvent;
+  ends: End[];
+}
+
+/**
+ * An event in the browser list, with the number of games it contains
+ */
+export interface EventListItem extends CurlingEvent {
+  gameCount: number;
+}
+
+/**
+ * One page of a listing endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  /** 1-based page number */
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+/**
+ * A player name as stored in shots.player_name, per team, with how often it
+ * appears
+ */
+export interface PlayerName {
+  name: string;
+  team: string;
+  eventCount: number;
+  shotCount: number;
+}
+
+/**
+ * A team name as stored in games.team_red / team_yellow, with how often it
+ * appears
+ */
+export interface TeamName {
+  name: string;
+  eventCount: number;
+  gameCount: number;
+}
+
+/**
+ * A canonical player identity and the raw spellings mapped to it
+ */
+export interface Player {
+  id: number;
+  name: string;
+  team: string;
+  aliases: string[];
+}
+
+/**
+ * Where a raw player name appears, used to suggest alias merges
+ */
+export interface PlayerNameUsage {
+  name: string;
+  team: string;
+  shotCount: number;
+  eventIds: number[];
+  gameIds: number[];
+  /** Player the name is already mapped to, if any */
+  playerId: number | null;
+}
+
+/**
+ * Two spellings that are probably the same athlete
+ */
+export interface MergeSuggestion {
+  team: string;
+  /** The spelling with more shots, proposed as the canonical name */
+  canonicalName: string;
+  names: Array<Pick<PlayerNameUsage, "name" | "shotCount" | "playerId">>;
+  /** 0 to 1 */
+  confidence: number;
+  reasons: string[];
+}
+
+export type GameFormat = "fours" | "mixed_doubles";
+
+/**
+ * Position inferred from the throwing order; mixed doubles has a player
+ * throwing the first and last stones and one throwing the middle three
+ */
+export type Position =
+  | "lead"
+  | "second"
+  | "vice"
+  | "skip"
+  | "first_last"
+  | "middle";
+
+export interface PlayerPosition {
+  playerName: string;
+  /** The position the player threw most shots from */
+  position: Position;
+  shots: number;
+  /** Average shot percentage, null when no shot was scored */
+  percentage: number | null;
+  /** Shots thrown from each position, more than one after a rotation change */
+  shotsByPosition: Partial<Record<Position, number>>;
+}
+
+/**
+ * A position thrown by a different player than before
+ */
+export interface RotationChange {
+  endNumber: number;
+  position: Position;
+  from: string;
+  to: string;
+}
+
+export interface TeamLineup {
+  color: StoneColor;
+  team: string;
+  /** Players in throwing order */
+  players: PlayerPosition[];
+  rotationChanges: RotationChange[];
+}
+
+/**
+ * Both teams' lineups in a game
+ */
+export interface GameLineups {
+  game: Game;
+  event: CurlingEvent;
+  format: GameFormat;
+  lineups: TeamLineup[];
+}
+
+/**
+ * What happened in an end, from the point of view of the team with hammer:
+ * scored 2 or more, was forced to take 1, gave up a steal, or blanked
+ */
+export type EndOutcome = "conversion" | "force" | "steal" | "blank";
+
+/**
+ * The hammer team's score differential going into an end
+ */
+export type ScoreSituation =
+  | "down_3_plus"
+  | "down_2"
+  | "down_1"
+  | "tied"
+  | "up_1"
+  | "up_2"
+  | "up_3_plus";
+
+export type EfficiencyGrouping = "team" | "event" | "endNumber" | "situation";
+
+/**
+ * Outcomes of a set of ends, counted for the team with hammer. Rates are
+ * fractions of all ends, null when there are none.
+ */
+export interface EfficiencyStats {
+  ends: number;
+  conversions: number;
+  forces: number;
+  steals: number;
+  blanks: number;
+  conversionRate: number | null;
+  forceRate: number | null;
+  stealRate: number | null;
+  blankRate: number | null;
+  /** Points scored with hammer minus points stolen, per end */
+  netPointsPerEnd: number | null;
+}
+
+export interface EfficiencySplit {
+  /** Ends where the team, or whichever team, had hammer */
+  withHammer: EfficiencyStats;
+  /**
+   * Ends where the team's opponent had hammer, still counted for the hammer
+   * team (steals are the team's steals); only when stats are per team
+   */
+  withoutHammer?: EfficiencyStats;
+}
+
+export interface EfficiencyGroup extends EfficiencySplit {
+  /** Team name, event ID, end number or score situation */
+  key: string | number;
+  label: string;
+}
+
+export interface EndEfficiency {
+  groupBy: EfficiencyGrouping;
+  /** The team the stats are for, when filtered */
+  team: string | null;
+  overall: EfficiencySplit;
+  groups: EfficiencyGroup[];
+  /** Ends left out because the hammer or the score wasn't recorded */
+  skippedEnds: number;
+}
+
+/**
+ * Competition a win-probability table is built from
+ */
+export type Division = "men" | "women" | "mixed_doubles";
+
+/**
+ * P(win) for a team at the start of an end, given its score differential
+ * and whether it has hammer
+ */
+export interface WinProbabilityCell {
+  /** The end about to be played; regulation ends + 1 stands for extra ends */
+  end: number;
+  /** The team's score minus the opponent's, clamped to the table's range */
+  differential: number;
+  hammer: boolean;
+  /** Games that passed through this state, and how many the team won */
+  games: number;
+  wins: number;
+  /** Smoothed probability, usable even for states with few or no games */
+  probability: number;
+}
+
+export interface WinProbabilityTable {
+  division: Division;
+  /** Decided games the table was built from */
+  games: number;
+  regulationEnds: number;
+  maxDifferential: number;
+  cells: WinProbabilityCell[];
+}
+
+/**
+ * Red's win probability at one point of a game
+ */
+export interface WinProbabilityPoint {
+  /** Ends completed so far */
+  afterEnd: number;
+  /** Red's score minus yellow's */
+  differential: number;
+  /** Who has hammer in the next end */
+  hammer: Hammer;
+  probabilityRed: number;
+}
+
+export interface GameWinProbability {
+  gameId: number;
+  division: Division;
+  points: WinProbabilityPoint[];
+}
+
+/**
+ * Every end of a game with its shots and the stones after each
+ */
+export interface GameShots {
+  game: Game;
+  event: CurlingEvent;
+  ends: Array<{ end: End; shots: ShotWithStones[] }>;
+}
+
+/**
+ * A shot's estimated effect on the throwing team's chances of winning
+ */
+export interface ShotWinProbability {
+  shotId: number;
+  endId: number;
+  endNumber: number;
+  shotNumber: number;
+  color: StoneColor;
+  team: string;
+  playerName: string;
+  type: string;
+  percentScore: number | null;
+  /** The throwing team's win probability before and after the shot */
+  before: number;
+  after: number;
+  /** Win probability added: after - before, negative for a costly shot */
+  wpa: number;
+}
+
+/**
+ * A historical shot whose stone layout resembles a searched position, with
+ * what happened next
+ */
+export interface SimilarPosition {
+  shotId: number;
+  shotNumber: number;
+  /** Mean distance between paired stones, in feet */
+  distance: number;
+  /** Whether the layout matched after mirroring across the center line */
+  mirrored: boolean;
+  stones: StonePosition[];
+  /** The end, whose scores are the eventual end result */
+  end: End;
+  game: Game;
+  event: CurlingEvent;
+  /** The following shot of the end, null after the last one */
+  nextShot: Shot | null;
+}
+
+/**
+ * What physically happened to the thrown stone: it came to rest in the
+ * house, as a guard or behind the house; it left play after moving other
+ * stones (rolled_out); or it left play and nothing else changed (no_change)
+ */
+export type ShotResult =
+  | "in_house"
+  | "guard"
+  | "behind"
+  | "rolled_out"
+  | "no_change";
+
+/**
+ * A shot's outcome, from the stone positions before and after it
+ */
+export interface ShotOutcome {
+  shotId: number;
+  color: StoneColor;
+  result: ShotResult;
+  /** Where the thrown stone came to rest, null when it left play */
+  thrownStone: StonePosition | null;
+  /** Stones in play before the shot that it took out, by color */
+  removed: Record<StoneColor, number>;
+  /** Stones in play before the shot that it moved, by color */
+  moved: Record<StoneColor, number>;
+}
+
+/**
+ * A shot with the stones in play before and after it
+ */
+export interface ShotSnapshots {
+  shot: Shot;
+  before: StonePosition[];
+  after: StonePosition[];
+}
+
+export interface ShotOutcomeStats {
+  shots: number;
+  results: Record<ShotResult, number>;
+  /** Share of shots whose thrown stone stayed in the house */
+  inHouseRate: number | null;
+  /** Shots that took out at least one opposing stone */
+  removedOpponent: number;
+  /** Shots that took out at least one of the thrower's own stones */
+  removedOwn: number;
+}
+
+export interface ShotOutcomeSummary {
+  overall: ShotOutcomeStats;
+  /** The same stats per recorded shot type, most common first */
+  types: Array<{ type: string } & ShotOutcomeStats>;
+  /** Whether only the most recent shots matching the filter were read */
+  truncated: boolean;
+  /** Every shot's outcome, in throwing order, when summarizing one end */
+  outcomes?: ShotOutcome[];
+}
+
+/**
+ * Which stones a heatmap counts: where the thrown stone of each shot came
+ * to rest, or every stone in play after each shot
+ */
+export type HeatmapSource = "delivered" | "all";
+
+export interface HeatmapFilters {
+  eventId?: number;
+  gameId?: number;
+  team?: string;
+  playerName?: string;
+  type?: string;
+  turn?: Handle | Rotation;
+}
+
+export interface HeatmapCell {
+  /** Center of the cell, in stone coordinates */
+  x: number;
+  y: number;
+  count: number;
+}
+
+/**
+ * Stone positions binned into a grid of square cells over the drawn sheet
+ */
+export interface Heatmap {
+  source: HeatmapSource;
+  filters: HeatmapFilters;
+  /** Side of a cell, in stone coordinates */
+  cellSize: number;
+  /** Cells with at least one stone */
+  cells: HeatmapCell[];
+  /** Highest count of any cell */
+  max: number;
+  shots: number;
+  /** Stones binned; stones off the drawn sheet are left out */
+  stones: number;
+  /** Whether only the most recent shots matching the filters were read */
+  truncated: boolean;
+}
+
+/**
+ * How the stones after one shot differ from those after the first shot of a
+ * comparison, stones matched per color as in the end replay
+ */
+export interface LayoutDifference {
+  shotId: number;
+  /** Stones only in this layout */
+  added: Record<StoneColor, number>;
+  /** Stones of the reference layout missing from this one */
+  missing: Record<StoneColor, number>;
+  moved: Record<StoneColor, number>;
+  unchanged: number;
+}
+
+/**
+ * Shots shown side by side; the first is the reference the others are
+ * compared with
+ */
+export interface ShotComparison {
+  shots: ShotDetails[];
+  /** One per shot after the first */
+  differences: LayoutDifference[];
+}
+
+/**
+ * Response envelope used by the /api endpoints
+ */
+export type ApiResponse<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string };
@@ -0,0 +1,279 @@
+/**
+ * Hammer efficiency: how ends turn out for the team with last stone.
+ *
+ * Each end with a known hammer and score is classified from the hammer
+ * team's point of view: a conversion when it scores 2 or more, a force when
+ * the opponent holds it to 1, a steal when the opponent scores, and a blank
+ * when nobody does. Ends are then counted per team, event, end number or
+ * score situation (the hammer team's lead going into the end, from the
+ * running score of the game).
+ */
+import type {
+  EfficiencyGroup,
+  EfficiencyGrouping,
+  EfficiencySplit,
+  EfficiencyStats,
+  EndEfficiency,
+  EndOutcome,
+  GameSummary,
+  ScoreSituation,
+  StoneColor
+} from "./domain";
+
+export const SCORE_SITUATIONS: ScoreSituation[] = [
+  "down_3_plus",
+  "down_2",
+  "down_1",
+  "tied",
+  "up_1",
+  "up_2",
+  "up_3_plus"
+];
+
+const SITUATION_LABELS: Record<ScoreSituation, string> = {
+  down_3_plus: "Down 3 or more",
+  down_2: "Down 2",
+  down_1: "Down 1",
+  tied: "Tied",
+  up_1: "Up 1",
+  up_2: "Up 2",
+  up_3_plus: "Up 3 or more"
+};
+
+export function scoreSituation(differential: number): ScoreSituation {
+  if (differential <= -3) return "down_3_plus";
+  if (differential >= 3) return "up_3_plus";
+  return SCORE_SITUATIONS[differential + 3];
+}
+
+/**
+ * An end classified for the team with hammer
+ */
+export interface ClassifiedEnd {
+  gameId: number;
+  eventId: number;
+  eventName: string;
+  endNumber: number;
+  hammer: StoneColor;
+  hammerTeam: string;
+  opponent: string;
+  outcome: EndOutcome;
+  /** Points scored by the hammer team, negative for a steal */
+  points: number;
+  /** Hammer team's score minus the opponent's before the end */
+  differential: number;
+  situation: ScoreSituation;
+}
+
+export function endOutcome(
+  hammerPoints: number,
+  otherPoints: number
+): EndOutcome {
+  if (otherPoints > 0) return "steal";
+  if (hammerPoints >= 2) return "conversion";
+  return hammerPoints === 1 ? "force" : "blank";
+}
+
+/**
+ * Classify the ends of a game, in playing order. Ends without a recorded
+ * hammer or score are left out, but still count towards the running score
+ * when one side's points are known.
+ */
+export function classifyEnds({ game, event, ends }: GameSummary): {
+  ends: ClassifiedEnd[];
+  skipped: number;
+} {
+  const classified: ClassifiedEnd[] = [];
+  let skipped = 0;
+  let red = 0;
+  let yellow = 0;
+
+  for (const end of [...ends].sort((a, b) => a.number - b.number)) {
+    const redPoints = end.scoreRed;
+    const yellowPoints = end.scoreYellow;
+    if (
+      end.hammer === "unknown" ||
+      redPoints === null ||
+      yellowPoints === null
+    ) {
+      skipped++;
+    } else {
+      const isRed = end.hammer === "red";
+      const hammerPoints = isRed ? redPoints : yellowPoints;
+      const otherPoints = isRed ? yellowPoints : redPoints;
+      const differential = isRed ? red - yellow : yellow - red;
+      classified.push({
+        gameId: game.id,
+        eventId: event.id,
+        eventName: event.name,
+        endNumber: end.number,
+        hammer: end.hammer,
+        hammerTeam: isRed ? game.teamRed : game.teamYellow,
+        opponent: isRed ? game.teamYellow : game.teamRed,
+        outcome: endOutcome(hammerPoints, otherPoints),
+        points: hammerPoints - otherPoints,
+        differential,
+        situation: scoreSituation(differential)
+      });
+    }
+    red += redPoints ?? 0;
+    yellow += yellowPoints ?? 0;
+  }
+
+  return { ends: classified, skipped };
+}
+
+const rate = (count: number, total: number) =>
+  total ? Math.round((count / total) * 1000) / 1000 : null;
+
+/**
+ * Count the outcomes of a set of classified ends
+ */
+export function summarizeEnds(ends: ClassifiedEnd[]): EfficiencyStats {
+  const count = (outcome: EndOutcome) =>
+    ends.filter((end) => end.outcome === outcome).length;
+  const conversions = count("conversion");
+  const forces = count("force");
+  const steals = count("steal");
+  const blanks = count("blank");
+  const netPoints = ends.reduce((sum, end) => sum + end.points, 0);
+
+  return {
+    ends: ends.length,
+    conversions,
+    forces,
+    steals,
+    blanks,
+    conversionRate: rate(conversions, ends.length),
+    forceRate: rate(forces, ends.length),
+    stealRate: rate(steals, ends.length),
+    blankRate: rate(blanks, ends.length),
+    netPointsPerEnd: ends.length
+      ? Math.round((netPoints / ends.length) * 100) / 100
+      : null
+  };
+}
+
+export interface EfficiencyOptions {
+  groupBy?: EfficiencyGrouping;
+  /** Only count ends played by this team, split by who had hammer */
+  team?: string;
+}
+
+function split(ends: ClassifiedEnd[], team: string | null): EfficiencySplit {
+  if (team === null) return { withHammer: summarizeEnds(ends) };
+  return {
+    withHammer: summarizeEnds(ends.filter((end) => end.hammerTeam === team)),
+    withoutHammer: summarizeEnds(ends.filter((end) => end.opponent === team))
+  };
+}
+
+const groupKey = (
+  end: ClassifiedEnd,
+  groupBy: Exclude<EfficiencyGrouping, "team">
+) => {
+  switch (groupBy) {
+    case "event":
+      return end.eventId;
+    case "endNumber":
+      return end.endNumber;
+    case "situation":
+      return end.situation;
+  }
+};
+
+const groupLabel = (
+  end: ClassifiedEnd,
+  groupBy: Exclude<EfficiencyGrouping, "team">
+) => {
+  switch (groupBy) {
+    case "event":
+      return end.eventName;
+    case "endNumber":
+      return `End ${end.endNumber}`;
+    case "situation":
+      return SITUATION_LABELS[end.situation];
+  }
+};
+
+function groupByTeam(ends: ClassifiedEnd[], team: string | null) {
+  const teams =
+    team === null
+      ? [...new Set(ends.flatMap((end) => [end.hammerTeam, end.opponent]))]
+      : [team];
+  return teams
+    .map(
+      (name): EfficiencyGroup => ({
+        key: name,
+        label: name,
+        ...split(ends, name)
+      })
+    )
+    .sort(
+      (a, b) =>
+        b.withHammer.ends - a.withHammer.ends || a.label.localeCompare(b.label)
+    );
+}
+
+/**
+ * Hammer efficiency of the given games, overall and per group
+ */
+export function computeEndEfficiency(
+  games: GameSummary[],
+  { groupBy = "team", team }: EfficiencyOptions = {}
+): EndEfficiency {
+  const teamName = team ?? null;
+  let skippedEnds = 0;
+  const ends = games.flatMap((game) => {
+    const classified = classifyEnds(game);
+    skippedEnds += classified.skipped;
+    return classified.ends;
+  });
+  const played =
+    teamName === null
+      ? ends
+      : ends.filter(
+          (end) => end.hammerTeam === teamName || end.opponent === teamName
+        );
+
+  let groups: EfficiencyGroup[];
+  if (groupBy === "team") {
+    groups = groupByTeam(played, teamName);
+  } else {
+    const byKey = new Map<
+      string | number,
+      { label: string; ends: ClassifiedEnd[] }
+    >();
+    for (const end of played) {
+      const key = groupKey(end, groupBy);
+      const group = byKey.get(key) ?? {
+        label: groupLabel(end, groupBy),
+        ends: []
+      };
+      group.ends.push(end);
+      byKey.set(key, group);
+    }
+    groups = [...byKey].map(([key, group]) => ({
+      key,
+      label: group.label,
+      ...split(group.ends, teamName)
+    }));
+    if (groupBy === "situation") {
+      groups.sort(
+        (a, b) =>
+          SCORE_SITUATIONS.indexOf(a.key as ScoreSituation) -
+          SCORE_SITUATIONS.indexOf(b.key as ScoreSituation)
+      );
+    } else if (groupBy === "endNumber") {
+      groups.sort((a, b) => (a.key as number) - (b.key as number));
+    }
+  }
+
+  return {
+    groupBy,
+    team: teamName,
+    overall: split(played, teamName),
+    groups,
+    skippedEnds
+  };
+}
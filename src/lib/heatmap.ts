@@ -0,0 +1,149 @@
+/**
+ * Stone-position heatmaps: stones binned into a grid of square cells
+ * covering the part of the sheet CurlingHouse draws.
+ *
+ * A heatmap either counts where each shot's thrown stone came to rest (the
+ * delivered stone found by shot-outcomes.ts, so shots whose stone left play
+ * add nothing) or every stone in play after each shot.
+ */
+import type {
+  Heatmap,
+  HeatmapCell,
+  HeatmapFilters,
+  HeatmapSource,
+  ShotSnapshots,
+  StonePosition
+} from "./domain";
+import { feetToUnits } from "./coordinates";
+import { BUTTON_CENTER, HOUSE_HEIGHT, HOUSE_WIDTH } from "./house-geometry";
+import { classifyShotOutcome } from "./shot-outcomes";
+
+export const HEATMAP_SOURCES: HeatmapSource[] = ["delivered", "all"];
+
+// One-foot cells: 15 x 27 over the drawn sheet
+export const HEATMAP_CELL_SIZE = feetToUnits(1);
+
+// The drawn sheet in stone coordinates, see toDrawingCoords
+const BOUNDS = {
+  left: -BUTTON_CENTER.x,
+  right: HOUSE_WIDTH - BUTTON_CENTER.x,
+  bottom: BUTTON_CENTER.y - HOUSE_HEIGHT,
+  top: BUTTON_CENTER.y
+};
+
+/**
+ * Count stones per cell; cells are aligned to the left and bottom edges of
+ * the drawn sheet
+ */
+export function binStones(
+  stones: StonePosition[],
+  cellSize = HEATMAP_CELL_SIZE
+): HeatmapCell[] {
+  const counts = new Map<string, HeatmapCell>();
+  for (const stone of stones) {
+    if (
+      stone.x < BOUNDS.left ||
+      stone.x >= BOUNDS.right ||
+      stone.y < BOUNDS.bottom ||
+      stone.y >= BOUNDS.top
+    ) {
+      continue;
+    }
+    const column = Math.floor((stone.x - BOUNDS.left) / cellSize);
+    const row = Math.floor((stone.y - BOUNDS.bottom) / cellSize);
+    const key = `${column},${row}`;
+    const cell = counts.get(key) ?? {
+      x: BOUNDS.left + (column + 0.5) * cellSize,
+      y: BOUNDS.bottom + (row + 0.5) * cellSize,
+      count: 0
+    };
+    cell.count++;
+    counts.set(key, cell);
+  }
+  return [...counts.values()];
+}
+
+/**
+ * The stones a heatmap counts for one shot
+ */
+const heatmapStones = (shot: ShotSnapshots, source: HeatmapSource) => {
+  if (source === "all") return shot.after;
+  const { thrownStone } = classifyShotOutcome(shot);
+  return thrownStone ? [thrownStone] : [];
+};
+
+export function buildHeatmap(
+  shots: ShotSnapshots[],
+  {
+    source = "delivered",
+    filters = {},
+    truncated = false
+  }: {
+    source?: HeatmapSource;
+    filters?: HeatmapFilters;
+    truncated?: boolean;
+  } = {}
+): Heatmap {
+  const cells = binStones(shots.flatMap((shot) => heatmapStones(shot, source)));
+  return {
+    source,
+    filters,
+    cellSize: HEATMAP_CELL_SIZE,
+    cells,
+    max: Math.max(0, ...cells.map((cell) => cell.count)),
+    shots: shots.length,
+    stones: cells.reduce((sum, cell) => sum + cell.count, 0),
+    truncated
+  };
+}
+
+/**
+ * The busiest cells, most stones first
+ */
+export const heatmapHotspots = (heatmap: Heatmap, limit = 3) =>
+  [...heatmap.cells].sort((a, b) => b.count - a.count).slice(0, limit);
+
+/**
+ * A heatmap without its grid, small enough to hand to the model: the area
+ * the stones cover (in stone coordinates, null when none were binned) and
+ * the busiest cells
+ */
+export function summarizeHeatmap({ cells, ...heatmap }: Heatmap) {
+  const half = heatmap.cellSize / 2;
+  return {
+    source: heatmap.source,
+    filters: heatmap.filters,
+    shots: heatmap.shots,
+    stones: heatmap.stones,
+    truncated: heatmap.truncated,
+    cellSize: heatmap.cellSize,
+    cellCount: cells.length,
+    bounds: cells.length
+      ? {
+          left: Math.min(...cells.map((cell) => cell.x)) - half,
+          right: Math.max(...cells.map((cell) => cell.x)) + half,
+          bottom: Math.min(...cells.map((cell) => cell.y)) - half,
+          top: Math.max(...cells.map((cell) => cell.y)) + half
+        }
+      : null,
+    hotspots: heatmapHotspots({ cells, ...heatmap })
+  };
+}
+
+/**
+ * The /api/heatmap request for a source and filters, so the client can load
+ * the grid a tool call described
+ */
+export function heatmapPath(
+  source: HeatmapSource,
+  { playerName, ...filters }: HeatmapFilters
+) {
+  const params = new URLSearchParams({ source });
+  for (const [name, value] of Object.entries({
+    ...filters,
+    player: playerName
+  })) {
+    if (value !== undefined) params.set(name, String(value));
+  }
+  return `/api/heatmap?${params}`;
+}
@@ -0,0 +1,129 @@
+/**
+ * Measurements of a stone layout: which stone is shot rock, how many stones
+ * count, how far each stone is from the button, and whether it sits in the
+ * house, guards it or lies behind it.
+ *
+ * Works on stone_positions coordinates (button at the origin, y positive
+ * towards the hog line, 20 units per foot, see coordinates.ts), so the same
+ * numbers back the agent's answers and the overlay in CurlingHouse.
+ */
+import {
+  distanceBetween,
+  type LengthUnit,
+  toLength,
+  toPhysical
+} from "./coordinates";
+import type { StoneColor, StonePosition } from "./domain";
+import { HOUSE_RINGS, STONE_RADIUS } from "./house-geometry";
+
+/**
+ * in_house: touching the 12-foot ring; guard: short of the house, between
+ * it and the hog line; behind: past the house towards the back line
+ */
+export type StoneZone = "in_house" | "guard" | "behind";
+
+export interface StoneMeasurement extends StonePosition {
+  zone: StoneZone;
+  /** Center of the stone to the center of the button, in the analysis' unit */
+  distance: number;
+  /** Right (x) and in front (y) of the button, in the analysis' unit */
+  offset: { x: number; y: number };
+  /** Order among the stones in the house, 1 for shot rock */
+  rank: number | null;
+  counting: boolean;
+}
+
+export interface HouseAnalysis {
+  /** Unit of the distances */
+  unit: LengthUnit;
+  /** Every stone, in-house stones first from the button outwards */
+  stones: StoneMeasurement[];
+  shotRock: StoneMeasurement | null;
+  /** The color that would score if the end stopped now, and how many */
+  counting: { color: StoneColor; count: number } | null;
+  inHouse: Record<StoneColor, number>;
+  guards: Record<StoneColor, number>;
+}
+
+// A stone is in the house when any part of it touches the 12-foot ring
+const HOUSE_REACH = HOUSE_RINGS[0].radius + STONE_RADIUS;
+
+/**
+ * Distance of a stone's center from the button, in stone coordinates
+ */
+export const distanceToButton = (stone: StonePosition) =>
+  distanceBetween(stone, { x: 0, y: 0 });
+
+export const isInHouse = (stone: StonePosition) =>
+  distanceToButton(stone) <= HOUSE_REACH;
+
+export function stoneZone(stone: StonePosition): StoneZone {
+  if (isInHouse(stone)) return "in_house";
+  return stone.y > 0 ? "guard" : "behind";
+}
+
+/**
+ * The color holding shot rock and how many stones it would score if the end
+ * stopped now, or null when the house is empty
+ */
+export function countingStones(
+  stones: StonePosition[]
+): { color: StoneColor; count: number } | null {
+  const inHouse = stones
+    .filter(isInHouse)
+    .sort((a, b) => distanceToButton(a) - distanceToButton(b));
+  if (!inHouse.length) return null;
+
+  const { color } = inHouse[0];
+  const firstOpponent = inHouse.findIndex((stone) => stone.color !== color);
+  return {
+    color,
+    count: firstOpponent === -1 ? inHouse.length : firstOpponent
+  };
+}
+
+const countByColor = (stones: StoneMeasurement[]) => ({
+  red: stones.filter((stone) => stone.color === "red").length,
+  yellow: stones.filter((stone) => stone.color === "yellow").length
+});
+
+/**
+ * Measure every stone of a layout, with distances in feet or metres
+ */
+export function analyzeHouse(
+  stones: StonePosition[],
+  { unit = "ft" }: { unit?: LengthUnit } = {}
+): HouseAnalysis {
+  const counting = countingStones(stones);
+  const sorted = [...stones].sort(
+    (a, b) => distanceToButton(a) - distanceToButton(b)
+  );
+
+  let rank = 0;
+  const measured = sorted.map((stone): StoneMeasurement => {
+    const zone = stoneZone(stone);
+    const stoneRank = zone === "in_house" ? ++rank : null;
+    return {
+      ...stone,
+      zone,
+      distance: toLength(distanceToButton(stone), unit),
+      offset: toPhysical(stone, unit),
+      rank: stoneRank,
+      counting:
+        counting !== null && stoneRank !== null && stoneRank <= counting.count
+    };
+  });
+
+  return {
+    unit,
+    // In-house stones first, then guards and stones behind by distance
+    stones: [
+      ...measured.filter((stone) => stone.rank !== null),
+      ...measured.filter((stone) => stone.rank === null)
+    ],
+    shotRock: measured.find((stone) => stone.rank === 1) ?? null,
+    counting,
+    inHouse: countByColor(measured.filter((s) => s.zone === "in_house")),
+    guards: countByColor(measured.filter((s) => s.zone === "guard"))
+  };
+}
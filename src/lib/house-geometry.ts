@@ -0,0 +1,301 @@
+/**
+ * Geometry of the curling house as drawn by the client (`CurlingHouse.tsx`)
+ * and by the Worker when rendering shareable SVG / PNG images, so both
+ * produce the same picture. Dimensions follow the WCF rules (R1 for the
+ * sheet, R2 for the stones) in stone_positions units, see coordinates.ts.
+ *
+ * Stones are drawn with the hog line at the top: the drawing's origin is its
+ * top-left corner with y down, and toDrawingCoords maps stone coordinates to
+ * it.
+ */
+import { feetToUnits } from "./coordinates";
+import type { StoneColor, StonePosition } from "./domain";
+
+const inToFt = (inches: number) => inches / 12;
+
+/**
+ * WCF sheet dimensions in feet, measured from the center of the tee line
+ * (lengths) or the center line (widths)
+ */
+export const SHEET_FT = {
+  /** 4.75 m between the side lines */
+  width: 15 + inToFt(7),
+  /** To the edge of the hog line nearest the house; the line is 4" wide */
+  hogLine: 21,
+  hogLineWidth: inToFt(4),
+  /** To the outer edge of the back line */
+  backLine: 6,
+  /** The hack line, 18" long, ends the center line */
+  hackLine: 12,
+  hackLineLength: 1.5,
+  /** 6" courtesy lines, 4 feet outside the hog line */
+  courtesyLine: 25,
+  courtesyLineLength: inToFt(6),
+  /** 150 feet between the backboards, 114 feet between the tee lines */
+  backboard: 18,
+  /** Tee, back, center and hack lines are at most 1/2" wide */
+  lineWidth: inToFt(0.5)
+} as const;
+
+// The classic scoring diagram and the area the images show: hog line to
+// back line, 15 feet wide, with the button centered
+export const HOUSE_WIDTH = feetToUnits(15);
+export const HOUSE_HEIGHT = feetToUnits(SHEET_FT.hogLine + SHEET_FT.backLine);
+
+// Button center in the drawing, below the hog line at the top edge
+export const BUTTON_CENTER = {
+  x: HOUSE_WIDTH / 2,
+  y: feetToUnits(SHEET_FT.hogLine)
+};
+
+// Stones are at most 36" around
+export const STONE_RADIUS = feetToUnits(inToFt(36) / (2 * Math.PI));
+
+// Lines of the sheet in stone coordinates: the hog line is the top of the
+// drawing, the back line 6 feet behind the tee line, the side lines just
+// outside its edges
+export const HOG_LINE_Y = feetToUnits(SHEET_FT.hogLine);
+export const BACK_LINE_Y = -feetToUnits(SHEET_FT.backLine);
+export const HACK_LINE_Y = -feetToUnits(SHEET_FT.hackLine);
+export const BACKBOARD_Y = -feetToUnits(SHEET_FT.backboard);
+export const SIDE_LINE_X = feetToUnits(SHEET_FT.width / 2);
+
+/**
+ * The whole scoring end in stone coordinates: side line to side line, from
+ * the backboard to a foot past the courtesy lines
+ */
+export const SHEET_BOUNDS = {
+  left: -SIDE_LINE_X,
+  right: SIDE_LINE_X,
+  bottom: BACKBOARD_Y,
+  top: feetToUnits(SHEET_FT.courtesyLine + 1)
+};
+
+export const STONE_FILL: Record<StoneColor, string> = {
+  red: "#ff6464",
+  yellow: "#FFFF05"
+};
+
+const ICE_FILL = "#f0f8ff";
+const RING_STROKE = "#000000";
+const LINE_STROKE = "#00000080";
+const HOG_LINE_FILL = "#dc2626";
+const FREE_GUARD_ZONE_FILL = "#f59e0b1a";
+const SIDE_LINE_STROKE = "#1e293b";
+
+/**
+ * Rings of the house from the outside in, so each one is drawn over the last
+ */
+export const HOUSE_RINGS = [
+  { name: "12-foot", radius: feetToUnits(6), fill: "#D58FFF" },
+  { name: "8-foot", radius: feetToUnits(4), fill: "#FFFFFF" },
+  { name: "4-foot", radius: feetToUnits(2), fill: "#FED2BC" },
+  { name: "button", radius: feetToUnits(0.5), fill: "#FFFFFF" }
+] as const;
+
+/**
+ * Convert stone coordinates (button-relative, y toward the hog line) to
+ * drawing coordinates (top-left origin, y down)
+ */
+export const toDrawingCoords = (x: number, y: number) => ({
+  x: BUTTON_CENTER.x + x,
+  y: BUTTON_CENTER.y - y
+});
+
+/**
+ * The inverse of toDrawingCoords
+ */
+export const fromDrawingCoords = (x: number, y: number) => ({
+  x: x - BUTTON_CENTER.x,
+  y: BUTTON_CENTER.y - y
+});
+
+export type HouseShape =
+  | {
+      kind: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      fill: string;
+    }
+  | {
+      kind: "circle";
+      cx: number;
+      cy: number;
+      r: number;
+      fill: string;
+      stroke: string;
+      strokeWidth: number;
+    }
+  | {
+      kind: "line";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      stroke: string;
+      strokeWidth: number;
+    };
+
+/**
+ * Ice, rings, center line and tee line, in drawing order
+ */
+export function houseBackground(): HouseShape[] {
+  return [
+    {
+      kind: "rect",
+      x: 0,
+      y: 0,
+      width: HOUSE_WIDTH,
+      height: HOUSE_HEIGHT,
+      fill: ICE_FILL
+    },
+    ...HOUSE_RINGS.map(
+      (ring): HouseShape => ({
+        kind: "circle",
+        cx: BUTTON_CENTER.x,
+        cy: BUTTON_CENTER.y,
+        r: ring.radius,
+        fill: ring.fill,
+        stroke: RING_STROKE,
+        strokeWidth: 1
+      })
+    ),
+    {
+      kind: "line",
+      x1: BUTTON_CENTER.x,
+      y1: 0,
+      x2: BUTTON_CENTER.x,
+      y2: HOUSE_HEIGHT,
+      stroke: LINE_STROKE,
+      strokeWidth: 1
+    },
+    {
+      kind: "line",
+      x1: 0,
+      y1: BUTTON_CENTER.y,
+      x2: HOUSE_WIDTH,
+      y2: BUTTON_CENTER.y,
+      stroke: LINE_STROKE,
+      strokeWidth: 1
+    }
+  ];
+}
+
+/**
+ * A line across the sheet at `y` (stone coordinates) from `x1` to `x2`
+ */
+const crossLine = (
+  y: number,
+  x1 = -SIDE_LINE_X,
+  x2 = SIDE_LINE_X
+): HouseShape => {
+  const from = toDrawingCoords(x1, y);
+  const to = toDrawingCoords(x2, y);
+  return {
+    kind: "line",
+    x1: from.x,
+    y1: from.y,
+    x2: to.x,
+    y2: to.y,
+    stroke: LINE_STROKE,
+    strokeWidth: 1
+  };
+};
+
+/**
+ * The whole scoring end, in drawing order: ice, free guard zone, rings, then
+ * the center, tee, back, hack, hog, courtesy and side lines. Shapes outside
+ * the drawn area have negative or out-of-range drawing coordinates, so this
+ * is meant for views with a viewBox (see sheet-view.ts)
+ */
+export function sheetBackground(): HouseShape[] {
+  const topLeft = toDrawingCoords(SHEET_BOUNDS.left, SHEET_BOUNDS.top);
+  const hog = toDrawingCoords(SHEET_BOUNDS.left, HOG_LINE_Y);
+  const hogWidth = feetToUnits(SHEET_FT.hogLineWidth);
+  const button = toDrawingCoords(0, 0);
+  const width = SHEET_BOUNDS.right - SHEET_BOUNDS.left;
+  const sideLine = (x: number): HouseShape => {
+    const top = toDrawingCoords(x, SHEET_BOUNDS.top);
+    const bottom = toDrawingCoords(x, SHEET_BOUNDS.bottom);
+    return {
+      kind: "line",
+      x1: top.x,
+      y1: top.y,
+      x2: bottom.x,
+      y2: bottom.y,
+      stroke: SIDE_LINE_STROKE,
+      strokeWidth: 2
+    };
+  };
+  const courtesy = feetToUnits(SHEET_FT.courtesyLine);
+  const courtesyLength = feetToUnits(SHEET_FT.courtesyLineLength);
+  const hackHalf = feetToUnits(SHEET_FT.hackLineLength / 2);
+
+  return [
+    {
+      kind: "rect",
+      x: topLeft.x,
+      y: topLeft.y,
+      width,
+      height: SHEET_BOUNDS.top - SHEET_BOUNDS.bottom,
+      fill: ICE_FILL
+    },
+    // Tee line to hog line; the rings cover the part inside the house
+    {
+      kind: "rect",
+      x: hog.x,
+      y: hog.y,
+      width,
+      height: button.y - hog.y,
+      fill: FREE_GUARD_ZONE_FILL
+    },
+    ...houseBackground().filter((shape) => shape.kind === "circle"),
+    {
+      kind: "line",
+      x1: button.x,
+      y1: hog.y,
+      x2: button.x,
+      y2: toDrawingCoords(0, HACK_LINE_Y).y,
+      stroke: LINE_STROKE,
+      strokeWidth: 1
+    },
+    crossLine(0),
+    crossLine(BACK_LINE_Y + feetToUnits(SHEET_FT.lineWidth) / 2),
+    crossLine(HACK_LINE_Y, -hackHalf, hackHalf),
+    {
+      kind: "rect",
+      x: hog.x,
+      y: hog.y - hogWidth,
+      width,
+      height: hogWidth,
+      fill: HOG_LINE_FILL
+    },
+    crossLine(courtesy, -SIDE_LINE_X, -SIDE_LINE_X + courtesyLength),
+    crossLine(courtesy, SIDE_LINE_X - courtesyLength, SIDE_LINE_X),
+    sideLine(SHEET_BOUNDS.left),
+    sideLine(SHEET_BOUNDS.right)
+  ];
+}
+
+export function stoneShape(stone: StonePosition): HouseShape {
+  const { x, y } = toDrawingCoords(stone.x, stone.y);
+  return {
+    kind: "circle",
+    cx: x,
+    cy: y,
+    r: STONE_RADIUS,
+    fill: STONE_FILL[stone.color],
+    stroke: RING_STROKE,
+    strokeWidth: 1
+  };
+}
+
+/**
+ * The whole house with stones on top, ready to serialize or rasterize
+ */
+export const houseShapes = (stones: StonePosition[]): HouseShape[] => [
+  ...houseBackground(),
+  ...stones.map(stoneShape)
+];
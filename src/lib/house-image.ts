@@ -0,0 +1,333 @@
+/**
+ * Standalone SVG and PNG renderings of the curling house, for link previews
+ * and anywhere else the React component isn't available
+ */
+import type { StonePosition } from "./domain";
+import {
+  HOUSE_HEIGHT,
+  HOUSE_WIDTH,
+  type HouseShape,
+  houseShapes
+} from "./house-geometry";
+import { encodePng } from "./png";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function shapeToSvg(shape: HouseShape) {
+  switch (shape.kind) {
+    case "rect":
+      return `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${shape.fill}"/>`;
+    case "circle":
+      return `<circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" fill="${shape.fill}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}"/>`;
+    case "line":
+      return `<line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}"/>`;
+  }
+}
+
+/**
+ * The house and stones as a self-contained SVG document
+ */
+export function renderHouseSvg(
+  stones: StonePosition[],
+  title = "Curling house with stone positions"
+) {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${HOUSE_WIDTH}" height="${HOUSE_HEIGHT}" viewBox="0 0 ${HOUSE_WIDTH} ${HOUSE_HEIGHT}">`,
+    `<title>${escapeXml(title)}</title>`,
+    ...houseShapes(stones).map(shapeToSvg),
+    "</svg>"
+  ].join("\n");
+}
+
+type Rgba = [number, number, number, number];
+
+/**
+ * Parse the #rgb, #rrggbb and #rrggbbaa colors used by the house geometry
+ */
+function parseColor(color: string): Rgba {
+  let hex = color.replace("#", "");
+  if (hex.length === 3) hex = [...hex].map((c) => c + c).join("");
+  const channel = (i: number) => Number.parseInt(hex.slice(i, i + 2), 16);
+  return [
+    channel(0),
+    channel(2),
+    channel(4),
+    hex.length === 8 ? channel(6) / 255 : 1
+  ];
+}
+
+// Samples per pixel along each axis, for anti-aliased edges
+const SUPERSAMPLING = 3;
+
+const distanceToSegment = (
+  px: number,
+  py: number,
+  shape: Extract<HouseShape, { kind: "line" }>
+) => {
+  const dx = shape.x2 - shape.x1;
+  const dy = shape.y2 - shape.y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(
+            1,
+            ((px - shape.x1) * dx + (py - shape.y1) * dy) / lengthSquared
+          )
+        );
+  return Math.hypot(px - (shape.x1 + t * dx), py - (shape.y1 + t * dy));
+};
+
+/**
+ * Which parts of a shape cover a point: its fill and / or its stroke
+ */
+function coverage(shape: HouseShape, x: number, y: number) {
+  switch (shape.kind) {
+    case "rect":
+      return {
+        fill:
+          x >= shape.x &&
+          x < shape.x + shape.width &&
+          y >= shape.y &&
+          y < shape.y + shape.height,
+        stroke: false
+      };
+    case "circle": {
+      const distance = Math.hypot(x - shape.cx, y - shape.cy);
+      return {
+        fill: distance <= shape.r,
+        stroke: Math.abs(distance - shape.r) <= shape.strokeWidth / 2
+      };
+    }
+    case "line":
+      return {
+        fill: false,
+        stroke: distanceToSegment(x, y, shape) <= shape.strokeWidth / 2
+      };
+  }
+}
+
+function bounds(shape: HouseShape) {
+  switch (shape.kind) {
+    case "rect":
+      return [shape.x, shape.y, shape.x + shape.width, shape.y + shape.height];
+    case "circle": {
+      const reach = shape.r + shape.strokeWidth / 2;
+      return [
+        shape.cx - reach,
+        shape.cy - reach,
+        shape.cx + reach,
+        shape.cy + reach
+      ];
+    }
+    case "line": {
+      const reach = shape.strokeWidth / 2;
+      return [
+        Math.min(shape.x1, shape.x2) - reach,
+        Math.min(shape.y1, shape.y2) - reach,
+        Math.max(shape.x1, shape.x2) + reach,
+        Math.max(shape.y1, shape.y2) + reach
+      ];
+    }
+  }
+}
+
+function blend(
+  pixels: Uint8Array,
+  offset: number,
+  color: Rgba,
+  amount: number
+) {
+  const alpha = color[3] * amount;
+  if (alpha <= 0) return;
+  for (let c = 0; c < 3; c++) {
+    pixels[offset + c] = Math.round(
+      pixels[offset + c] * (1 - alpha) + color[c] * alpha
+    );
+  }
+}
+
+// Share of the pixel span [start, start + 1) inside [from, to)
+const overlap = (start: number, from: number, to: number) =>
+  Math.max(0, Math.min(start + 1, to) - Math.max(start, from));
+
+/**
+ * A horizontal or vertical line as the rectangle its stroke covers, or null
+ * for a diagonal line
+ */
+function lineToRect(shape: Extract<HouseShape, { kind: "line" }>) {
+  const half = shape.strokeWidth / 2;
+  if (shape.x1 === shape.x2) {
+    return {
+      left: shape.x1 - half,
+      top: Math.min(shape.y1, shape.y2),
+      right: shape.x1 + half,
+      bottom: Math.max(shape.y1, shape.y2)
+    };
+  }
+  if (shape.y1 === shape.y2) {
+    return {
+      left: Math.min(shape.x1, shape.x2),
+      top: shape.y1 - half,
+      right: Math.max(shape.x1, shape.x2),
+      bottom: shape.y1 + half
+    };
+  }
+  return null;
+}
+
+interface Canvas {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+  scale: number;
+}
+
+/**
+ * Fill an axis-aligned rectangle row by row, blending edge pixels by how
+ * much of them the rectangle covers
+ */
+function fillRect(
+  canvas: Canvas,
+  rect: { left: number; top: number; right: number; bottom: number },
+  color: Rgba
+) {
+  const { width, height, pixels, scale } = canvas;
+  const left = rect.left * scale;
+  const top = rect.top * scale;
+  const right = rect.right * scale;
+  const bottom = rect.bottom * scale;
+
+  const startX = Math.max(0, Math.floor(left));
+  const endX = Math.min(width, Math.ceil(right));
+  const endY = Math.min(height, Math.ceil(bottom));
+  for (let py = Math.max(0, Math.floor(top)); py < endY; py++) {
+    const rowCoverage = overlap(py, top, bottom);
+    for (let px = startX; px < endX; px++) {
+      blend(
+        pixels,
+        (py * width + px) * 3,
+        color,
+        rowCoverage * overlap(px, left, right)
+      );
+    }
+  }
+}
+
+/**
+ * Paint a shape by testing SUPERSAMPLING² points in each pixel of its bounds
+ */
+function sampleShape(canvas: Canvas, shape: HouseShape) {
+  const { width, height, pixels, scale } = canvas;
+  const fill = "fill" in shape ? parseColor(shape.fill) : null;
+  const stroke = "stroke" in shape ? parseColor(shape.stroke) : null;
+  const samples = SUPERSAMPLING * SUPERSAMPLING;
+  const [minX, minY, maxX, maxY] = bounds(shape);
+
+  const startX = Math.max(0, Math.floor(minX * scale));
+  const endX = Math.min(width, Math.ceil(maxX * scale));
+  const startY = Math.max(0, Math.floor(minY * scale));
+  const endY = Math.min(height, Math.ceil(maxY * scale));
+
+  for (let py = startY; py < endY; py++) {
+    for (let px = startX; px < endX; px++) {
+      let fillHits = 0;
+      let strokeHits = 0;
+      for (let sy = 0; sy < SUPERSAMPLING; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLING; sx++) {
+          const hit = coverage(
+            shape,
+            (px + (sx + 0.5) / SUPERSAMPLING) / scale,
+            (py + (sy + 0.5) / SUPERSAMPLING) / scale
+          );
+          if (hit.fill) fillHits++;
+          if (hit.stroke) strokeHits++;
+        }
+      }
+
+      const offset = (py * width + px) * 3;
+      if (fill) blend(pixels, offset, fill, fillHits / samples);
+      if (stroke) blend(pixels, offset, stroke, strokeHits / samples);
+    }
+  }
+}
+
+/**
+ * Paint shapes in order onto a white RGB canvas, `scale` pixels per drawing
+ * unit. Rectangles and straight lines are filled directly; only circles and
+ * diagonal lines are sampled.
+ */
+export function rasterizeShapes(
+  shapes: HouseShape[],
+  width: number,
+  height: number,
+  scale = 1
+) {
+  const pixelWidth = Math.round(width * scale);
+  const pixelHeight = Math.round(height * scale);
+  const canvas: Canvas = {
+    width: pixelWidth,
+    height: pixelHeight,
+    pixels: new Uint8Array(pixelWidth * pixelHeight * 3).fill(255),
+    scale
+  };
+
+  for (const shape of shapes) {
+    if (shape.kind === "rect") {
+      fillRect(
+        canvas,
+        {
+          left: shape.x,
+          top: shape.y,
+          right: shape.x + shape.width,
+          bottom: shape.y + shape.height
+        },
+        parseColor(shape.fill)
+      );
+      continue;
+    }
+
+    if (shape.kind === "line") {
+      const rect = lineToRect(shape);
+      if (rect) {
+        fillRect(canvas, rect, parseColor(shape.stroke));
+        continue;
+      }
+    }
+
+    sampleShape(canvas, shape);
+  }
+
+  return { width: pixelWidth, height: pixelHeight, pixels: canvas.pixels };
+}
+
+/**
+ * Scales /api/shot/:id.png renders at. Kept to a fixed few so every
+ * rendering can be cached.
+ */
+export const PNG_SCALES = [1, 2] as const;
+
+export type PngScale = (typeof PNG_SCALES)[number];
+
+/**
+ * The house and stones as PNG bytes, `scale` times the SVG size
+ */
+export async function renderHousePng(
+  stones: StonePosition[],
+  scale: PngScale = 2
+) {
+  const { width, height, pixels } = rasterizeShapes(
+    houseShapes(stones),
+    HOUSE_WIDTH,
+    HOUSE_HEIGHT,
+    scale
+  );
+  return encodePng(width, height, pixels);
+}
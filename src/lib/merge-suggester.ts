@@ -0,0 +1,119 @@
+/**
+ * Heuristic merge suggestions for player names.
+ *
+ * Two raw spellings are proposed as the same athlete when they belong to the
+ * same team code, their normalized names are close (a typo, a dropped accent,
+ * an initial instead of a first name) and they were never used in the same
+ * game. Appearing in the same event counts in favour, since parser errors
+ * usually affect a single PDF.
+ */
+import type { MergeSuggestion, PlayerNameUsage } from "./domain";
+import { editDistance, normalizeName } from "./name-match";
+
+export interface MergeSuggesterOptions {
+  /** Pairs whose names are less similar than this are not suggested */
+  minNameSimilarity?: number;
+  limit?: number;
+}
+
+/**
+ * How alike two names are, 0 to 1, and why
+ */
+export function compareNames(a: string, b: string) {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (first === second) {
+    return { similarity: 1, reason: "Same name ignoring case and accents" };
+  }
+
+  const tokensA = first.split(" ");
+  const tokensB = second.split(" ");
+
+  // "N EDIN" and "NIKLAS EDIN": same surname, matching initial
+  const surnameA = tokensA[tokensA.length - 1];
+  const surnameB = tokensB[tokensB.length - 1];
+  if (
+    surnameA === surnameB &&
+    tokensA.length === tokensB.length &&
+    tokensA
+      .slice(0, -1)
+      .every(
+        (token, i) =>
+          token[0] === tokensB[i][0] &&
+          (token.length === 1 || tokensB[i].length === 1)
+      )
+  ) {
+    return { similarity: 0.9, reason: "Initials match the full first name" };
+  }
+
+  const distance = editDistance(first, second);
+  return {
+    similarity: 1 - distance / Math.max(first.length, second.length),
+    reason: `Names differ by ${distance} character${distance === 1 ? "" : "s"}`
+  };
+}
+
+const countShared = (a: number[], b: number[]) => {
+  const set = new Set(a);
+  return b.filter((id) => set.has(id)).length;
+};
+
+/**
+ * Likely duplicate spellings, most confident first
+ */
+export function suggestMerges(
+  usages: PlayerNameUsage[],
+  { minNameSimilarity = 0.75, limit = 50 }: MergeSuggesterOptions = {}
+): MergeSuggestion[] {
+  const byTeam = new Map<string, PlayerNameUsage[]>();
+  for (const usage of usages) {
+    byTeam.set(usage.team, [...(byTeam.get(usage.team) ?? []), usage]);
+  }
+
+  const suggestions: MergeSuggestion[] = [];
+  for (const [team, names] of byTeam) {
+    for (let i = 0; i < names.length; i++) {
+      for (let j = i + 1; j < names.length; j++) {
+        const a = names[i];
+        const b = names[j];
+
+        // Already the same player
+        if (a.playerId !== null && a.playerId === b.playerId) continue;
+        // Two names in one game are two different people
+        if (countShared(a.gameIds, b.gameIds) > 0) continue;
+
+        const { similarity, reason } = compareNames(a.name, b.name);
+        if (similarity < minNameSimilarity) continue;
+
+        const reasons = [`Same team code ${team}`, reason];
+        const sharedEvents = countShared(a.eventIds, b.eventIds);
+        const overlap =
+          sharedEvents /
+          Math.max(1, Math.min(a.eventIds.length, b.eventIds.length));
+        if (sharedEvents > 0) {
+          reasons.push(
+            `Both used in ${sharedEvents} event${sharedEvents === 1 ? "" : "s"}, never in the same game`
+          );
+        }
+
+        const [canonical, other] = a.shotCount >= b.shotCount ? [a, b] : [b, a];
+        suggestions.push({
+          team,
+          canonicalName: canonical.name,
+          names: [canonical, other].map(({ name, shotCount, playerId }) => ({
+            name,
+            shotCount,
+            playerId
+          })),
+          confidence:
+            Math.round(similarity * (0.8 + 0.2 * overlap) * 1000) / 1000,
+          reasons
+        });
+      }
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
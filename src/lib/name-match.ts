@@ -0,0 +1,199 @@
+/**
+ * Fuzzy, accent-insensitive matching of player and team names.
+ *
+ * Names in the database are whatever the WCF PDF parser produced ("Niklas
+ * EDIN", "Edin N.", "Bryce MÜLLER"), so exact WHERE clauses written by the
+ * model often miss. The index normalizes every name once, then ranks
+ * candidates by how well each query token matches one of their tokens:
+ * exact, prefix or initial, or within a small edit distance.
+ */
+
+// Letters that NFKD doesn't decompose into a base letter and a mark
+const SPECIAL_LETTERS: Record<string, string> = {
+  ø: "o",
+  æ: "ae",
+  œ: "oe",
+  ß: "ss",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i"
+};
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[øæœßłđðþı]/g, (letter) => SPECIAL_LETTERS[letter])
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 1 for identical strings down to 0 for completely different ones
+ */
+const similarity = (a: string, b: string) =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+// Below this, two tokens are treated as unrelated
+const MIN_TOKEN_SIMILARITY = 0.6;
+
+function tokenScore(query: string, candidate: string) {
+  if (query === candidate) return 1;
+  // A single letter is an initial ("N Edin")
+  if (query.length === 1) return candidate.startsWith(query) ? 0.8 : 0;
+  if (candidate.startsWith(query)) return 0.9;
+  const score = similarity(query, candidate);
+  return score >= MIN_TOKEN_SIMILARITY ? score * 0.85 : 0;
+}
+
+export interface NameIndexEntry<T> {
+  item: T;
+  /** The name matched against the query */
+  name: string;
+  /**
+   * Words that may appear in a query alongside the name without counting
+   * against it, e.g. the player's team code in "SWE Edin"
+   */
+  context?: string[];
+  /** Tie breaker between equally good matches, e.g. number of events */
+  weight?: number;
+}
+
+interface IndexedEntry<T> extends NameIndexEntry<T> {
+  normalized: string;
+  tokens: string[];
+  contextTokens: Set<string>;
+}
+
+export interface NameIndex<T> {
+  entries: IndexedEntry<T>[];
+}
+
+export interface NameMatch<T> {
+  item: T;
+  /** 0 to 1, where 1 is an exact (accent- and case-insensitive) match */
+  score: number;
+}
+
+export interface NameSearchOptions {
+  /** Maximum number of candidates to return */
+  limit?: number;
+  /** Candidates scoring below this are dropped */
+  minScore?: number;
+  /** Query words that carry no name information, e.g. "skip" */
+  ignoredWords?: readonly string[];
+}
+
+// Score given when the query names only context, e.g. "SWE" for players
+const CONTEXT_ONLY_SCORE = 0.6;
+
+export function buildNameIndex<T>(entries: NameIndexEntry<T>[]): NameIndex<T> {
+  return {
+    entries: entries.map((entry) => {
+      const normalized = normalizeName(entry.name);
+      return {
+        ...entry,
+        normalized,
+        tokens: normalized.split(" ").filter(Boolean),
+        contextTokens: new Set(
+          (entry.context ?? []).flatMap((word) =>
+            normalizeName(word).split(" ").filter(Boolean)
+          )
+        )
+      };
+    })
+  };
+}
+
+function scoreEntry<T>(entry: IndexedEntry<T>, queryTokens: string[]) {
+  const nameTokens = queryTokens.filter(
+    (token) => !entry.contextTokens.has(token)
+  );
+  const matchedContext = nameTokens.length < queryTokens.length;
+  if (!nameTokens.length) return matchedContext ? CONTEXT_ONLY_SCORE : 0;
+  if (!entry.tokens.length) return 0;
+
+  // Joined forms catch spacing differences ("vandijk" vs "van dijk")
+  const joinedScore = similarity(nameTokens.join(""), entry.tokens.join(""));
+  if (joinedScore === 1) return 1;
+
+  const used = new Set<number>();
+  let total = 0;
+  for (const queryToken of nameTokens) {
+    let best = 0;
+    let bestIndex = -1;
+    entry.tokens.forEach((candidateToken, index) => {
+      if (used.has(index)) return;
+      const score = tokenScore(queryToken, candidateToken);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) used.add(bestIndex);
+    total += best;
+  }
+
+  // Name words the query didn't mention count a little against the match,
+  // so "Edin" prefers "Niklas Edin" over "Niklas Edin Jr"
+  const coverage = used.size / entry.tokens.length;
+  const tokenScoreTotal = (total / nameTokens.length) * (0.9 + 0.1 * coverage);
+  return Math.max(tokenScoreTotal, joinedScore >= 0.85 ? joinedScore * 0.9 : 0);
+}
+
+/**
+ * Candidates for a free-text name query, best first
+ */
+export function searchNameIndex<T>(
+  index: NameIndex<T>,
+  query: string,
+  { limit = 5, minScore = 0.5, ignoredWords = [] }: NameSearchOptions = {}
+): NameMatch<T>[] {
+  const ignored = new Set(ignoredWords.map(normalizeName));
+  const queryTokens = normalizeName(query)
+    .split(" ")
+    .filter((token) => token && !ignored.has(token));
+  if (!queryTokens.length) return [];
+
+  return index.entries
+    .map((entry) => ({
+      entry,
+      score: Math.round(scoreEntry(entry, queryTokens) * 1000) / 1000
+    }))
+    .filter(({ score }) => score >= minScore)
+    .sort(
+      (a, b) =>
+        b.score - a.score || (b.entry.weight ?? 0) - (a.entry.weight ?? 0)
+    )
+    .slice(0, limit)
+    .map(({ entry, score }) => ({ item: entry.item, score }));
+}
@@ -0,0 +1,105 @@
+/**
+ * Normalization of the WCF dataset quirks into typed values.
+ *
+ * The PDF parser stores missing scores and clocks as the string 'NaN', encodes
+ * Win/Loss games as 999/0, marks unreadable hammer colors as 'error_color' and
+ * records a shot's turn either as a rotation (Clockwise / Counter-clockwise)
+ * or as a handle (In / Out). The SQL views in migrations/ apply the same rules
+ * for queries written by the model.
+ */
+import type { Game, Handedness, Hammer, Rotation, Turn } from "./domain";
+
+/** Final score recorded for the winner of a Win/Loss game */
+export const WIN_LOSS_SCORE = 999;
+
+export type GameResult = Pick<
+  Game,
+  "finalScoreRed" | "finalScoreYellow" | "isWinLoss" | "winner"
+>;
+
+/**
+ * A number, or null for NULL, 'NaN' and other non-numeric values
+ */
+export function normalizeNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+export function normalizeGameResult(
+  rawRed: unknown,
+  rawYellow: unknown
+): GameResult {
+  const red = normalizeNumber(rawRed);
+  const yellow = normalizeNumber(rawYellow);
+
+  if (red === WIN_LOSS_SCORE || yellow === WIN_LOSS_SCORE) {
+    return {
+      finalScoreRed: null,
+      finalScoreYellow: null,
+      isWinLoss: true,
+      winner: red === WIN_LOSS_SCORE ? "red" : "yellow"
+    };
+  }
+
+  let winner: GameResult["winner"] = null;
+  if (red !== null && yellow !== null) {
+    winner = red > yellow ? "red" : yellow > red ? "yellow" : "tie";
+  }
+  return {
+    finalScoreRed: red,
+    finalScoreYellow: yellow,
+    isWinLoss: false,
+    winner
+  };
+}
+
+export function normalizeHammer(value: unknown): Hammer {
+  const color = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return color === "red" || color === "yellow" ? color : "unknown";
+}
+
+/**
+ * Parse either turn format. For a right-handed thrower an in-turn rotates
+ * clockwise; for a left-handed thrower it rotates counter-clockwise.
+ */
+export function normalizeTurn(
+  value: unknown,
+  handedness: Handedness = "right"
+): Turn | null {
+  if (typeof value !== "string") return null;
+  const key = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]/g, "");
+  const inTurnRotation: Rotation =
+    handedness === "right" ? "clockwise" : "counterclockwise";
+  const flip = (rotation: Rotation): Rotation =>
+    rotation === "clockwise" ? "counterclockwise" : "clockwise";
+
+  switch (key) {
+    case "clockwise":
+    case "counterclockwise": {
+      const rotation: Rotation = key;
+      return {
+        rotation,
+        handle: rotation === inTurnRotation ? "in" : "out",
+        recorded: "rotation",
+        handedness
+      };
+    }
+    case "in":
+    case "out":
+      return {
+        rotation: key === "in" ? inTurnRotation : flip(inTurnRotation),
+        handle: key,
+        recorded: "handle",
+        handedness
+      };
+    default:
+      return null;
+  }
+}
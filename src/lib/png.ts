@@ -0,0 +1,91 @@
+/**
+ * Minimal PNG encoder for 8-bit RGB images, using the runtime's
+ * CompressionStream for the zlib-wrapped deflate data PNG expects
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+function chunk(type: string, data: Uint8Array) {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  // The CRC covers the chunk type and data, not the length
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+async function deflate(data: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encode width × height RGB pixels (3 bytes each, row by row) as a PNG file
+ */
+export async function encodePng(
+  width: number,
+  height: number,
+  rgb: Uint8Array
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (rgb.length !== width * height * 3) {
+    throw new Error(
+      `Expected ${width * height * 3} bytes of RGB data, got ${rgb.length}`
+    );
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+  // compression, filter and interlace methods all stay 0
+
+  // Every scanline starts with its filter type; 0 leaves the row unfiltered
+  const rowLength = width * 3;
+  const scanlines = new Uint8Array((rowLength + 1) * height);
+  for (let row = 0; row < height; row++) {
+    scanlines.set(
+      rgb.subarray(row * rowLength, (row + 1) * rowLength),
+      row * (rowLength + 1) + 1
+    );
+  }
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", await deflate(scanlines)),
+    chunk("IEND", new Uint8Array(0))
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
@@ -0,0 +1,105 @@
+/**
+ * Hypothetical positions built in the position editor, and the compact code
+ * they are shared as in chat messages and links (/position/:code).
+ *
+ * A code is the number of the shot about to be thrown and the hammer color,
+ * then every stone as its color and coordinates rounded to whole
+ * stone_positions units (1/20 ft), separated by underscores:
+ *
+ *   5r_r12.-40_y0.3   shot 5 is next, red has hammer, a red stone 12 right
+ *                     of and 40 behind the button, a yellow one near it
+ *
+ * Only URL-safe characters are used, so a code needs no escaping.
+ */
+import type { StoneColor, StonePosition } from "./domain";
+import { analyzeHouse } from "./house-analysis";
+
+export interface CustomPosition {
+  /** The shot about to be thrown, 1 to 16 */
+  shotNumber: number;
+  hammer: StoneColor;
+  stones: StonePosition[];
+}
+
+export const MAX_SHOT_NUMBER = 16;
+export const MAX_STONES_PER_COLOR = 8;
+
+const COLOR_CODES: Record<StoneColor, string> = { red: "r", yellow: "y" };
+
+const HEADER = /^(\d{1,2})([ry])$/;
+const STONE = /^([ry])(-?\d+)\.(-?\d+)$/;
+
+const colorOf = (code: string): StoneColor => (code === "r" ? "red" : "yellow");
+
+export function encodePosition({
+  shotNumber,
+  hammer,
+  stones
+}: CustomPosition): string {
+  return [
+    `${shotNumber}${COLOR_CODES[hammer]}`,
+    ...stones.map(
+      (stone) =>
+        `${COLOR_CODES[stone.color]}${Math.round(stone.x)}.${Math.round(stone.y)}`
+    )
+  ].join("_");
+}
+
+/**
+ * Parse a position code, or null when it isn't one
+ */
+export function decodePosition(code: string): CustomPosition | null {
+  const [header, ...parts] = code.trim().split("_");
+  const match = HEADER.exec(header ?? "");
+  if (!match) return null;
+  const shotNumber = Number(match[1]);
+  if (shotNumber < 1 || shotNumber > MAX_SHOT_NUMBER) return null;
+
+  const stones: StonePosition[] = [];
+  for (const part of parts) {
+    const stone = STONE.exec(part);
+    if (!stone) return null;
+    stones.push({
+      color: colorOf(stone[1]),
+      x: Number(stone[2]),
+      y: Number(stone[3])
+    });
+  }
+  return { shotNumber, hammer: colorOf(match[2]), stones };
+}
+
+/**
+ * The color throwing the next shot: the team with hammer throws the even
+ * shots
+ */
+export const throwerOf = ({
+  shotNumber,
+  hammer
+}: CustomPosition): StoneColor =>
+  shotNumber % 2 === 0 ? hammer : hammer === "red" ? "yellow" : "red";
+
+const ZONE_LABELS = {
+  in_house: "in the house",
+  guard: "guard",
+  behind: "behind the house"
+} as const;
+
+/**
+ * The position as text for the agent: the code to pass to its tools, whose
+ * turn it is, and where every stone is
+ */
+export function describePosition(position: CustomPosition): string {
+  const { stones, counting } = analyzeHouse(position.stones);
+  const lines = [
+    `Custom position \`${encodePosition(position)}\` from the position editor: shot ${position.shotNumber} is next, thrown by ${throwerOf(position)}; ${position.hammer} has hammer.`,
+    counting
+      ? `${counting.color} is sitting ${counting.count}.`
+      : "Nothing is in the house.",
+    "Stones (x, y from the button in stone_positions units, 20 per foot, y positive towards the hog line):",
+    ...stones.map(
+      (stone) =>
+        `- ${stone.color} (${Math.round(stone.x)}, ${Math.round(stone.y)}): ${ZONE_LABELS[stone.zone]}, ${stone.distance} ft from the button${stone.rank === 1 ? ", shot rock" : ""}`
+    )
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,133 @@
+/**
+ * Similar-position search over the stone_positions history.
+ *
+ * Two layouts are compared color by color: each stone is paired with one
+ * stone of the same color in the other layout so that the total distance is
+ * smallest (see matchStones in stone-diff.ts), which makes the comparison
+ * independent of the order stones are stored in. A layout can also be
+ * compared mirrored across the center line, since a corner guard on the
+ * left plays much like one on the right.
+ *
+ * Scanning every shot exactly would be too slow, so the database first
+ * narrows the search with position_signatures (see
+ * migrations/0004_position_signatures.sql, stored as an indexed table by
+ * 0006): same stone counts, closest centroids. Only those candidates are ranked here.
+ */
+import { feetToUnits, toLength } from "./coordinates";
+import type { StoneColor, StonePosition } from "./domain";
+import { matchStones, type Point } from "./stone-diff";
+
+export interface PositionSignature {
+  redCount: number;
+  yellowCount: number;
+  /** Centroid of each color's stones, null when it has none */
+  red: Point | null;
+  yellow: Point | null;
+}
+
+export interface PositionCandidate {
+  shotId: number;
+  stones: StonePosition[];
+}
+
+export interface PositionMatch {
+  shotId: number;
+  /** Mean distance between paired stones, in feet */
+  distance: number;
+  /** Whether the match was found after mirroring the query */
+  mirrored: boolean;
+}
+
+export interface PositionSearchOptions {
+  /** Also compare the layout mirrored across the center line */
+  mirror?: boolean;
+  limit?: number;
+}
+
+// A stone with no counterpart counts as this far off (15 feet)
+const UNMATCHED_COST = feetToUnits(15);
+
+const COLORS: StoneColor[] = ["red", "yellow"];
+
+const centroid = (stones: StonePosition[]): Point | null =>
+  stones.length
+    ? {
+        x: stones.reduce((sum, stone) => sum + stone.x, 0) / stones.length,
+        y: stones.reduce((sum, stone) => sum + stone.y, 0) / stones.length
+      }
+    : null;
+
+export function positionSignature(stones: StonePosition[]): PositionSignature {
+  const red = stones.filter((stone) => stone.color === "red");
+  const yellow = stones.filter((stone) => stone.color === "yellow");
+  return {
+    redCount: red.length,
+    yellowCount: yellow.length,
+    red: centroid(red),
+    yellow: centroid(yellow)
+  };
+}
+
+/**
+ * The same layout seen from the other side of the center line
+ */
+export const mirrorStones = (stones: StonePosition[]): StonePosition[] =>
+  stones.map((stone) => ({ ...stone, x: -stone.x }));
+
+/**
+ * Mean distance between the paired stones of two layouts, in stone
+ * coordinates; stones left without a partner count as UNMATCHED_COST
+ */
+export function positionDistance(
+  a: StonePosition[],
+  b: StonePosition[]
+): number {
+  let total = 0;
+  let count = 0;
+  for (const color of COLORS) {
+    const first = a.filter((stone) => stone.color === color);
+    const second = b.filter((stone) => stone.color === color);
+    const matches = matchStones(first, second, UNMATCHED_COST);
+    matches.forEach((match, i) => {
+      total +=
+        match === null
+          ? UNMATCHED_COST
+          : Math.hypot(
+              first[i].x - second[match].x,
+              first[i].y - second[match].y
+            );
+    });
+    const unmatchedSecond =
+      second.length - matches.filter((match) => match !== null).length;
+    total += unmatchedSecond * UNMATCHED_COST;
+    count += Math.max(first.length, second.length);
+  }
+  return count ? total / count : 0;
+}
+
+/**
+ * The candidates closest to the query layout, best first
+ */
+export function rankSimilarPositions(
+  query: StonePosition[],
+  candidates: PositionCandidate[],
+  { mirror = false, limit = 10 }: PositionSearchOptions = {}
+): PositionMatch[] {
+  const mirrored = mirror ? mirrorStones(query) : null;
+  return candidates
+    .map(({ shotId, stones }) => {
+      const direct = positionDistance(query, stones);
+      const flipped = mirrored ? positionDistance(mirrored, stones) : Infinity;
+      return {
+        shotId,
+        distance: Math.min(direct, flipped),
+        mirrored: flipped < direct
+      };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map((match) => ({
+      ...match,
+      distance: toLength(match.distance)
+    }));
+}
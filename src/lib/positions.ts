@@ -0,0 +1,153 @@
+/**
+ * Team positions inferred from the throwing order.
+ *
+ * Mirrors the shot_positions view (migrations/0003_shot_positions.sql): in a
+ * game of fours each team throws 8 stones per end, two per player, so a
+ * team's stones 1-2 are thrown by the lead, 3-4 by the second, 5-6 by the
+ * vice and 7-8 by the skip. In mixed doubles one player throws the team's
+ * first and last stones and the other the three in between.
+ *
+ * A player's position in a game is the one they threw most; ends where a
+ * team's slots are filled by different players than before are reported as
+ * rotation changes.
+ */
+import type {
+  GameFormat,
+  PlayerPosition,
+  Position,
+  RotationChange,
+  StoneColor,
+  TeamLineup
+} from "./domain";
+
+export const POSITIONS: Record<GameFormat, Position[]> = {
+  fours: ["lead", "second", "vice", "skip"],
+  mixed_doubles: ["first_last", "middle"]
+};
+
+// Mixed doubles ends have 5 thrown stones per team, fours ends 8
+const MAX_MIXED_DOUBLES_SHOTS = 10;
+
+/**
+ * The team's stone number (1-8, or 1-5 in mixed doubles) for a shot number
+ * within the end, teams alternating
+ */
+export const teamStoneNumber = (shotNumber: number) =>
+  Math.ceil(shotNumber / 2);
+
+export function positionForShot(
+  shotNumber: number,
+  format: GameFormat
+): Position {
+  const stone = teamStoneNumber(shotNumber);
+  if (format === "mixed_doubles") {
+    return stone === 1 || stone === 5 ? "first_last" : "middle";
+  }
+  return POSITIONS.fours[Math.min(3, Math.floor((stone - 1) / 2))];
+}
+
+/**
+ * Mixed doubles when the event says so or no end has more than 10 shots
+ */
+export function detectGameFormat({
+  eventName,
+  maxShotNumber
+}: {
+  eventName: string;
+  maxShotNumber: number;
+}): GameFormat {
+  if (/mixed\s+doubles/i.test(eventName)) return "mixed_doubles";
+  return maxShotNumber > 0 && maxShotNumber <= MAX_MIXED_DOUBLES_SHOTS
+    ? "mixed_doubles"
+    : "fours";
+}
+
+export interface PositionedShot {
+  endNumber: number;
+  shotNumber: number;
+  color: StoneColor;
+  team: string;
+  playerName: string;
+  percentScore: number | null;
+}
+
+const average = (values: number[]) =>
+  values.length
+    ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) /
+      10
+    : null;
+
+/**
+ * Lineups of both teams in a game, players in throwing order
+ */
+export function inferLineups(
+  shots: PositionedShot[],
+  format: GameFormat
+): TeamLineup[] {
+  return (["red", "yellow"] as const).map((color) => {
+    const teamShots = shots
+      .filter((shot) => shot.color === color)
+      .sort((a, b) => a.endNumber - b.endNumber || a.shotNumber - b.shotNumber);
+
+    const byPlayer = new Map<
+      string,
+      { byPosition: Map<Position, number>; scores: number[]; shots: number }
+    >();
+    // Who last threw from each position
+    const lastThrower = new Map<Position, string>();
+    const rotationChanges: RotationChange[] = [];
+
+    for (const shot of teamShots) {
+      const position = positionForShot(shot.shotNumber, format);
+      const player = byPlayer.get(shot.playerName) ?? {
+        byPosition: new Map<Position, number>(),
+        scores: [] as number[],
+        shots: 0
+      };
+      player.shots++;
+      player.byPosition.set(
+        position,
+        (player.byPosition.get(position) ?? 0) + 1
+      );
+      if (shot.percentScore !== null) player.scores.push(shot.percentScore);
+      byPlayer.set(shot.playerName, player);
+
+      const previous = lastThrower.get(position);
+      if (previous !== undefined && previous !== shot.playerName) {
+        rotationChanges.push({
+          endNumber: shot.endNumber,
+          position,
+          from: previous,
+          to: shot.playerName
+        });
+      }
+      lastThrower.set(position, shot.playerName);
+    }
+
+    const order = POSITIONS[format];
+    const players = [...byPlayer].map(
+      ([playerName, { byPosition, scores, shots }]): PlayerPosition => {
+        const [position] = [...byPosition].sort(
+          (a, b) => b[1] - a[1] || order.indexOf(a[0]) - order.indexOf(b[0])
+        )[0];
+        return {
+          playerName,
+          position,
+          shots,
+          percentage: average(scores),
+          shotsByPosition: Object.fromEntries(byPosition)
+        };
+      }
+    );
+    players.sort(
+      (a, b) => order.indexOf(a.position) - order.indexOf(b.position)
+    );
+
+    return {
+      color,
+      team: teamShots[0]?.team ?? "",
+      players,
+      rotationChanges
+    };
+  });
+}
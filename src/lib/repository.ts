@@ -0,0 +1,1050 @@
+/**
+ * Typed data access for the curling D1 database.
+ *
+ * Every query against events, games, ends, shots and stone_positions used by
+ * the Worker endpoints and the agent tools lives here, so a schema change only
+ * has to be made in one place. Stones are read from stone_positions_normalized,
+ * so every end comes back the same way round (see coordinates.ts).
+ */
+import type {
+  CurlingEvent,
+  End,
+  EndReplay,
+  EventListItem,
+  Game,
+  GameLineups,
+  GameShots,
+  GameSummary,
+  Handle,
+  Page,
+  Player,
+  PlayerName,
+  PlayerNameUsage,
+  Rotation,
+  Shot,
+  ShotDetails,
+  ShotSnapshots,
+  ShotWithStones,
+  SimilarPosition,
+  StoneColor,
+  StonePosition,
+  TeamName
+} from "./domain";
+import {
+  normalizeGameResult,
+  normalizeHammer,
+  normalizeNumber,
+  normalizeTurn
+} from "./normalize";
+import { detectGameFormat, inferLineups } from "./positions";
+import {
+  positionSignature,
+  rankSimilarPositions,
+  type PositionCandidate
+} from "./position-search";
+
+const EVENT_COLUMNS = `ev.id AS event_id, ev.name AS event_name,
+  ev.start_date AS event_start_date, ev.end_date AS event_end_date`;
+
+const GAME_COLUMNS = `g.id AS game_id, g.event_id AS game_event_id,
+  g.session AS game_session, g.name AS game_name, g.sheet AS game_sheet,
+  g.type AS game_type, g.start_date AS game_start_date,
+  g.start_time AS game_start_time, g.team_red AS game_team_red,
+  g.team_yellow AS game_team_yellow,
+  g.final_score_red AS game_final_score_red,
+  g.final_score_yellow AS game_final_score_yellow`;
+
+const END_COLUMNS = `e.id AS end_id, e.game_id AS end_game_id,
+  e.number AS end_number, e.direction AS end_direction,
+  e.color_hammer AS end_color_hammer, e.score_red AS end_score_red,
+  e.score_yellow AS end_score_yellow, e.time_left_red AS end_time_left_red,
+  e.time_left_yellow AS end_time_left_yellow`;
+
+const SHOT_COLUMNS = `s.id AS shot_id, s.end_id AS shot_end_id,
+  s.number AS shot_number, s.color AS shot_color, s.team AS shot_team,
+  s.player_name AS shot_player_name, s.type AS shot_type,
+  s.turn AS shot_turn, s.percent_score AS shot_percent_score`;
+
+type Row = Record<string, unknown>;
+
+export interface Paging {
+  /** 1-based page number */
+  page: number;
+  pageSize: number;
+}
+
+const toEvent = (row: Row): CurlingEvent => ({
+  id: row.event_id as number,
+  name: row.event_name as string,
+  startDate: row.event_start_date as string | null,
+  endDate: row.event_end_date as string | null
+});
+
+const toGame = (row: Row): Game => ({
+  id: row.game_id as number,
+  eventId: row.game_event_id as number,
+  session: row.game_session as string | null,
+  name: row.game_name as string | null,
+  sheet: row.game_sheet as string | null,
+  type: row.game_type as string | null,
+  startDate: row.game_start_date as string | null,
+  startTime: row.game_start_time as string | null,
+  teamRed: row.game_team_red as string,
+  teamYellow: row.game_team_yellow as string,
+  ...normalizeGameResult(row.game_final_score_red, row.game_final_score_yellow)
+});
+
+const toEnd = (row: Row): End => ({
+  id: row.end_id as number,
+  gameId: row.end_game_id as number,
+  number: row.end_number as number,
+  direction: row.end_direction as number | null,
+  hammer: normalizeHammer(row.end_color_hammer),
+  scoreRed: normalizeNumber(row.end_score_red),
+  scoreYellow: normalizeNumber(row.end_score_yellow),
+  timeLeftRed: normalizeNumber(row.end_time_left_red),
+  timeLeftYellow: normalizeNumber(row.end_time_left_yellow)
+});
+
+const toShot = (row: Row): Shot => ({
+  id: row.shot_id as number,
+  endId: row.shot_end_id as number,
+  number: row.shot_number as number,
+  color: row.shot_color as StoneColor,
+  team: row.shot_team as string,
+  playerName: row.shot_player_name as string,
+  type: row.shot_type as string,
+  turn: normalizeTurn(row.shot_turn),
+  percentScore: normalizeNumber(row.shot_percent_score)
+});
+
+const toStone = (row: Row): StonePosition => ({
+  color: row.color as StoneColor,
+  x: row.x as number,
+  y: row.y as number
+});
+
+export async function getEvent(
+  db: D1Database,
+  eventId: number
+): Promise<CurlingEvent | null> {
+  const row = await db
+    .prepare(`SELECT ${EVENT_COLUMNS} FROM events ev WHERE ev.id = ?`)
+    .bind(eventId)
+    .first<Row>();
+  return row ? toEvent(row) : null;
+}
+
+export async function getGame(
+  db: D1Database,
+  gameId: number
+): Promise<Game | null> {
+  const row = await db
+    .prepare(`SELECT ${GAME_COLUMNS} FROM games g WHERE g.id = ?`)
+    .bind(gameId)
+    .first<Row>();
+  return row ? toGame(row) : null;
+}
+
+export async function getEnd(
+  db: D1Database,
+  endId: number
+): Promise<End | null> {
+  const row = await db
+    .prepare(`SELECT ${END_COLUMNS} FROM ends e WHERE e.id = ?`)
+    .bind(endId)
+    .first<Row>();
+  return row ? toEnd(row) : null;
+}
+
+/**
+ * ID of the end with the given number in a game, as used in end permalinks
+ */
+export async function findEndId(
+  db: D1Database,
+  gameId: number,
+  endNumber: number
+): Promise<number | null> {
+  return db
+    .prepare(
+      "SELECT id FROM ends WHERE game_id = ? AND number = ? ORDER BY id LIMIT 1"
+    )
+    .bind(gameId, endNumber)
+    .first<number>("id");
+}
+
+/**
+ * Shots of an end in throwing order
+ */
+export async function listShotsForEnd(
+  db: D1Database,
+  endId: number
+): Promise<Shot[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT ${SHOT_COLUMNS} FROM shots s WHERE s.end_id = ? ORDER BY s.number, s.id`
+    )
+    .bind(endId)
+    .all<Row>();
+  return results.map(toShot);
+}
+
+/**
+ * Stone positions recorded after a shot
+ */
+export async function listStonesForShot(
+  db: D1Database,
+  shotId: number
+): Promise<StonePosition[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT color, x, y FROM stone_positions_normalized WHERE shot_id = ? ORDER BY id"
+    )
+    .bind(shotId)
+    .all<Row>();
+  return results.map(toStone);
+}
+
+/**
+ * A shot with its end, game, event and stone positions
+ */
+export async function getShot(
+  db: D1Database,
+  shotId: number
+): Promise<ShotDetails | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${SHOT_COLUMNS}, ${END_COLUMNS}, ${GAME_COLUMNS}, ${EVENT_COLUMNS}
+       FROM shots s
+       JOIN ends e ON s.end_id = e.id
+       JOIN games g ON e.game_id = g.id
+       JOIN events ev ON g.event_id = ev.id
+       WHERE s.id = ?`
+    )
+    .bind(shotId)
+    .first<Row>();
+  if (!row) return null;
+
+  return {
+    shot: toShot(row),
+    end: toEnd(row),
+    game: toGame(row),
+    event: toEvent(row),
+    stones: await listStonesForShot(db, shotId)
+  };
+}
+
+/**
+ * Several shots with their details, in the order given; null for a shot
+ * that doesn't exist
+ */
+export const getShots = (db: D1Database, shotIds: number[]) =>
+  Promise.all(shotIds.map((shotId) => getShot(db, shotId)));
+
+/**
+ * Stone positions after every shot of an end, keyed by shot ID
+ */
+export async function listStonesForEnd(
+  db: D1Database,
+  endId: number
+): Promise<Map<number, StonePosition[]>> {
+  const { results } = await db
+    .prepare(
+      `SELECT sp.shot_id, sp.color, sp.x, sp.y
+       FROM stone_positions_normalized sp
+       JOIN shots s ON sp.shot_id = s.id
+       WHERE s.end_id = ?
+       ORDER BY sp.id`
+    )
+    .bind(endId)
+    .all<Row>();
+
+  const stonesByShot = new Map<number, StonePosition[]>();
+  for (const row of results) {
+    const shotId = row.shot_id as number;
+    const stones = stonesByShot.get(shotId) ?? [];
+    stones.push(toStone(row));
+    stonesByShot.set(shotId, stones);
+  }
+  return stonesByShot;
+}
+
+/**
+ * An end with its game, event and every shot in order with stone positions
+ */
+export async function getEndReplay(
+  db: D1Database,
+  endId: number
+): Promise<EndReplay | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${END_COLUMNS}, ${GAME_COLUMNS}, ${EVENT_COLUMNS}
+       FROM ends e
+       JOIN games g ON e.game_id = g.id
+       JOIN events ev ON g.event_id = ev.id
+       WHERE e.id = ?`
+    )
+    .bind(endId)
+    .first<Row>();
+  if (!row) return null;
+
+  const [shots, stonesByShot] = await Promise.all([
+    listShotsForEnd(db, endId),
+    listStonesForEnd(db, endId)
+  ]);
+
+  return {
+    end: toEnd(row),
+    game: toGame(row),
+    event: toEvent(row),
+    shots: shots.map((shot) => ({
+      shot,
+      stones: stonesByShot.get(shot.id) ?? []
+    }))
+  };
+}
+
+/**
+ * Every end of a game with its shots in order and the stone positions after
+ * each, for analysis across a whole game
+ */
+export async function getGameShots(
+  db: D1Database,
+  gameId: number
+): Promise<GameShots | null> {
+  const summary = await getGameSummary(db, gameId);
+  if (!summary) return null;
+
+  const [shots, stones] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${SHOT_COLUMNS}
+         FROM shots s
+         JOIN ends e ON s.end_id = e.id
+         WHERE e.game_id = ?
+         ORDER BY e.number, s.number, s.id`
+      )
+      .bind(gameId)
+      .all<Row>(),
+    db
+      .prepare(
+        `SELECT sp.shot_id, sp.color, sp.x, sp.y
+         FROM stone_positions_normalized sp
+         JOIN shots s ON sp.shot_id = s.id
+         JOIN ends e ON s.end_id = e.id
+         WHERE e.game_id = ?
+         ORDER BY sp.id`
+      )
+      .bind(gameId)
+      .all<Row>()
+  ]);
+
+  const stonesByShot = new Map<number, StonePosition[]>();
+  for (const row of stones.results) {
+    const shotId = row.shot_id as number;
+    stonesByShot.set(shotId, [
+      ...(stonesByShot.get(shotId) ?? []),
+      toStone(row)
+    ]);
+  }
+  const shotsByEnd = new Map<number, ShotWithStones[]>();
+  for (const row of shots.results) {
+    const shot = toShot(row);
+    shotsByEnd.set(shot.endId, [
+      ...(shotsByEnd.get(shot.endId) ?? []),
+      { shot, stones: stonesByShot.get(shot.id) ?? [] }
+    ]);
+  }
+
+  return {
+    game: summary.game,
+    event: summary.event,
+    ends: summary.ends.map((end) => ({
+      end,
+      shots: shotsByEnd.get(end.id) ?? []
+    }))
+  };
+}
+
+/**
+ * Ends of a game in playing order
+ */
+export async function listEndsForGame(
+  db: D1Database,
+  gameId: number
+): Promise<End[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT ${END_COLUMNS} FROM ends e WHERE e.game_id = ? ORDER BY e.number, e.id`
+    )
+    .bind(gameId)
+    .all<Row>();
+  return results.map(toEnd);
+}
+
+/**
+ * A game with its event and every end
+ */
+export async function getGameSummary(
+  db: D1Database,
+  gameId: number
+): Promise<GameSummary | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${GAME_COLUMNS}, ${EVENT_COLUMNS}
+       FROM games g
+       JOIN events ev ON g.event_id = ev.id
+       WHERE g.id = ?`
+    )
+    .bind(gameId)
+    .first<Row>();
+  if (!row) return null;
+
+  return {
+    game: toGame(row),
+    event: toEvent(row),
+    ends: await listEndsForGame(db, gameId)
+  };
+}
+
+/**
+ * Who played which position for both teams in a game, inferred from the
+ * throwing order
+ */
+export async function getGameLineups(
+  db: D1Database,
+  gameId: number
+): Promise<GameLineups | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${GAME_COLUMNS}, ${EVENT_COLUMNS}
+       FROM games g
+       JOIN events ev ON g.event_id = ev.id
+       WHERE g.id = ?`
+    )
+    .bind(gameId)
+    .first<Row>();
+  if (!row) return null;
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${SHOT_COLUMNS}, e.number AS end_number
+       FROM shots s
+       JOIN ends e ON s.end_id = e.id
+       WHERE e.game_id = ?
+       ORDER BY e.number, s.number, s.id`
+    )
+    .bind(gameId)
+    .all<Row>();
+  const shots = results.map((shotRow) => ({
+    ...toShot(shotRow),
+    endNumber: shotRow.end_number as number
+  }));
+
+  const event = toEvent(row);
+  const format = detectGameFormat({
+    eventName: event.name,
+    maxShotNumber: Math.max(0, ...shots.map((shot) => shot.number))
+  });
+  return {
+    game: toGame(row),
+    event,
+    format,
+    lineups: inferLineups(
+      shots.map((shot) => ({ ...shot, shotNumber: shot.number })),
+      format
+    )
+  };
+}
+
+export interface GameFilter {
+  eventId?: number;
+  gameId?: number;
+  /** Games where this team played either color */
+  team?: string;
+}
+
+/**
+ * Games matching a filter with their event and ends, for analytics across
+ * games
+ */
+export async function listGameSummaries(
+  db: D1Database,
+  { eventId, gameId, team }: GameFilter
+): Promise<GameSummary[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (eventId !== undefined) {
+    conditions.push("g.event_id = ?");
+    params.push(eventId);
+  }
+  if (gameId !== undefined) {
+    conditions.push("g.id = ?");
+    params.push(gameId);
+  }
+  if (team !== undefined) {
+    conditions.push("(g.team_red = ? OR g.team_yellow = ?)");
+    params.push(team, team);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const [games, ends] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${GAME_COLUMNS}, ${EVENT_COLUMNS}
+         FROM games g
+         JOIN events ev ON g.event_id = ev.id
+         ${where}
+         ORDER BY g.id`
+      )
+      .bind(...params)
+      .all<Row>(),
+    db
+      .prepare(
+        `SELECT ${END_COLUMNS}
+         FROM ends e
+         JOIN games g ON e.game_id = g.id
+         ${where}
+         ORDER BY e.game_id, e.number, e.id`
+      )
+      .bind(...params)
+      .all<Row>()
+  ]);
+
+  const endsByGame = new Map<number, End[]>();
+  for (const row of ends.results) {
+    const end = toEnd(row);
+    endsByGame.set(end.gameId, [...(endsByGame.get(end.gameId) ?? []), end]);
+  }
+  return games.results.map((row) => ({
+    game: toGame(row),
+    event: toEvent(row),
+    ends: endsByGame.get(row.game_id as number) ?? []
+  }));
+}
+
+export interface ShotFilter {
+  eventId?: number;
+  gameId?: number;
+  endId?: number;
+  /** Shots thrown by this team */
+  team?: string;
+  /** Recorded shot type, e.g. "Hit and Roll" (case-insensitive) */
+  type?: string;
+  playerName?: string;
+  /** In or out handle, or a rotation; both are inferred in shots_normalized */
+  turn?: Handle | Rotation;
+  /** Read at most this many shots, most recent first */
+  limit: number;
+}
+
+/**
+ * Shots matching a filter with the stones in play before (after the
+ * previous shot of the end, none for the first) and after each
+ */
+export async function listShotSnapshots(
+  db: D1Database,
+  { eventId, gameId, endId, team, type, playerName, turn, limit }: ShotFilter
+): Promise<ShotSnapshots[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (eventId !== undefined) {
+    conditions.push("g.event_id = ?");
+    params.push(eventId);
+  }
+  if (gameId !== undefined) {
+    conditions.push("e.game_id = ?");
+    params.push(gameId);
+  }
+  if (endId !== undefined) {
+    conditions.push("s.end_id = ?");
+    params.push(endId);
+  }
+  if (team !== undefined) {
+    conditions.push("s.team = ?");
+    params.push(team);
+  }
+  if (type !== undefined) {
+    conditions.push("s.type = ? COLLATE NOCASE");
+    params.push(type);
+  }
+  if (playerName !== undefined) {
+    conditions.push("s.player_name = ?");
+    params.push(playerName);
+  }
+  if (turn !== undefined) {
+    conditions.push(
+      "s.id IN (SELECT id FROM shots_normalized WHERE handle = ? OR rotation = ?)"
+    );
+    params.push(turn, turn);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const targets = `WITH targets AS (
+       SELECT s.id, s.end_id, s.number
+       FROM shots s
+       JOIN ends e ON s.end_id = e.id
+       JOIN games g ON e.game_id = g.id
+       ${where}
+       ORDER BY s.id DESC
+       LIMIT ?
+     )`;
+
+  const [shots, stones] = await Promise.all([
+    db
+      .prepare(
+        `${targets}
+         SELECT ${SHOT_COLUMNS}
+         FROM shots s
+         JOIN targets t ON s.id = t.id
+         ORDER BY s.end_id, s.number, s.id`
+      )
+      .bind(...params, limit)
+      .all<Row>(),
+    db
+      .prepare(
+        `${targets}
+         SELECT t.id AS target_id, 'after' AS snapshot, sp.color, sp.x, sp.y
+         FROM targets t
+         JOIN stone_positions_normalized sp ON sp.shot_id = t.id
+         UNION ALL
+         SELECT t.id AS target_id, 'before' AS snapshot, sp.color, sp.x, sp.y
+         FROM targets t
+         JOIN shots p ON p.end_id = t.end_id AND p.number = t.number - 1
+         JOIN stone_positions_normalized sp ON sp.shot_id = p.id`
+      )
+      .bind(...params, limit)
+      .all<Row>()
+  ]);
+
+  const snapshots = new Map<number, ShotSnapshots>(
+    shots.results.map((row) => {
+      const shot = toShot(row);
+      return [shot.id, { shot, before: [], after: [] }];
+    })
+  );
+  for (const row of stones.results) {
+    const entry = snapshots.get(row.target_id as number);
+    if (!entry) continue;
+    (row.snapshot === "before" ? entry.before : entry.after).push(toStone(row));
+  }
+  return [...snapshots.values()];
+}
+
+export interface SimilarPositionSearch {
+  /** Also match the layout mirrored across the center line */
+  mirror?: boolean;
+  /** Only positions after this shot number of an end */
+  shotNumber?: number;
+  /** Leave out the shot the layout was taken from */
+  excludeShotId?: number;
+  limit?: number;
+}
+
+// Shots kept by the signature stage for exact matching
+const SIMILAR_POSITION_CANDIDATES = 200;
+
+const square = (expression: string) => `(${expression}) * (${expression})`;
+
+// Squared distance between centroids, see migrations/0004_position_signatures.sql
+const centroidDistance = (sign: "-" | "+") =>
+  [
+    square(`COALESCE(ps.red_x ${sign} ?3, 0)`),
+    square("COALESCE(ps.red_y - ?4, 0)"),
+    square(`COALESCE(ps.yellow_x ${sign} ?5, 0)`),
+    square("COALESCE(ps.yellow_y - ?6, 0)")
+  ].join(" + ");
+
+/**
+ * Historical shots whose stone layout is closest to `stones`, with their end,
+ * game and the shot thrown next. Candidates with the same number of stones of
+ * each color are narrowed by centroid in the database and ranked by matching
+ * stones one by one (see position-search.ts).
+ */
+export async function findSimilarPositions(
+  db: D1Database,
+  stones: StonePosition[],
+  {
+    mirror = false,
+    shotNumber,
+    excludeShotId,
+    limit = 10
+  }: SimilarPositionSearch
+): Promise<SimilarPosition[]> {
+  const signature = positionSignature(stones);
+  const score = mirror
+    ? `MIN(${centroidDistance("-")}, ${centroidDistance("+")})`
+    : centroidDistance("-");
+
+  const { results } = await db
+    .prepare(
+      `WITH candidates AS (
+         SELECT ps.shot_id, ${score} AS score
+         FROM position_signatures ps
+         WHERE ps.red_count = ?1 AND ps.yellow_count = ?2
+           AND (?7 IS NULL OR ps.shot_number = ?7)
+           AND (?8 IS NULL OR ps.shot_id != ?8)
+         ORDER BY score
+         LIMIT ?9
+       )
+       SELECT sp.shot_id, sp.color, sp.x, sp.y
+       FROM stone_positions_normalized sp
+       JOIN candidates c ON sp.shot_id = c.shot_id
+       ORDER BY sp.shot_id, sp.id`
+    )
+    .bind(
+      signature.redCount,
+      signature.yellowCount,
+      signature.red?.x ?? null,
+      signature.red?.y ?? null,
+      signature.yellow?.x ?? null,
+      signature.yellow?.y ?? null,
+      shotNumber ?? null,
+      excludeShotId ?? null,
+      SIMILAR_POSITION_CANDIDATES
+    )
+    .all<Row>();
+
+  const stonesByShot = new Map<number, StonePosition[]>();
+  for (const row of results) {
+    const shotId = row.shot_id as number;
+    stonesByShot.set(shotId, [
+      ...(stonesByShot.get(shotId) ?? []),
+      toStone(row)
+    ]);
+  }
+  const candidates: PositionCandidate[] = [...stonesByShot].map(
+    ([shotId, candidateStones]) => ({ shotId, stones: candidateStones })
+  );
+  const matches = rankSimilarPositions(stones, candidates, { mirror, limit });
+  if (!matches.length) return [];
+
+  const ids = matches.map((match) => match.shotId);
+  const placeholders = ids.map(() => "?").join(", ");
+  const [context, nextShots] = await Promise.all([
+    db
+      .prepare(
+        `SELECT s.id AS position_shot_id, s.number AS position_shot_number,
+           ${END_COLUMNS}, ${GAME_COLUMNS}, ${EVENT_COLUMNS}
+         FROM shots s
+         JOIN ends e ON s.end_id = e.id
+         JOIN games g ON e.game_id = g.id
+         JOIN events ev ON g.event_id = ev.id
+         WHERE s.id IN (${placeholders})`
+      )
+      .bind(...ids)
+      .all<Row>(),
+    db
+      .prepare(
+        `SELECT p.id AS previous_shot_id, ${SHOT_COLUMNS}
+         FROM shots p
+         JOIN shots s ON s.end_id = p.end_id AND s.number = p.number + 1
+         WHERE p.id IN (${placeholders})`
+      )
+      .bind(...ids)
+      .all<Row>()
+  ]);
+
+  const contextByShot = new Map(
+    context.results.map((row) => [row.position_shot_id as number, row])
+  );
+  const nextByShot = new Map(
+    nextShots.results.map((row) => [
+      row.previous_shot_id as number,
+      toShot(row)
+    ])
+  );
+  return matches.flatMap((match) => {
+    const row = contextByShot.get(match.shotId);
+    if (!row) return [];
+    return [
+      {
+        ...match,
+        shotNumber: row.position_shot_number as number,
+        stones: stonesByShot.get(match.shotId) ?? [],
+        end: toEnd(row),
+        game: toGame(row),
+        event: toEvent(row),
+        nextShot: nextByShot.get(match.shotId) ?? null
+      }
+    ];
+  });
+}
+
+/**
+ * Events, most recent first, with their number of games
+ */
+export async function listEvents(
+  db: D1Database,
+  { page, pageSize }: Paging
+): Promise<Page<EventListItem>> {
+  const [{ results }, count] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${EVENT_COLUMNS},
+           (SELECT COUNT(*) FROM games g WHERE g.event_id = ev.id) AS game_count
+         FROM events ev
+         ORDER BY ev.start_date DESC, ev.id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(pageSize, (page - 1) * pageSize)
+      .all<Row>(),
+    db.prepare("SELECT COUNT(*) AS total FROM events").first<number>("total")
+  ]);
+
+  return {
+    items: results.map((row) => ({
+      ...toEvent(row),
+      gameCount: row.game_count as number
+    })),
+    page,
+    pageSize,
+    total: count ?? 0
+  };
+}
+
+/**
+ * Games of an event in playing order
+ */
+export async function listGamesForEvent(
+  db: D1Database,
+  eventId: number,
+  { page, pageSize }: Paging
+): Promise<Page<Game>> {
+  const [{ results }, count] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${GAME_COLUMNS}
+         FROM games g
+         WHERE g.event_id = ?
+         ORDER BY g.start_date, g.start_time, g.id
+         LIMIT ? OFFSET ?`
+      )
+      .bind(eventId, pageSize, (page - 1) * pageSize)
+      .all<Row>(),
+    db
+      .prepare("SELECT COUNT(*) AS total FROM games WHERE event_id = ?")
+      .bind(eventId)
+      .first<number>("total")
+  ]);
+
+  return {
+    items: results.map(toGame),
+    page,
+    pageSize,
+    total: count ?? 0
+  };
+}
+
+/**
+ * Every distinct player name per team, for fuzzy name resolution
+ */
+export async function listPlayerNames(db: D1Database): Promise<PlayerName[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT s.player_name AS name, s.team AS team,
+         COUNT(DISTINCT g.event_id) AS event_count, COUNT(*) AS shot_count
+       FROM shots s
+       JOIN ends e ON s.end_id = e.id
+       JOIN games g ON e.game_id = g.id
+       WHERE s.player_name IS NOT NULL AND s.player_name != ''
+       GROUP BY s.player_name, s.team`
+    )
+    .all<Row>();
+  return results.map((row) => ({
+    name: row.name as string,
+    team: row.team as string,
+    eventCount: row.event_count as number,
+    shotCount: row.shot_count as number
+  }));
+}
+
+/**
+ * Every distinct team name, whichever color it played, for fuzzy name
+ * resolution
+ */
+export async function listTeamNames(db: D1Database): Promise<TeamName[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT name, COUNT(DISTINCT event_id) AS event_count,
+         COUNT(DISTINCT game_id) AS game_count
+       FROM (
+         SELECT team_red AS name, event_id, id AS game_id FROM games
+         UNION ALL
+         SELECT team_yellow AS name, event_id, id AS game_id FROM games
+       )
+       WHERE name IS NOT NULL AND name != ''
+       GROUP BY name`
+    )
+    .all<Row>();
+  return results.map((row) => ({
+    name: row.name as string,
+    eventCount: row.event_count as number,
+    gameCount: row.game_count as number
+  }));
+}
+
+const toIds = (value: unknown) =>
+  typeof value === "string" && value
+    ? value.split(",").map(Number)
+    : ([] as number[]);
+
+/**
+ * Every raw player name per team with the events and games it appears in and
+ * the player it is mapped to
+ */
+export async function listPlayerNameUsage(
+  db: D1Database
+): Promise<PlayerNameUsage[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT s.player_name AS name, s.team AS team, COUNT(*) AS shot_count,
+         GROUP_CONCAT(DISTINCT g.event_id) AS event_ids,
+         GROUP_CONCAT(DISTINCT g.id) AS game_ids,
+         pa.player_id AS player_id
+       FROM shots s
+       JOIN ends e ON s.end_id = e.id
+       JOIN games g ON e.game_id = g.id
+       LEFT JOIN player_aliases pa
+         ON pa.raw_name = s.player_name AND pa.team = s.team
+       WHERE s.player_name IS NOT NULL AND s.player_name != ''
+       GROUP BY s.player_name, s.team`
+    )
+    .all<Row>();
+  return results.map((row) => ({
+    name: row.name as string,
+    team: row.team as string,
+    shotCount: row.shot_count as number,
+    eventIds: toIds(row.event_ids),
+    gameIds: toIds(row.game_ids),
+    playerId: (row.player_id as number | null) ?? null
+  }));
+}
+
+/**
+ * Canonical players with their aliases, optionally for one team
+ */
+export async function listPlayers(
+  db: D1Database,
+  team?: string
+): Promise<Player[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT p.id, p.name, p.team,
+         GROUP_CONCAT(pa.raw_name, char(31)) AS aliases
+       FROM players p
+       LEFT JOIN player_aliases pa ON pa.player_id = p.id
+       WHERE ?1 IS NULL OR p.team = ?1
+       GROUP BY p.id
+       ORDER BY p.team, p.name`
+    )
+    .bind(team ?? null)
+    .all<Row>();
+  return results.map((row) => ({
+    id: row.id as number,
+    name: row.name as string,
+    team: row.team as string,
+    // Unit separator, since names can contain commas
+    aliases: typeof row.aliases === "string" ? row.aliases.split("\u001f") : []
+  }));
+}
+
+export async function getPlayer(
+  db: D1Database,
+  playerId: number
+): Promise<Player | null> {
+  const player = await db
+    .prepare("SELECT id, name, team FROM players WHERE id = ?")
+    .bind(playerId)
+    .first<Omit<Player, "aliases">>();
+  if (!player) return null;
+
+  const { results } = await db
+    .prepare(
+      "SELECT raw_name FROM player_aliases WHERE player_id = ? ORDER BY raw_name"
+    )
+    .bind(playerId)
+    .all<{ raw_name: string }>();
+  return { ...player, aliases: results.map((row) => row.raw_name) };
+}
+
+export interface PlayerMerge {
+  /** Name shown for the merged player */
+  canonicalName: string;
+  team: string;
+  /** Raw spellings (shots.player_name) to map to the player */
+  rawNames: string[];
+}
+
+/**
+ * Map raw spellings of a team's player to one canonical player. Players the
+ * spellings were already mapped to are folded into a single identity.
+ * Spellings the team never threw a shot under are rejected, so a mistyped
+ * name can't leave an alias behind.
+ */
+export async function mergePlayerNames(
+  db: D1Database,
+  { canonicalName, team, rawNames }: PlayerMerge
+): Promise<Player> {
+  const placeholders = rawNames.map(() => "?").join(", ");
+  const { results: thrown } = await db
+    .prepare(
+      `SELECT DISTINCT player_name FROM shots
+       WHERE team = ? AND player_name IN (${placeholders})`
+    )
+    .bind(team, ...rawNames)
+    .all<{ player_name: string }>();
+  const known = new Set(thrown.map((row) => row.player_name));
+  const unknown = rawNames.filter((rawName) => !known.has(rawName));
+  if (unknown.length) {
+    throw new Error(`No shots by ${unknown.join(", ")} for team ${team}`);
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT DISTINCT player_id FROM player_aliases
+       WHERE team = ? AND raw_name IN (${placeholders})
+       ORDER BY player_id`
+    )
+    .bind(team, ...rawNames)
+    .all<{ player_id: number }>();
+  const [existingId, ...foldedIds] = results.map((row) => row.player_id);
+
+  // A new player takes the next free ID so it is created in the same batch
+  // as its aliases; if another insert takes that ID first the whole batch
+  // fails rather than leaving a player without aliases behind
+  const playerId =
+    existingId ??
+    ((await db
+      .prepare("SELECT MAX(id) AS id FROM players")
+      .first<number | null>("id")) ?? 0) + 1;
+
+  const statements = [
+    existingId === undefined
+      ? db
+          .prepare("INSERT INTO players (id, name, team) VALUES (?, ?, ?)")
+          .bind(playerId, canonicalName, team)
+      : db
+          .prepare("UPDATE players SET name = ? WHERE id = ?")
+          .bind(canonicalName, playerId),
+    ...foldedIds.flatMap((id) => [
+      db
+        .prepare("UPDATE player_aliases SET player_id = ? WHERE player_id = ?")
+        .bind(playerId, id),
+      db.prepare("DELETE FROM players WHERE id = ?").bind(id)
+    ]),
+    ...rawNames.map((rawName) =>
+      db
+        .prepare(
+          `INSERT INTO player_aliases (raw_name, team, player_id) VALUES (?, ?, ?)
+           ON CONFLICT (raw_name, team) DO UPDATE SET player_id = excluded.player_id`
+        )
+        .bind(rawName, team, playerId)
+    )
+  ];
+  // A batch runs as one transaction
+  await db.batch(statements);
+
+  const player = await getPlayer(db, playerId);
+  if (!player) throw new Error(`Player ${playerId} not found after merge`);
+  return player;
+}
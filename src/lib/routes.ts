@@ -0,0 +1,79 @@
+/**
+ * Client-side routes, so a shot or an end replay can be shared as a link.
+ *
+ *   /shot/:shotId                          a single shot in the curling house
+ *   /game/:gameId                          the game's scoreboard
+ *   /game/:gameId/end/:endNumber           the replay of an end
+ *   /game/:gameId/end/:endNumber/shot/:n   the replay, opened at shot number n
+ *   /position/:code                        a custom position in the position
+ *                                          editor, see position-code.ts
+ *   /compare/:id,:id[,...]                 shots side by side, see
+ *                                          shot-comparison.ts
+ *
+ * Anything else is the home route, which shows the default shot.
+ */
+export type AppRoute =
+  | { view: "home" }
+  | { view: "shot"; shotId: number }
+  | { view: "game"; gameId: number }
+  | { view: "end"; gameId: number; endNumber: number; shotNumber?: number }
+  | { view: "position"; code: string }
+  | { view: "compare"; shotIds: number[] };
+
+const SHOT_PATH = /^\/shot\/(\d+)\/?$/;
+const GAME_PATH = /^\/game\/(\d+)\/?$/;
+const END_PATH = /^\/game\/(\d+)\/end\/(\d+)(?:\/shot\/(\d+))?\/?$/;
+const POSITION_PATH = /^\/position\/([A-Za-z0-9._~-]+)\/?$/;
+const COMPARE_PATH = /^\/compare\/(\d+(?:,\d+)+)\/?$/;
+
+export function parseRoute(pathname: string): AppRoute {
+  const shot = SHOT_PATH.exec(pathname);
+  if (shot) return { view: "shot", shotId: Number(shot[1]) };
+
+  const game = GAME_PATH.exec(pathname);
+  if (game) return { view: "game", gameId: Number(game[1]) };
+
+  const end = END_PATH.exec(pathname);
+  if (end) {
+    return {
+      view: "end",
+      gameId: Number(end[1]),
+      endNumber: Number(end[2]),
+      ...(end[3] !== undefined && { shotNumber: Number(end[3]) })
+    };
+  }
+
+  const position = POSITION_PATH.exec(pathname);
+  if (position) return { view: "position", code: position[1] };
+
+  const compare = COMPARE_PATH.exec(pathname);
+  if (compare) {
+    return { view: "compare", shotIds: compare[1].split(",").map(Number) };
+  }
+
+  return { view: "home" };
+}
+
+export function formatRoute(route: AppRoute): string {
+  switch (route.view) {
+    case "home":
+      return "/";
+    case "shot":
+      return `/shot/${route.shotId}`;
+    case "game":
+      return `/game/${route.gameId}`;
+    case "end": {
+      const endPath = `/game/${route.gameId}/end/${route.endNumber}`;
+      return route.shotNumber === undefined
+        ? endPath
+        : `${endPath}/shot/${route.shotNumber}`;
+    }
+    case "position":
+      return `/position/${route.code}`;
+    case "compare":
+      return `/compare/${route.shotIds.join(",")}`;
+  }
+}
+
+export const isSameRoute = (a: AppRoute, b: AppRoute) =>
+  formatRoute(a) === formatRoute(b);
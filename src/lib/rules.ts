@@ -0,0 +1,363 @@
+/**
+ * Curling rules that can be checked from stone_positions.
+ *
+ * - Free guard zone (FGZ): the area between the tee line and the hog line,
+ *   not counting the house. In fours, an opponent's stone in the FGZ can't
+ *   be removed before the sixth stone of the end (five-rock rule, WCF events
+ *   from the 2018-19 season on; before the fifth until then, four-rock rule)
+ * - No-tick rule: during the same shots, an opponent's FGZ stone touching
+ *   the center line can't be moved off it. Not every competition plays it,
+ *   so it is only checked on request
+ * - Mixed doubles: each end starts with one stone of each team placed on the
+ *   center line (or to one side in a power play, which can't be used in an
+ *   extra end), and no stone can be removed before the fourth delivered stone
+ *
+ * The recorded positions are what the official scorers drew after a rule was
+ * applied, so a sequence that breaks one of these rules points at a misread
+ * diagram more often than at an infraction. checkEndRules flags them.
+ */
+import type {
+  EndReplay,
+  GameFormat,
+  ShotWithStones,
+  StoneColor,
+  StonePosition
+} from "./domain";
+import { feetToUnits } from "./coordinates";
+import { type StoneZone, stoneZone } from "./house-analysis";
+import {
+  BACK_LINE_Y,
+  HOG_LINE_Y,
+  SIDE_LINE_X,
+  STONE_RADIUS
+} from "./house-geometry";
+import { detectGameFormat } from "./positions";
+import { diffStonePositions } from "./stone-diff";
+
+export type RuleZone = StoneZone | "out_of_play";
+
+export interface RuleSet {
+  format: GameFormat;
+  /** Shots of an end thrown under the free guard zone */
+  protectedShots: number;
+  noTick: boolean;
+}
+
+export interface RuleStone extends StonePosition {
+  zone: RuleZone;
+  /** Touching the center line */
+  onCenterLine: boolean;
+  /** Can't be removed by the next shot */
+  protected: boolean;
+}
+
+export type RuleFlagKind =
+  | "protected_stone_removed"
+  | "center_guard_ticked"
+  | "too_many_stones"
+  | "out_of_play_recorded"
+  | "power_play_in_extra_end";
+
+export interface RuleFlag {
+  kind: RuleFlagKind;
+  shotNumber: number;
+  color: StoneColor;
+  message: string;
+}
+
+/**
+ * The stones placed before a mixed doubles end: the first thrower's guard
+ * and the opponent's stone in the house
+ */
+export interface PlacedStones {
+  red: StonePosition | null;
+  yellow: StonePosition | null;
+  powerPlay: boolean;
+}
+
+export interface ShotRules {
+  shotId: number;
+  shotNumber: number;
+  color: StoneColor;
+  /** Whether the shot was thrown while the free guard zone applied */
+  protectedShot: boolean;
+  /** Stones after the shot, protected as the next shot finds them */
+  stones: RuleStone[];
+  flags: RuleFlag[];
+}
+
+export interface EndRules {
+  rules: RuleSet;
+  placed: PlacedStones | null;
+  shots: ShotRules[];
+  /** Every shot's flags, in throwing order */
+  flags: RuleFlag[];
+}
+
+// The 2018-19 season, when the WCF moved from the four- to the five-rock rule
+const FIVE_ROCK_RULE_FROM = "2018-07-01";
+const MIXED_DOUBLES_PROTECTED_SHOTS = 3;
+const MIXED_DOUBLES_ENDS = 8;
+
+// A power play places the stones to one side; standard placements are on
+// the center line, so anything this far off it is a power play
+const POWER_PLAY_OFFSET = feetToUnits(2);
+
+const opposite = (color: StoneColor): StoneColor =>
+  color === "red" ? "yellow" : "red";
+
+/**
+ * The rules an event was played under; events without a date get the
+ * current ones
+ */
+export function rulesForEvent(
+  format: GameFormat,
+  startDate: string | null,
+  { noTick = false }: { noTick?: boolean } = {}
+): RuleSet {
+  if (format === "mixed_doubles") {
+    return {
+      format,
+      protectedShots: MIXED_DOUBLES_PROTECTED_SHOTS,
+      noTick: false
+    };
+  }
+  const fourRock = startDate !== null && startDate < FIVE_ROCK_RULE_FROM;
+  return { format, protectedShots: fourRock ? 4 : 5, noTick };
+}
+
+/**
+ * Where a stone sits for the rules; a stone past the back line, touching a
+ * side line or short of the hog line is out of play
+ */
+export function ruleZone(stone: StonePosition): RuleZone {
+  if (
+    stone.y < BACK_LINE_Y - STONE_RADIUS ||
+    stone.y > HOG_LINE_Y + STONE_RADIUS ||
+    Math.abs(stone.x) + STONE_RADIUS >= SIDE_LINE_X
+  ) {
+    return "out_of_play";
+  }
+  return stoneZone(stone);
+}
+
+export const isOnCenterLine = (stone: StonePosition) =>
+  Math.abs(stone.x) <= STONE_RADIUS;
+
+export const isProtectedShot = (rules: RuleSet, shotNumber: number) =>
+  shotNumber <= rules.protectedShots;
+
+/**
+ * Whether `thrower` may not remove a stone on shot `shotNumber`: an
+ * opponent's guard in fours, any stone in play in mixed doubles
+ */
+export function isProtected(
+  stone: StonePosition,
+  rules: RuleSet,
+  { shotNumber, thrower }: { shotNumber: number; thrower: StoneColor }
+): boolean {
+  if (!isProtectedShot(rules, shotNumber)) return false;
+  const zone = ruleZone(stone);
+  if (rules.format === "mixed_doubles") return zone !== "out_of_play";
+  return stone.color !== thrower && zone === "guard";
+}
+
+/**
+ * A layout as the rules see it before shot `shotNumber` by `thrower`
+ */
+export const ruleStones = (
+  stones: StonePosition[],
+  rules: RuleSet,
+  next: { shotNumber: number; thrower: StoneColor }
+): RuleStone[] =>
+  stones.map((stone) => ({
+    ...stone,
+    zone: ruleZone(stone),
+    onCenterLine: isOnCenterLine(stone),
+    protected: isProtected(stone, rules, next)
+  }));
+
+/**
+ * The placed stones of a mixed doubles end, read from the stones after the
+ * first shot: the opponent's only stone, and the first thrower's guard most
+ * in line with it
+ */
+export function findPlacedStones({ shot, stones }: ShotWithStones) {
+  const other = stones.filter((stone) => stone.color !== shot.color);
+  const inHouse = other.length === 1 ? other[0] : null;
+  const guards = stones.filter(
+    (stone) => stone.color === shot.color && ruleZone(stone) === "guard"
+  );
+  const guard = inHouse
+    ? guards.sort(
+        (a, b) => Math.abs(a.x - inHouse.x) - Math.abs(b.x - inHouse.x)
+      )[0]
+    : guards.find(isOnCenterLine);
+
+  const placed: PlacedStones = {
+    red: null,
+    yellow: null,
+    powerPlay: inHouse !== null && Math.abs(inHouse.x) > POWER_PLAY_OFFSET
+  };
+  placed[shot.color] = guard ?? null;
+  placed[opposite(shot.color)] = inHouse;
+  return placed;
+}
+
+const describe = (stone: StonePosition) =>
+  `${stone.color} ${ruleZone(stone) === "guard" ? "guard" : "stone"}`;
+
+/**
+ * Flags for one shot, given the stones before and after it
+ */
+function checkShot(
+  { shot, stones }: ShotWithStones,
+  before: StonePosition[],
+  rules: RuleSet,
+  limits: Record<StoneColor, number>
+): RuleFlag[] {
+  const flags: RuleFlag[] = [];
+  const flag = (kind: RuleFlagKind, color: StoneColor, message: string) =>
+    flags.push({ kind, shotNumber: shot.number, color, message });
+  const delivery = { shotNumber: shot.number, thrower: shot.color };
+
+  const transitions = diffStonePositions(before, stones);
+  // A stone that travelled far shows up as removed plus delivered, so only
+  // removals beyond the extra delivered stones of that color count
+  const delivered = { red: 0, yellow: 0 };
+  for (const { color, change } of transitions) {
+    if (change === "delivered") delivered[color]++;
+  }
+  delivered[shot.color] = Math.max(0, delivered[shot.color] - 1);
+
+  for (const { color, change, from, to } of transitions) {
+    if (!from) continue;
+    const stone = { color, ...from };
+    if (!isProtected(stone, rules, delivery)) continue;
+    if (change === "removed") {
+      if (delivered[color] > 0) {
+        delivered[color]--;
+        continue;
+      }
+      flag(
+        "protected_stone_removed",
+        shot.color,
+        `Shot ${shot.number} removed a protected ${describe(stone)}`
+      );
+    }
+    if (
+      change === "moved" &&
+      to &&
+      rules.noTick &&
+      rules.format === "fours" &&
+      isOnCenterLine(stone) &&
+      !isOnCenterLine({ color, ...to }) &&
+      ruleZone({ color, ...to }) !== "out_of_play"
+    ) {
+      flag(
+        "center_guard_ticked",
+        shot.color,
+        `Shot ${shot.number} moved a ${color} center guard off the center line`
+      );
+    }
+  }
+
+  for (const color of ["red", "yellow"] as const) {
+    const count = stones.filter((stone) => stone.color === color).length;
+    if (count > limits[color]) {
+      flag(
+        "too_many_stones",
+        color,
+        `${count} ${color} stones after shot ${shot.number}, but only ${limits[color]} in play so far`
+      );
+    }
+  }
+
+  const outOfPlay = stones.filter((stone) => ruleZone(stone) === "out_of_play");
+  if (outOfPlay.length) {
+    flag(
+      "out_of_play_recorded",
+      shot.color,
+      `${outOfPlay.length} stone${outOfPlay.length === 1 ? "" : "s"} out of play recorded after shot ${shot.number}`
+    );
+  }
+  return flags;
+}
+
+/**
+ * Apply the rules to every shot of an end, in throwing order
+ */
+export function checkEndRules(
+  shots: ShotWithStones[],
+  rules: RuleSet,
+  { endNumber }: { endNumber: number }
+): EndRules {
+  const ordered = [...shots].sort((a, b) => a.shot.number - b.shot.number);
+  const placed =
+    rules.format === "mixed_doubles" && ordered.length
+      ? findPlacedStones(ordered[0])
+      : null;
+
+  // Stones each color could have in play: those thrown so far plus placed
+  const limits = {
+    red: placed ? 1 : 0,
+    yellow: placed ? 1 : 0
+  };
+  let before = placed
+    ? [placed.red, placed.yellow].filter(
+        (stone): stone is StonePosition => stone !== null
+      )
+    : [];
+
+  const result = ordered.map((entry, i): ShotRules => {
+    limits[entry.shot.color]++;
+    const flags = checkShot(entry, before, rules, limits);
+    if (i === 0 && placed?.powerPlay && endNumber > MIXED_DOUBLES_ENDS) {
+      flags.unshift({
+        kind: "power_play_in_extra_end",
+        shotNumber: entry.shot.number,
+        color: entry.shot.color,
+        message: `Power play placement in extra end ${endNumber}`
+      });
+    }
+    before = entry.stones;
+
+    const following = ordered[i + 1]?.shot;
+    return {
+      shotId: entry.shot.id,
+      shotNumber: entry.shot.number,
+      color: entry.shot.color,
+      protectedShot: isProtectedShot(rules, entry.shot.number),
+      stones: ruleStones(entry.stones, rules, {
+        shotNumber: entry.shot.number + 1,
+        thrower: following?.color ?? opposite(entry.shot.color)
+      }),
+      flags
+    };
+  });
+
+  return {
+    rules,
+    placed,
+    shots: result,
+    flags: result.flatMap((shot) => shot.flags)
+  };
+}
+
+/**
+ * Check an end under the rules of its event
+ */
+export function checkReplayRules(
+  { end, event, shots }: EndReplay,
+  { noTick = false }: { noTick?: boolean } = {}
+): EndRules {
+  const format = detectGameFormat({
+    eventName: event.name,
+    maxShotNumber: Math.max(0, ...shots.map(({ shot }) => shot.number))
+  });
+  return checkEndRules(
+    shots,
+    rulesForEvent(format, event.startDate, { noTick }),
+    { endNumber: end.number }
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Live schema introspection for the curling database.
+ *
+ * The agent reads the schema from sqlite_master and PRAGMA table_info rather
+ * than from a hand-maintained DDL string, so migrations show up in the prompt
+ * without code changes. Only the tables and views the SQL guard allows are
+ * exposed.
+ */
+import { CURLING_TABLES } from "./sql-guard";
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  notNull: boolean;
+  primaryKey: boolean;
+}
+
+export interface ForeignKeyInfo {
+  column: string;
+  references: { table: string; column: string };
+}
+
+export interface TableInfo {
+  name: string;
+  kind: "table" | "view";
+  columns: ColumnInfo[];
+  foreignKeys: ForeignKeyInfo[];
+}
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+}
+
+export interface ColumnSample {
+  table: string;
+  column: string;
+  /** Number of distinct values in the column, including NULL */
+  distinctCount: number;
+  /** The most common values, most frequent first */
+  values: ValueCount[];
+}
+
+export const DEFAULT_SAMPLE_SIZE = 20;
+export const MAX_SAMPLE_SIZE = 100;
+
+const isCurlingTable = (name: string) =>
+  (CURLING_TABLES as readonly string[]).includes(name);
+
+// PRAGMA arguments and identifiers can't be bound, so they are only ever
+// interpolated after being checked against the allow list or table_info
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * The curling tables and views that exist in the database, tables first
+ */
+export async function listTableNames(
+  db: D1Database
+): Promise<Array<{ name: string; kind: "table" | "view" }>> {
+  const placeholders = CURLING_TABLES.map(() => "?").join(", ");
+  const { results } = await db
+    .prepare(
+      `SELECT name, type FROM sqlite_master
+       WHERE type IN ('table', 'view') AND name IN (${placeholders})
+       ORDER BY type, name`
+    )
+    .bind(...CURLING_TABLES)
+    .all<{ name: string; type: "table" | "view" }>();
+  return results.map(({ name, type }) => ({ name, kind: type }));
+}
+
+/**
+ * Columns and foreign keys of a curling table or view, or null when the name
+ * isn't one of them
+ */
+export async function describeTable(
+  db: D1Database,
+  table: string
+): Promise<TableInfo | null> {
+  if (!isCurlingTable(table)) return null;
+
+  const master = await db
+    .prepare(
+      "SELECT type FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?"
+    )
+    .bind(table)
+    .first<"table" | "view">("type");
+  if (!master) return null;
+
+  const [columns, foreignKeys] = await Promise.all([
+    db
+      .prepare(`PRAGMA table_info(${quoteIdentifier(table)})`)
+      .all<{ name: string; type: string; notnull: number; pk: number }>(),
+    db
+      .prepare(`PRAGMA foreign_key_list(${quoteIdentifier(table)})`)
+      .all<{ from: string; table: string; to: string }>()
+  ]);
+
+  return {
+    name: table,
+    kind: master,
+    columns: columns.results.map((column) => ({
+      name: column.name,
+      type: column.type,
+      notNull: column.notnull === 1,
+      primaryKey: column.pk > 0
+    })),
+    foreignKeys: foreignKeys.results.map((key) => ({
+      column: key.from,
+      references: { table: key.table, column: key.to }
+    }))
+  };
+}
+
+/**
+ * Every curling table and view with its columns
+ */
+export async function loadSchema(db: D1Database): Promise<TableInfo[]> {
+  const names = await listTableNames(db);
+  const tables = await Promise.all(
+    names.map(({ name }) => describeTable(db, name))
+  );
+  return tables.filter((table): table is TableInfo => table !== null);
+}
+
+/**
+ * The most common values of a column with their counts, e.g. the shot types
+ * or the two formats of shots.turn. Returns null for unknown tables or columns.
+ */
+export async function sampleValues(
+  db: D1Database,
+  table: string,
+  column: string,
+  limit = DEFAULT_SAMPLE_SIZE
+): Promise<ColumnSample | null> {
+  const info = await describeTable(db, table);
+  if (!info?.columns.some((c) => c.name === column)) return null;
+
+  const size = Math.min(MAX_SAMPLE_SIZE, Math.max(1, Math.floor(limit)));
+  const from = quoteIdentifier(table);
+  const col = quoteIdentifier(column);
+
+  const [values, distinctCount] = await Promise.all([
+    db
+      .prepare(
+        `SELECT ${col} AS value, COUNT(*) AS count FROM ${from}
+         GROUP BY ${col} ORDER BY count DESC, value LIMIT ?`
+      )
+      .bind(size)
+      .all<ValueCount>(),
+    db
+      .prepare(
+        `SELECT COUNT(*) AS total FROM (SELECT DISTINCT ${col} FROM ${from})`
+      )
+      .first<number>("total")
+  ]);
+
+  return {
+    table,
+    column,
+    distinctCount: distinctCount ?? 0,
+    values: values.results
+  };
+}
+
+/**
+ * Render tables as CREATE statements for a prompt; views are shown as
+ * CREATE VIEW with their column list, since their SQL isn't useful to the model
+ */
+export function formatSchema(tables: TableInfo[]): string {
+  return tables
+    .map((table) => {
+      const lines = table.columns.map((column) =>
+        [
+          `    ${column.name}`,
+          column.type || null,
+          column.primaryKey ? "PRIMARY KEY" : null,
+          column.notNull && !column.primaryKey ? "NOT NULL" : null
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+      for (const key of table.foreignKeys) {
+        lines.push(
+          `    FOREIGN KEY (${key.column}) REFERENCES ${key.references.table}(${key.references.column})`
+        );
+      }
+      const keyword = table.kind === "view" ? "VIEW" : "TABLE";
+      return `CREATE ${keyword} ${table.name}(\n${lines.join(",\n")}\n);`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,143 @@
+/**
+ * Views of the sheet for CurlingHouse: which part of the drawing an SVG
+ * viewBox shows, the preset views and zooming / panning between them.
+ *
+ * Viewports are in drawing coordinates (see toDrawingCoords), so the
+ * background, stones and overlays are drawn the same in every view.
+ */
+import { feetToUnits } from "./coordinates";
+import {
+  BACK_LINE_Y,
+  HOG_LINE_Y,
+  HOUSE_HEIGHT,
+  HOUSE_RINGS,
+  HOUSE_WIDTH,
+  SHEET_BOUNDS,
+  toDrawingCoords
+} from "./house-geometry";
+
+export type SheetView = "house" | "play" | "end";
+
+export interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const SHEET_VIEWS: SheetView[] = ["house", "play", "end"];
+
+export const SHEET_VIEW_LABELS: Record<SheetView, string> = {
+  house: "House",
+  play: "Hog to back",
+  end: "Scoring end"
+};
+
+const MARGIN = feetToUnits(1);
+
+// Narrowest a view can be zoomed to: a couple of stones across
+const MIN_VIEWPORT_WIDTH = feetToUnits(3);
+
+/**
+ * The viewport of an area given in stone coordinates
+ */
+const viewportOf = ({
+  left,
+  right,
+  bottom,
+  top
+}: {
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}): Viewport => {
+  const topLeft = toDrawingCoords(left, top);
+  return {
+    x: topLeft.x,
+    y: topLeft.y,
+    width: right - left,
+    height: top - bottom
+  };
+};
+
+const HOUSE_REACH = HOUSE_RINGS[0].radius + MARGIN;
+
+export const SHEET_VIEWPORTS: Record<SheetView, Viewport> = {
+  house: viewportOf({
+    left: -HOUSE_REACH,
+    right: HOUSE_REACH,
+    bottom: -HOUSE_REACH,
+    top: HOUSE_REACH
+  }),
+  play: viewportOf({
+    left: SHEET_BOUNDS.left,
+    right: SHEET_BOUNDS.right,
+    bottom: BACK_LINE_Y - MARGIN,
+    top: HOG_LINE_Y + MARGIN
+  }),
+  end: viewportOf(SHEET_BOUNDS)
+};
+
+const SHEET_VIEWPORT = SHEET_VIEWPORTS.end;
+
+/**
+ * The size to draw a viewport at: as wide as the classic drawing, unless
+ * that would make it taller than the classic drawing
+ */
+export function frameSize({ width, height }: Viewport) {
+  const scale = Math.min(HOUSE_WIDTH / width, HOUSE_HEIGHT / height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale)
+  };
+}
+
+/**
+ * Keep a viewport over the sheet, shifting it back inside where possible
+ */
+function clampViewport(viewport: Viewport): Viewport {
+  const { x, y, width, height } = SHEET_VIEWPORT;
+  const clamp = (value: number, min: number, max: number) =>
+    max < min ? (min + max) / 2 : Math.min(max, Math.max(min, value));
+  return {
+    ...viewport,
+    x: clamp(viewport.x, x, x + width - viewport.width),
+    y: clamp(viewport.y, y, y + height - viewport.height)
+  };
+}
+
+/**
+ * Zoom by `factor` (above 1 zooms in) keeping the drawing point `center`
+ * where it is, between a few stones across and the whole sheet
+ */
+export function zoomViewport(
+  viewport: Viewport,
+  factor: number,
+  center = {
+    x: viewport.x + viewport.width / 2,
+    y: viewport.y + viewport.height / 2
+  }
+): Viewport {
+  const maxScale = Math.max(
+    SHEET_VIEWPORT.width / viewport.width,
+    SHEET_VIEWPORT.height / viewport.height
+  );
+  const minScale = MIN_VIEWPORT_WIDTH / viewport.width;
+  const scale = Math.min(maxScale, Math.max(minScale, 1 / factor));
+  return clampViewport({
+    x: center.x - (center.x - viewport.x) * scale,
+    y: center.y - (center.y - viewport.y) * scale,
+    width: viewport.width * scale,
+    height: viewport.height * scale
+  });
+}
+
+/**
+ * Move a viewport by `dx`, `dy` drawing units
+ */
+export const panViewport = (viewport: Viewport, dx: number, dy: number) =>
+  clampViewport({ ...viewport, x: viewport.x + dx, y: viewport.y + dy });
+
+export const viewBoxOf = ({ x, y, width, height }: Viewport) =>
+  `${x} ${y} ${width} ${height}`;
@@ -0,0 +1,71 @@
+/**
+ * Side-by-side shot comparisons: the same shot by two players, or a position
+ * before and after a decision.
+ *
+ * The first shot is the reference. Every other layout is diffed against it
+ * with stone-diff.ts, so a stone in the same place in both counts as
+ * unchanged, one a little way off as moved, and the rest as added to or
+ * missing from the layout.
+ */
+import type {
+  LayoutDifference,
+  ShotComparison,
+  ShotDetails,
+  StonePosition
+} from "./domain";
+import { diffStonePositions } from "./stone-diff";
+
+export const MIN_COMPARED_SHOTS = 2;
+export const MAX_COMPARED_SHOTS = 4;
+
+/**
+ * How `stones` (after shot `shotId`) differ from the reference layout
+ */
+export function compareLayouts(
+  reference: StonePosition[],
+  stones: StonePosition[],
+  shotId: number
+): LayoutDifference {
+  const added = { red: 0, yellow: 0 };
+  const missing = { red: 0, yellow: 0 };
+  const moved = { red: 0, yellow: 0 };
+  let unchanged = 0;
+
+  for (const { color, change } of diffStonePositions(reference, stones)) {
+    if (change === "delivered") added[color]++;
+    if (change === "removed") missing[color]++;
+    if (change === "moved") moved[color]++;
+    if (change === "unchanged") unchanged++;
+  }
+  return { shotId, added, missing, moved, unchanged };
+}
+
+export function compareShots(shots: ShotDetails[]): ShotComparison {
+  const [reference] = shots;
+  return {
+    shots,
+    differences: shots
+      .slice(1)
+      .map((details) =>
+        compareLayouts(reference.stones, details.stones, details.shot.id)
+      )
+  };
+}
+
+const count = (counts: { red: number; yellow: number }) =>
+  counts.red + counts.yellow;
+
+/**
+ * A difference in a few words, e.g. "1 moved, 2 missing, 3 unchanged"
+ */
+export function describeDifference(difference: LayoutDifference): string {
+  const parts = [
+    [count(difference.added), "added"],
+    [count(difference.moved), "moved"],
+    [count(difference.missing), "missing"]
+  ]
+    .filter(([stones]) => stones)
+    .map(([stones, change]) => `${stones} ${change}`);
+  if (!parts.length) return "same layout";
+  return `${parts.join(", ")}, ${difference.unchanged} unchanged`;
+}
@@ -0,0 +1,138 @@
+/**
+ * Shot outcomes: what physically happened on a shot, as opposed to the
+ * intended type and percentage the shots table records.
+ *
+ * The stones after the previous shot of the end are diffed against the
+ * stones after this one (see stone-diff.ts). A delivered stone of the
+ * thrower's color is the thrown stone, and its zone is the result; without
+ * one the thrown stone left play, rolling out if it moved anything on the
+ * way. A stone that moved further than the diff matches shows up as removed
+ * plus delivered, so extra delivered stones are paired back with removed
+ * stones of the same color and counted as moved.
+ */
+import type {
+  ShotOutcome,
+  ShotOutcomeStats,
+  ShotOutcomeSummary,
+  ShotResult,
+  ShotSnapshots,
+  StoneColor
+} from "./domain";
+import { stoneZone } from "./house-analysis";
+import { diffStonePositions } from "./stone-diff";
+
+// Shots read for one summary, so a broad filter stays within D1's limits.
+// The newest are kept, so unfiltered summaries lean towards recent events.
+export const MAX_OUTCOME_SHOTS = 5000;
+
+export const SHOT_RESULTS: ShotResult[] = [
+  "in_house",
+  "guard",
+  "behind",
+  "rolled_out",
+  "no_change"
+];
+
+const opposite = (color: StoneColor): StoneColor =>
+  color === "red" ? "yellow" : "red";
+
+/**
+ * Classify a shot from the stones in play before and after it
+ */
+export function classifyShotOutcome({
+  shot,
+  before,
+  after
+}: ShotSnapshots): ShotOutcome {
+  const transitions = diffStonePositions(before, after);
+  const removed = { red: 0, yellow: 0 };
+  const moved = { red: 0, yellow: 0 };
+  const delivered = { red: 0, yellow: 0 };
+  let thrownStone: ShotOutcome["thrownStone"] = null;
+
+  for (const { color, change, to } of transitions) {
+    if (change === "removed") removed[color]++;
+    if (change === "moved") moved[color]++;
+    if (change !== "delivered" || !to) continue;
+    if (color === shot.color && !thrownStone) {
+      thrownStone = { color, ...to };
+    } else {
+      delivered[color]++;
+    }
+  }
+
+  for (const color of ["red", "yellow"] as const) {
+    const travelled = Math.min(delivered[color], removed[color]);
+    removed[color] -= travelled;
+    moved[color] += travelled;
+  }
+
+  const touched = removed.red + removed.yellow + moved.red + moved.yellow > 0;
+  return {
+    shotId: shot.id,
+    color: shot.color,
+    result: thrownStone
+      ? stoneZone(thrownStone)
+      : touched
+        ? "rolled_out"
+        : "no_change",
+    thrownStone,
+    removed,
+    moved
+  };
+}
+
+const rate = (count: number, total: number) =>
+  total ? Math.round((count / total) * 1000) / 1000 : null;
+
+/**
+ * Count the results of a set of shot outcomes
+ */
+export function summarizeOutcomes(outcomes: ShotOutcome[]): ShotOutcomeStats {
+  const results = Object.fromEntries(
+    SHOT_RESULTS.map((result) => [result, 0])
+  ) as Record<ShotResult, number>;
+  for (const outcome of outcomes) results[outcome.result]++;
+
+  return {
+    shots: outcomes.length,
+    results,
+    inHouseRate: rate(results.in_house, outcomes.length),
+    removedOpponent: outcomes.filter(
+      (outcome) => outcome.removed[opposite(outcome.color)] > 0
+    ).length,
+    removedOwn: outcomes.filter((outcome) => outcome.removed[outcome.color] > 0)
+      .length
+  };
+}
+
+/**
+ * Classify every shot and summarize them overall and per shot type, with
+ * the individual outcomes when `includeOutcomes` is set
+ */
+export function summarizeShotOutcomes(
+  shots: ShotSnapshots[],
+  {
+    truncated = false,
+    includeOutcomes = false
+  }: { truncated?: boolean; includeOutcomes?: boolean } = {}
+): ShotOutcomeSummary {
+  const byType = new Map<string, ShotOutcome[]>();
+  const outcomes = shots.map((snapshots) => {
+    const outcome = classifyShotOutcome(snapshots);
+    const { type } = snapshots.shot;
+    const ofType = byType.get(type) ?? [];
+    ofType.push(outcome);
+    byType.set(type, ofType);
+    return outcome;
+  });
+
+  return {
+    overall: summarizeOutcomes(outcomes),
+    types: [...byType]
+      .map(([type, ofType]) => ({ type, ...summarizeOutcomes(ofType) }))
+      .sort((a, b) => b.shots - a.shots),
+    truncated,
+    ...(includeOutcomes && { outcomes })
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Shot-level win probability added (WPA).
+ *
+ * The historical tables only know the state between ends, so the win
+ * probability after a shot is estimated from the stones in play: if the end
+ * stopped now, the team with shot rock would score its counting stones. That
+ * projected result is weighted by how much of the end has been played, and
+ * the rest by the win probability at the start of the end, so early shots
+ * move the needle less than last-rock draws. The last recorded shot of an
+ * end takes the recorded end score, which makes the WPA of an end's shots
+ * add up to the end's swing in the game's win-probability chart.
+ */
+import type {
+  GameShots,
+  Hammer,
+  ShotWinProbability,
+  StoneColor,
+  StonePosition,
+  WinProbabilityTable
+} from "./domain";
+import { countingStones } from "./house-analysis";
+import { detectGameFormat } from "./positions";
+import {
+  nextHammer,
+  redWinProbability,
+  redWinProbabilityAfterEnd
+} from "./win-probability";
+
+const SHOTS_PER_END = { fours: 16, mixed_doubles: 10 };
+
+/**
+ * Hammer after an end that would finish with this score
+ */
+const hammerAfter = (hammer: Hammer, scoring: StoneColor | null): Hammer =>
+  scoring === null ? hammer : scoring === "red" ? "yellow" : "red";
+
+/**
+ * Red's estimated win probability with the stones where they are and
+ * `played` of `shotsPerEnd` shots thrown
+ */
+export function positionWinProbability(
+  table: WinProbabilityTable,
+  {
+    endNumber,
+    differential,
+    hammer,
+    stones,
+    played,
+    shotsPerEnd
+  }: {
+    endNumber: number;
+    /** Red's lead going into the end */
+    differential: number;
+    hammer: Hammer;
+    stones: StonePosition[];
+    played: number;
+    shotsPerEnd: number;
+  }
+): number {
+  const start = redWinProbability(table, endNumber, differential, hammer);
+  const counting = countingStones(stones);
+  const projected = counting
+    ? differential +
+      (counting.color === "red" ? counting.count : -counting.count)
+    : differential;
+  const ifEndedNow = redWinProbabilityAfterEnd(
+    table,
+    endNumber,
+    projected,
+    hammerAfter(hammer, counting?.color ?? null)
+  );
+  const weight = Math.min(1, played / shotsPerEnd);
+  return (1 - weight) * start + weight * ifEndedNow;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Win probability before and after every shot of a game, in throwing order.
+ * Ends after the first one with a missing score are left out, since the
+ * running score is unknown from there on.
+ */
+export function shotWinProbabilities(
+  table: WinProbabilityTable,
+  { event, ends }: GameShots
+): ShotWinProbability[] {
+  const maxShotNumber = Math.max(
+    0,
+    ...ends.flatMap(({ shots }) => shots.map(({ shot }) => shot.number))
+  );
+  const shotsPerEnd =
+    SHOTS_PER_END[detectGameFormat({ eventName: event.name, maxShotNumber })];
+
+  const result: ShotWinProbability[] = [];
+  let differential = 0;
+  let previousHammer: Hammer = "unknown";
+  for (const { end, shots } of [...ends].sort(
+    (a, b) => a.end.number - b.end.number
+  )) {
+    const hammer = end.hammer !== "unknown" ? end.hammer : previousHammer;
+    let before = redWinProbability(table, end.number, differential, hammer);
+    const endScored = end.scoreRed !== null && end.scoreYellow !== null;
+
+    shots.forEach(({ shot, stones }, i) => {
+      const isLast = i === shots.length - 1;
+      const after =
+        isLast && endScored
+          ? redWinProbabilityAfterEnd(
+              table,
+              end.number,
+              differential + (end.scoreRed ?? 0) - (end.scoreYellow ?? 0),
+              nextHammer(end)
+            )
+          : positionWinProbability(table, {
+              endNumber: end.number,
+              differential,
+              hammer,
+              stones,
+              played: shot.number,
+              shotsPerEnd
+            });
+      // From the throwing team's side
+      const sign = shot.color === "red" ? 1 : -1;
+      const teamBefore = shot.color === "red" ? before : 1 - before;
+      result.push({
+        shotId: shot.id,
+        endId: end.id,
+        endNumber: end.number,
+        shotNumber: shot.number,
+        color: shot.color,
+        team: shot.team,
+        playerName: shot.playerName,
+        type: shot.type,
+        percentScore: shot.percentScore,
+        before: round(teamBefore),
+        after: round(teamBefore + sign * (after - before)),
+        wpa: round(sign * (after - before))
+      });
+      before = after;
+    });
+
+    if (!endScored) break;
+    differential += (end.scoreRed ?? 0) - (end.scoreYellow ?? 0);
+    previousHammer = nextHammer(end);
+  }
+  return result;
+}
+
+/**
+ * The shots that swung the game most, biggest change first
+ */
+export const rankKeyShots = (shots: ShotWinProbability[], limit = 10) =>
+  [...shots].sort((a, b) => Math.abs(b.wpa) - Math.abs(a.wpa)).slice(0, limit);
@@ -0,0 +1,566 @@
+/**
+ * Read-only SQL guard for the queryDatabase tool.
+ *
+ * Tokenizes a statement (strings, quoted identifiers and comments are handled
+ * so keywords hidden inside them don't count), checks that it is a single
+ * SELECT / WITH ... SELECT against the known curling tables, and enforces a
+ * maximum top-level LIMIT. Rejections carry a machine-readable code plus a hint
+ * the model can use to fix its query.
+ */
+
+export const CURLING_TABLES = [
+  "events",
+  "games",
+  "ends",
+  "shots",
+  "stone_positions",
+  // Normalized views, see migrations/0001_normalized_views.sql
+  "games_normalized",
+  "ends_normalized",
+  "shots_normalized",
+  // Player identities, see migrations/0002_player_aliases.sql
+  "players",
+  "player_aliases",
+  "shots_canonical",
+  // Derived positions, see migrations/0003_shot_positions.sql
+  "shot_positions",
+  // Layout signatures, see migrations/0004_position_signatures.sql and
+  // 0006_position_signatures_table.sql
+  "position_signatures",
+  // Stones with every end the same way round, see
+  // migrations/0005_stone_positions_normalized.sql
+  "stone_positions_normalized"
+] as const;
+
+export const DEFAULT_MAX_LIMIT = 500;
+
+export type SqlRejectionCode =
+  | "EMPTY_QUERY"
+  | "SYNTAX_ERROR"
+  | "MULTIPLE_STATEMENTS"
+  | "NOT_A_SELECT"
+  | "FORBIDDEN_KEYWORD"
+  | "FORBIDDEN_FUNCTION"
+  | "UNKNOWN_TABLE"
+  | "INVALID_LIMIT";
+
+export type SqlGuardResult =
+  | {
+      ok: true;
+      /** The statement to execute, with the LIMIT injected or clamped */
+      sql: string;
+      /** The effective row limit of the statement */
+      limit: number;
+      /** Adjustments made to the original query */
+      notes: string[];
+    }
+  | {
+      ok: false;
+      code: SqlRejectionCode;
+      message: string;
+      hint: string;
+    };
+
+export interface SqlGuardOptions {
+  /** Tables and views the query may read from */
+  allowedTables?: readonly string[];
+  /** Maximum number of rows a query may return */
+  maxLimit?: number;
+}
+
+type TokenKind = "word" | "quoted" | "string" | "number" | "param" | "punct";
+
+interface Token {
+  kind: TokenKind;
+  /** Lowercased keyword / identifier name, or the literal text otherwise */
+  value: string;
+  start: number;
+  end: number;
+  depth: number;
+}
+
+// Statements and clauses that can modify the database or its connection
+const FORBIDDEN_KEYWORDS = new Set([
+  "insert",
+  "update",
+  "delete",
+  "replace",
+  "upsert",
+  "merge",
+  "create",
+  "drop",
+  "alter",
+  "truncate",
+  "attach",
+  "detach",
+  "pragma",
+  "vacuum",
+  "reindex",
+  "analyze",
+  "begin",
+  "commit",
+  "rollback",
+  "savepoint",
+  "release",
+  "transaction",
+  "into"
+]);
+
+// Keywords that are also the names of harmless scalar functions
+const FUNCTION_KEYWORDS = new Set(["replace"]);
+
+const FORBIDDEN_FUNCTIONS = new Set([
+  "load_extension",
+  "readfile",
+  "writefile",
+  "edit",
+  "fts3_tokenizer"
+]);
+
+// Clause keywords that end a FROM list at the same nesting depth. ON and
+// USING don't: `FROM a JOIN b ON a.id = b.id, c` still lists c as a table
+const FROM_TERMINATORS = new Set([
+  "where",
+  "group",
+  "having",
+  "order",
+  "limit",
+  "window",
+  "union",
+  "except",
+  "intersect",
+  "select"
+]);
+
+// Keywords that start a subquery after an opening parenthesis
+const SUBQUERY_STARTS = new Set(["select", "with", "values"]);
+
+class SqlSyntaxError extends Error {}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // -- line comment
+    if (ch === "-" && sql[i + 1] === "-") {
+      const newline = sql.indexOf("\n", i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+
+    // /* block comment */
+    if (ch === "/" && sql[i + 1] === "*") {
+      const close = sql.indexOf("*/", i + 2);
+      if (close === -1) throw new SqlSyntaxError("Unterminated block comment");
+      i = close + 2;
+      continue;
+    }
+
+    // 'string literal' with '' escapes
+    if (ch === "'") {
+      const start = i;
+      i++;
+      while (true) {
+        if (i >= sql.length)
+          throw new SqlSyntaxError("Unterminated string literal");
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        i++;
+      }
+      tokens.push({
+        kind: "string",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+        depth
+      });
+      continue;
+    }
+
+    // "identifier", `identifier` or [identifier]
+    if (ch === '"' || ch === "`" || ch === "[") {
+      const closeChar = ch === "[" ? "]" : ch;
+      const start = i;
+      let name = "";
+      i++;
+      while (true) {
+        if (i >= sql.length)
+          throw new SqlSyntaxError("Unterminated quoted identifier");
+        if (sql[i] === closeChar) {
+          if (closeChar !== "]" && sql[i + 1] === closeChar) {
+            name += closeChar;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        name += sql[i];
+        i++;
+      }
+      tokens.push({
+        kind: "quoted",
+        value: name.toLowerCase(),
+        start,
+        end: i,
+        depth
+      });
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(sql[i + 1] ?? ""))) {
+      const start = i;
+      const match = /^(0x[0-9a-f]+|[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?)/i.exec(
+        sql.slice(i)
+      );
+      i += match ? match[0].length : 1;
+      tokens.push({
+        kind: "number",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+        depth
+      });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < sql.length && /[A-Za-z0-9_$]/.test(sql[i])) i++;
+      tokens.push({
+        kind: "word",
+        value: sql.slice(start, i).toLowerCase(),
+        start,
+        end: i,
+        depth
+      });
+      continue;
+    }
+
+    // ?, ?1, :name, @name, $name
+    if (ch === "?" || ch === ":" || ch === "@" || ch === "$") {
+      const start = i;
+      i++;
+      while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i])) i++;
+      tokens.push({
+        kind: "param",
+        value: sql.slice(start, i),
+        start,
+        end: i,
+        depth
+      });
+      continue;
+    }
+
+    if (ch === ")") {
+      depth--;
+      if (depth < 0) throw new SqlSyntaxError("Unbalanced parentheses");
+    }
+    tokens.push({ kind: "punct", value: ch, start: i, end: i + 1, depth });
+    if (ch === "(") depth++;
+    i++;
+  }
+
+  if (depth !== 0) throw new SqlSyntaxError("Unbalanced parentheses");
+  return tokens;
+}
+
+const isWord = (token: Token | undefined, value?: string) =>
+  token?.kind === "word" && (value === undefined || token.value === value);
+
+const isPunct = (token: Token | undefined, value: string) =>
+  token?.kind === "punct" && token.value === value;
+
+/**
+ * Collect the names of common table expressions so they can be referenced
+ * like tables: `WITH a AS (...), b(x, y) AS (...) SELECT ...`
+ */
+function collectCteNames(tokens: Token[]): Set<string> {
+  const names = new Set<string>();
+  // Depths at which a WITH clause is currently open
+  const openWithDepths: number[] = [];
+
+  tokens.forEach((token, index) => {
+    const withDepth = openWithDepths[openWithDepths.length - 1];
+    if (isWord(token, "with")) {
+      openWithDepths.push(token.depth);
+      return;
+    }
+    if (withDepth === undefined || token.depth !== withDepth) return;
+    // The main SELECT closes the WITH clause
+    if (isWord(token, "select")) {
+      openWithDepths.pop();
+      return;
+    }
+    if (token.kind !== "word" && token.kind !== "quoted") return;
+    if (isWord(token, "recursive")) return;
+
+    const previous = tokens[index - 1];
+    if (
+      isWord(previous, "with") ||
+      isWord(previous, "recursive") ||
+      isPunct(previous, ",")
+    ) {
+      names.add(token.value);
+    }
+  });
+  return names;
+}
+
+/**
+ * Find every table referenced in a FROM / JOIN clause, including
+ * comma-separated FROM lists and `x IN table`. A name followed by arguments
+ * in those places is a table-valued function (e.g. pragma_table_info) and
+ * counts as a table too. Subqueries in parentheses are skipped because their
+ * own FROM clauses are checked separately.
+ */
+function collectTableReferences(tokens: Token[]): Token[] {
+  const references: Token[] = [];
+  // Depths at which a FROM list is currently open
+  const openFromDepths: number[] = [];
+  // Parentheses that open a table list rather than a subquery
+  const tableListParens = new Set<number>();
+
+  // The table named at `at`: `FROM (SELECT ...)` is a subquery, checked on
+  // its own, but `FROM (a, b JOIN c)` is a parenthesized table list
+  const addTableAt = (at: number) => {
+    const name = tokens[at];
+    if (isPunct(name, "(")) {
+      const inner = tokens[at + 1];
+      if (inner?.kind === "word" && SUBQUERY_STARTS.has(inner.value)) return;
+      tableListParens.add(at);
+      addTableAt(at + 1);
+      return;
+    }
+    if (!name || (name.kind !== "word" && name.kind !== "quoted")) return;
+
+    // schema.table -> table
+    if (isPunct(tokens[at + 1], ".")) {
+      const qualified = tokens[at + 2];
+      if (qualified) references.push({ ...qualified, start: name.start });
+      return;
+    }
+    references.push(name);
+  };
+
+  tokens.forEach((token, index) => {
+    while (
+      openFromDepths.length > 0 &&
+      token.depth < openFromDepths[openFromDepths.length - 1]
+    ) {
+      openFromDepths.pop();
+    }
+    if (tableListParens.has(index)) openFromDepths.push(token.depth + 1);
+
+    const expectsTable =
+      isWord(token, "from") ||
+      isWord(token, "join") ||
+      isWord(token, "in") ||
+      (isPunct(token, ",") &&
+        openFromDepths[openFromDepths.length - 1] === token.depth);
+
+    if (isWord(token, "from")) {
+      openFromDepths.push(token.depth);
+    } else if (
+      token.kind === "word" &&
+      FROM_TERMINATORS.has(token.value) &&
+      openFromDepths[openFromDepths.length - 1] === token.depth
+    ) {
+      openFromDepths.pop();
+    }
+
+    if (!expectsTable) return;
+
+    // `x IN (...)` is a value list or a subquery, never a table list
+    if (isWord(token, "in") && isPunct(tokens[index + 1], "(")) return;
+    addTableAt(index + 1);
+  });
+
+  return references;
+}
+
+interface LimitClause {
+  /** Index of the LIMIT keyword */
+  index: number;
+  /** Token holding the row count */
+  count: Token;
+}
+
+function findTopLevelLimit(tokens: Token[]): LimitClause | "invalid" | null {
+  let limitIndex = -1;
+  tokens.forEach((token, index) => {
+    if (token.depth === 0 && isWord(token, "limit")) limitIndex = index;
+  });
+  if (limitIndex === -1) return null;
+
+  const first = tokens[limitIndex + 1];
+  const afterFirst = tokens[limitIndex + 2];
+  // LIMIT offset, count
+  const count = isPunct(afterFirst, ",") ? tokens[limitIndex + 3] : first;
+  const clauseEnd = isPunct(afterFirst, ",") ? limitIndex + 4 : limitIndex + 2;
+  const rest = tokens.slice(clauseEnd);
+
+  const offsetIsLiteral =
+    rest.length === 0 ||
+    (isWord(rest[0], "offset") &&
+      rest.length === 2 &&
+      (rest[1].kind === "number" || rest[1].kind === "param"));
+
+  if (
+    !count ||
+    count.kind !== "number" ||
+    !/^[0-9]+$/.test(count.value) ||
+    !offsetIsLiteral ||
+    (isPunct(afterFirst, ",") &&
+      first.kind !== "number" &&
+      first.kind !== "param")
+  ) {
+    return "invalid";
+  }
+  return { index: limitIndex, count };
+}
+
+const reject = (
+  code: SqlRejectionCode,
+  message: string,
+  hint: string
+): SqlGuardResult => ({ ok: false, code, message, hint });
+
+/**
+ * Validate a model-supplied query and return a safe, bounded statement or a
+ * structured rejection.
+ */
+export function guardSelectQuery(
+  query: string,
+  options: SqlGuardOptions = {}
+): SqlGuardResult {
+  const allowedTables = new Set(
+    (options.allowedTables ?? CURLING_TABLES).map((t) => t.toLowerCase())
+  );
+  const maxLimit = options.maxLimit ?? DEFAULT_MAX_LIMIT;
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(query);
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      return reject(
+        "SYNTAX_ERROR",
+        error.message,
+        "Check that every quote, comment and parenthesis is closed."
+      );
+    }
+    throw error;
+  }
+
+  // Allow (and drop) trailing semicolons, reject any others
+  while (tokens.length > 0 && isPunct(tokens[tokens.length - 1], ";")) {
+    tokens.pop();
+  }
+  if (tokens.length === 0) {
+    return reject(
+      "EMPTY_QUERY",
+      "The query is empty",
+      "Provide a single SELECT statement."
+    );
+  }
+  if (tokens.some((token) => isPunct(token, ";"))) {
+    return reject(
+      "MULTIPLE_STATEMENTS",
+      "Only a single statement may be executed",
+      "Remove the extra statements and run each SELECT in its own tool call."
+    );
+  }
+
+  const first = tokens[0];
+  if (!isWord(first, "select") && !isWord(first, "with")) {
+    return reject(
+      "NOT_A_SELECT",
+      `Statements starting with '${first.value.toUpperCase()}' are not allowed`,
+      "The database is read-only. Rewrite the request as a SELECT (optionally with a WITH clause)."
+    );
+  }
+
+  for (const [index, token] of tokens.entries()) {
+    if (token.kind !== "word") continue;
+    const isCall = isPunct(tokens[index + 1], "(");
+    if (FORBIDDEN_FUNCTIONS.has(token.value) && isCall) {
+      return reject(
+        "FORBIDDEN_FUNCTION",
+        `The function ${token.value}() is not allowed`,
+        "Use standard SQL expressions and aggregate functions only."
+      );
+    }
+    if (
+      FORBIDDEN_KEYWORDS.has(token.value) &&
+      !(FUNCTION_KEYWORDS.has(token.value) && isCall) &&
+      !isPunct(tokens[index - 1], ".")
+    ) {
+      return reject(
+        "FORBIDDEN_KEYWORD",
+        `The keyword ${token.value.toUpperCase()} is not allowed`,
+        "Only read-only SELECT queries can be executed; remove any statement that writes or changes settings."
+      );
+    }
+  }
+
+  const cteNames = collectCteNames(tokens);
+  for (const reference of collectTableReferences(tokens)) {
+    if (allowedTables.has(reference.value) || cteNames.has(reference.value)) {
+      continue;
+    }
+    return reject(
+      "UNKNOWN_TABLE",
+      `Table '${reference.value}' is not available`,
+      `Query only these tables: ${[...allowedTables].join(", ")}.`
+    );
+  }
+
+  const lastToken = tokens[tokens.length - 1];
+  const body = query.slice(0, lastToken.end);
+  const limit = findTopLevelLimit(tokens);
+
+  if (limit === "invalid") {
+    return reject(
+      "INVALID_LIMIT",
+      "The top-level LIMIT must be a plain integer",
+      `End the query with LIMIT n (n <= ${maxLimit}), optionally followed by OFFSET m.`
+    );
+  }
+
+  if (limit === null) {
+    return {
+      ok: true,
+      sql: `${body}\nLIMIT ${maxLimit}`,
+      limit: maxLimit,
+      notes: [`Added LIMIT ${maxLimit}`]
+    };
+  }
+
+  const requested = Number(limit.count.value);
+  if (requested <= maxLimit) {
+    return { ok: true, sql: body, limit: requested, notes: [] };
+  }
+
+  return {
+    ok: true,
+    sql: `${body.slice(0, limit.count.start)}${maxLimit}${body.slice(limit.count.end)}`,
+    limit: maxLimit,
+    notes: [`Reduced LIMIT ${requested} to the maximum of ${maxLimit}`]
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Stone position diffing between consecutive stone_positions snapshots.
+ *
+ * Snapshots are unordered lists of stones, so stones of each color are
+ * matched by minimizing the total distance travelled. A stone that would have
+ * to travel further than it costs to call it removed + delivered is treated as
+ * two separate stones.
+ */
+import { distanceBetween as distance } from "./coordinates";
+import type { StoneColor, StonePosition } from "./domain";
+
+export type StoneChange = "delivered" | "moved" | "removed" | "unchanged";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * What happened to one stone: `from` is its position before the shot (null
+ * for a delivered stone), `to` its position after (null for a removed stone)
+ */
+export type StoneTransition =
+  | { color: StoneColor; change: "delivered"; from: null; to: Point }
+  | { color: StoneColor; change: "removed"; from: Point; to: null }
+  | {
+      color: StoneColor;
+      change: "moved" | "unchanged";
+      from: Point;
+      to: Point;
+    };
+
+export interface StoneDiffOptions {
+  /** Distances at or below this are parser jitter rather than movement */
+  moveTolerance?: number;
+  /** Cost of leaving a stone unmatched (removed or delivered) */
+  unmatchedCost?: number;
+}
+
+// Both in stone_positions units, 20 per foot (see coordinates.ts)
+const DEFAULT_MOVE_TOLERANCE = 3;
+const DEFAULT_UNMATCHED_COST = 150;
+
+// Above this many stones of one color the exact matching gets expensive;
+// the parser never reports more than 8 per color for valid data
+const MAX_EXACT_MATCH = 12;
+
+/**
+ * Pair each stone in `before` with at most one stone in `after`, returning
+ * the index in `after` (or null when unmatched) for every stone in `before`.
+ */
+export function matchStones(
+  before: Point[],
+  after: Point[],
+  unmatchedCost: number
+): Array<number | null> {
+  if (after.length > MAX_EXACT_MATCH) {
+    return matchGreedy(before, after, unmatchedCost);
+  }
+
+  const fullMask = 1 << after.length;
+  // best[i][mask]: lowest cost for before[i..] with `mask` of after used
+  const best: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(fullMask).fill(Number.POSITIVE_INFINITY)
+  );
+  const choice: number[][] = Array.from({ length: before.length }, () =>
+    new Array<number>(fullMask).fill(-1)
+  );
+
+  for (let mask = 0; mask < fullMask; mask++) {
+    const unusedAfter = after.length - popcount(mask);
+    best[before.length][mask] = unusedAfter * unmatchedCost;
+  }
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let mask = 0; mask < fullMask; mask++) {
+      // Leave before[i] unmatched (removed)
+      let cost = unmatchedCost + best[i + 1][mask];
+      let pick = -1;
+      for (let j = 0; j < after.length; j++) {
+        if (mask & (1 << j)) continue;
+        const candidate =
+          distance(before[i], after[j]) + best[i + 1][mask | (1 << j)];
+        if (candidate < cost) {
+          cost = candidate;
+          pick = j;
+        }
+      }
+      best[i][mask] = cost;
+      choice[i][mask] = pick;
+    }
+  }
+
+  const matches: Array<number | null> = [];
+  let mask = 0;
+  for (let i = 0; i < before.length; i++) {
+    const pick = choice[i][mask];
+    matches.push(pick === -1 ? null : pick);
+    if (pick !== -1) mask |= 1 << pick;
+  }
+  return matches;
+}
+
+function matchGreedy(
+  before: Point[],
+  after: Point[],
+  unmatchedCost: number
+): Array<number | null> {
+  const pairs = before
+    .flatMap((b, i) => after.map((a, j) => ({ i, j, d: distance(b, a) })))
+    .filter(({ d }) => d < 2 * unmatchedCost)
+    .sort((p, q) => p.d - q.d);
+
+  const matches: Array<number | null> = before.map(() => null);
+  const usedAfter = new Set<number>();
+  for (const { i, j } of pairs) {
+    if (matches[i] !== null || usedAfter.has(j)) continue;
+    matches[i] = j;
+    usedAfter.add(j);
+  }
+  return matches;
+}
+
+function popcount(mask: number) {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+/**
+ * Classify every stone across two consecutive snapshots as delivered, moved,
+ * removed or unchanged.
+ */
+export function diffStonePositions(
+  before: StonePosition[],
+  after: StonePosition[],
+  options: StoneDiffOptions = {}
+): StoneTransition[] {
+  const moveTolerance = options.moveTolerance ?? DEFAULT_MOVE_TOLERANCE;
+  const unmatchedCost = options.unmatchedCost ?? DEFAULT_UNMATCHED_COST;
+  const transitions: StoneTransition[] = [];
+
+  for (const color of ["red", "yellow"] as const) {
+    const beforeOfColor = before.filter((stone) => stone.color === color);
+    const afterOfColor = after.filter((stone) => stone.color === color);
+    const matches = matchStones(beforeOfColor, afterOfColor, unmatchedCost);
+    const matchedAfter = new Set<number>();
+
+    beforeOfColor.forEach((stone, i) => {
+      const from = { x: stone.x, y: stone.y };
+      const match = matches[i];
+      if (match === null) {
+        transitions.push({ color, change: "removed", from, to: null });
+        return;
+      }
+      matchedAfter.add(match);
+      const target = afterOfColor[match];
+      const to = { x: target.x, y: target.y };
+      transitions.push({
+        color,
+        change: distance(from, to) <= moveTolerance ? "unchanged" : "moved",
+        from,
+        to
+      });
+    });
+
+    afterOfColor.forEach((stone, j) => {
+      if (matchedAfter.has(j)) return;
+      transitions.push({
+        color,
+        change: "delivered",
+        from: null,
+        to: { x: stone.x, y: stone.y }
+      });
+    });
+  }
+
+  return transitions;
+}
+
+/**
+ * Count the transitions of each kind, e.g. for a "2 moved, 1 removed" summary
+ */
+export function summarizeStoneDiff(
+  transitions: StoneTransition[]
+): Record<StoneChange, number> {
+  const summary: Record<StoneChange, number> = {
+    delivered: 0,
+    moved: 0,
+    removed: 0,
+    unchanged: 0
+  };
+  for (const { change } of transitions) summary[change]++;
+  return summary;
+}
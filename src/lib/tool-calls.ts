@@ -0,0 +1,26 @@
+/**
+ * Tool calls the chat UI reacts to, such as opening a shot, a replay or a
+ * scoreboard.
+ *
+ * A reloaded conversation comes back with every past tool result. Those were
+ * acted on when they first arrived, so they are marked as handled up front;
+ * otherwise each one would navigate again and override the link the page was
+ * reloaded on.
+ */
+import { isToolUIPart, type UIMessage } from "ai";
+
+/**
+ * IDs of the tool calls in `messages` that already have a result
+ */
+export function completedToolCallIds(messages: UIMessage[]): Set<string> {
+  const ids = new Set<string>();
+  for (const message of messages) {
+    if (message.role !== "assistant") continue;
+    for (const part of message.parts) {
+      if (isToolUIPart(part) && part.state === "output-available") {
+        ids.add(part.toolCallId);
+      }
+    }
+  }
+  return ids;
+}
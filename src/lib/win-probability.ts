@@ -0,0 +1,384 @@
+/**
+ * Historical win probability: P(win | end, score differential, hammer).
+ *
+ * Every decided game contributes one observation per end for each team: the
+ * state at the start of the end (the team's lead and whether it has hammer)
+ * and whether that team went on to win. Men's, women's and mixed doubles
+ * games get separate tables, since mixed doubles has 8 ends and scores more
+ * per end.
+ *
+ * Late-game states with big leads are rare, so each cell is smoothed towards
+ * the same state in the neighbouring ends, which is itself smoothed towards
+ * a simple logistic prior on the lead per remaining end. Both teams of a
+ * game are counted, so a team's probability and its opponent's always add
+ * up to 1.
+ */
+import type {
+  Division,
+  End,
+  GameSummary,
+  GameWinProbability,
+  Hammer,
+  StoneColor,
+  WinProbabilityCell,
+  WinProbabilityPoint,
+  WinProbabilityTable
+} from "./domain";
+import { cached } from "./cache";
+import { listGameSummaries } from "./repository";
+
+export const DIVISIONS: Division[] = ["men", "women", "mixed_doubles"];
+
+const REGULATION_ENDS: Record<Division, number> = {
+  men: 10,
+  women: 10,
+  mixed_doubles: 8
+};
+
+// Leads beyond this are counted as this; such games are usually conceded
+const MAX_DIFFERENTIAL = 6;
+
+// Pseudo-games given to the prior of each cell
+const PRIOR_WEIGHT = 8;
+
+// Hammer is worth about half a point in the prior
+const HAMMER_VALUE = 0.5;
+const PRIOR_SLOPE = 1.5;
+
+/**
+ * Division of an event from its name, or null when it can't be told
+ * (e.g. a junior championship listing men's and women's games together)
+ */
+export function detectDivision(eventName: string): Division | null {
+  const name = eventName.toLowerCase();
+  if (/mixed\s+doubles/.test(name)) return "mixed_doubles";
+  if (/\b(women|ladies)/.test(name)) return "women";
+  if (/\bmen/.test(name)) return "men";
+  return null;
+}
+
+/**
+ * The table to read a game from; fours events that don't name a division
+ * use the men's table
+ */
+export const divisionForEvent = (eventName: string): Division =>
+  detectDivision(eventName) ?? "men";
+
+const clampDifferential = (differential: number) =>
+  Math.max(-MAX_DIFFERENTIAL, Math.min(MAX_DIFFERENTIAL, differential));
+
+// Extra ends all share the row after the last regulation end
+const tableEnd = (end: number, regulationEnds: number) =>
+  Math.max(1, Math.min(regulationEnds + 1, end));
+
+const EMPTY_CELL = { games: 0, wins: 0 };
+
+const cellKey = (end: number, differential: number, hammer: boolean) =>
+  `${end}:${differential}:${hammer ? 1 : 0}`;
+
+/**
+ * Prior win probability from the lead, counting hammer as half a point, in
+ * units of the square root of the ends left
+ */
+function priorProbability(
+  end: number,
+  differential: number,
+  hammer: boolean,
+  regulationEnds: number
+) {
+  const endsLeft = Math.max(1, regulationEnds - end + 1);
+  const lead = differential + (hammer ? HAMMER_VALUE : -HAMMER_VALUE);
+  return 1 / (1 + Math.exp((-PRIOR_SLOPE * lead) / Math.sqrt(endsLeft)));
+}
+
+/**
+ * Who has hammer in the end after this one: the team that didn't score, or
+ * the same team after a blank
+ */
+export function nextHammer(end: End): Hammer {
+  if ((end.scoreRed ?? 0) > 0) return "yellow";
+  if ((end.scoreYellow ?? 0) > 0) return "red";
+  if (end.scoreRed === 0 && end.scoreYellow === 0) return end.hammer;
+  return "unknown";
+}
+
+/**
+ * The states a game went through, from red's side, until the first end with
+ * a missing score
+ */
+export function endStates({ ends }: GameSummary) {
+  const states: Array<{ end: number; differential: number; hammer: Hammer }> =
+    [];
+  let differential = 0;
+  let previous: End | undefined;
+  for (const end of [...ends].sort((a, b) => a.number - b.number)) {
+    const hammer =
+      end.hammer !== "unknown"
+        ? end.hammer
+        : previous
+          ? nextHammer(previous)
+          : "unknown";
+    states.push({ end: end.number, differential, hammer });
+    if (end.scoreRed === null || end.scoreYellow === null) break;
+    differential += end.scoreRed - end.scoreYellow;
+    previous = end;
+  }
+  return states;
+}
+
+/**
+ * Build the win-probability table of a division from its decided games
+ */
+export function buildWinProbabilityTable(
+  games: GameSummary[],
+  division: Division
+): WinProbabilityTable {
+  const regulationEnds = REGULATION_ENDS[division];
+  const counts = new Map<string, { games: number; wins: number }>();
+  const count = (key: string, won: boolean) => {
+    const cell = counts.get(key) ?? { games: 0, wins: 0 };
+    cell.games++;
+    if (won) cell.wins++;
+    counts.set(key, cell);
+  };
+
+  let decided = 0;
+  for (const summary of games) {
+    const { game, event } = summary;
+    if (game.isWinLoss || (game.winner !== "red" && game.winner !== "yellow")) {
+      continue;
+    }
+    if (detectDivision(event.name) !== division) continue;
+    decided++;
+
+    for (const state of endStates(summary)) {
+      if (state.hammer === "unknown") continue;
+      const end = tableEnd(state.end, regulationEnds);
+      for (const color of ["red", "yellow"] as StoneColor[]) {
+        const sign = color === "red" ? 1 : -1;
+        count(
+          cellKey(
+            end,
+            clampDifferential(sign * state.differential),
+            state.hammer === color
+          ),
+          game.winner === color
+        );
+      }
+    }
+  }
+
+  const cells: WinProbabilityCell[] = [];
+  for (let end = 1; end <= regulationEnds + 1; end++) {
+    for (let d = -MAX_DIFFERENTIAL; d <= MAX_DIFFERENTIAL; d++) {
+      for (const hammer of [true, false]) {
+        const own = counts.get(cellKey(end, d, hammer)) ?? EMPTY_CELL;
+        // Pooled with the same state one end earlier and later
+        const neighbours = { ...own };
+        for (const e of [end - 1, end + 1]) {
+          const cell = counts.get(cellKey(e, d, hammer)) ?? EMPTY_CELL;
+          neighbours.games += cell.games;
+          neighbours.wins += cell.wins;
+        }
+        const prior = priorProbability(end, d, hammer, regulationEnds);
+        const neighbourProbability =
+          (neighbours.wins + PRIOR_WEIGHT * prior) /
+          (neighbours.games + PRIOR_WEIGHT);
+        cells.push({
+          end,
+          differential: d,
+          hammer,
+          games: own.games,
+          wins: own.wins,
+          probability:
+            Math.round(
+              ((own.wins + PRIOR_WEIGHT * neighbourProbability) /
+                (own.games + PRIOR_WEIGHT)) *
+                1000
+            ) / 1000
+        });
+      }
+    }
+  }
+
+  return {
+    division,
+    games: decided,
+    regulationEnds,
+    maxDifferential: MAX_DIFFERENTIAL,
+    cells
+  };
+}
+
+/**
+ * One table per division
+ */
+export function buildWinProbabilityTables(
+  games: GameSummary[]
+): Record<Division, WinProbabilityTable> {
+  return {
+    men: buildWinProbabilityTable(games, "men"),
+    women: buildWinProbabilityTable(games, "women"),
+    mixed_doubles: buildWinProbabilityTable(games, "mixed_doubles")
+  };
+}
+
+/**
+ * The tables of every game in the database, built once per isolate; the data
+ * only changes on import
+ */
+export const getWinProbabilityTables = cached(async (db: D1Database) =>
+  buildWinProbabilityTables(await listGameSummaries(db, {}))
+);
+
+export interface GameState {
+  /** The end about to be played */
+  end: number;
+  /** The team's score minus the opponent's */
+  differential: number;
+  hammer: boolean;
+}
+
+/**
+ * The table cell of a state. Differentials and extra ends beyond the table
+ * are clamped to its edges.
+ */
+export function findWinProbabilityCell(
+  table: WinProbabilityTable,
+  { end, differential, hammer }: GameState
+): WinProbabilityCell | undefined {
+  const e = tableEnd(end, table.regulationEnds);
+  const d = Math.max(
+    -table.maxDifferential,
+    Math.min(table.maxDifferential, differential)
+  );
+  return table.cells.find(
+    (c) => c.end === e && c.differential === d && c.hammer === hammer
+  );
+}
+
+/**
+ * A team's win probability at the start of an end
+ */
+export const lookupWinProbability = (
+  table: WinProbabilityTable,
+  state: GameState
+) => findWinProbabilityCell(table, state)?.probability ?? 0.5;
+
+export interface WinProbabilityEstimate {
+  probability: number;
+  /** Games that passed through the state */
+  games: number;
+  /**
+   * "history" when games passed through the state, "prior" when none did and
+   * the probability only comes from neighbouring ends and the logistic prior
+   */
+  basis: "history" | "prior";
+}
+
+/**
+ * A team's win probability at the start of an end and what it rests on, or
+ * null when the table has no cell for the state
+ */
+export function estimateStateProbability(
+  table: WinProbabilityTable,
+  state: GameState
+): WinProbabilityEstimate | null {
+  const cell = findWinProbabilityCell(table, state);
+  if (!cell) return null;
+  return {
+    probability: cell.probability,
+    games: cell.games,
+    basis: cell.games > 0 ? "history" : "prior"
+  };
+}
+
+/**
+ * Red's win probability at the start of an end, from red's differential;
+ * an unknown hammer counts as either team's with equal odds
+ */
+export const redWinProbability = (
+  table: WinProbabilityTable,
+  end: number,
+  differential: number,
+  hammer: Hammer
+) =>
+  hammer === "unknown"
+    ? (lookupWinProbability(table, { end, differential, hammer: true }) +
+        lookupWinProbability(table, { end, differential, hammer: false })) /
+      2
+    : lookupWinProbability(table, {
+        end,
+        differential,
+        hammer: hammer === "red"
+      });
+
+/**
+ * Red's win probability once an end is over: certain when it was the last
+ * regulation end or an extra end and someone leads, otherwise read at the
+ * start of the next end
+ */
+export function redWinProbabilityAfterEnd(
+  table: WinProbabilityTable,
+  end: number,
+  differential: number,
+  hammer: Hammer
+) {
+  if (end >= table.regulationEnds && differential !== 0) {
+    return differential > 0 ? 1 : 0;
+  }
+  return redWinProbability(table, end + 1, differential, hammer);
+}
+
+/**
+ * Red's win probability before the first end and after each end of a game;
+ * the last point is the result when the game was decided
+ */
+export function gameWinProbability(
+  table: WinProbabilityTable,
+  summary: GameSummary
+): GameWinProbability {
+  const { game } = summary;
+  const points: WinProbabilityPoint[] = endStates(summary).map((state) => ({
+    afterEnd: state.end - 1,
+    differential: state.differential,
+    hammer: state.hammer,
+    probabilityRed: redWinProbability(
+      table,
+      state.end,
+      state.differential,
+      state.hammer
+    )
+  }));
+
+  const lastEnd = [...summary.ends].sort((a, b) => b.number - a.number)[0];
+  const complete =
+    lastEnd &&
+    points.length === summary.ends.length &&
+    lastEnd.scoreRed !== null &&
+    lastEnd.scoreYellow !== null;
+  if (complete) {
+    const differential =
+      (points[points.length - 1]?.differential ?? 0) +
+      (lastEnd.scoreRed ?? 0) -
+      (lastEnd.scoreYellow ?? 0);
+    points.push({
+      afterEnd: lastEnd.number,
+      differential,
+      hammer: nextHammer(lastEnd),
+      probabilityRed:
+        game.winner === "red"
+          ? 1
+          : game.winner === "yellow"
+            ? 0
+            : redWinProbability(
+                table,
+                lastEnd.number + 1,
+                differential,
+                nextHammer(lastEnd)
+              )
+    });
+  }
+
+  return { gameId: game.id, division: table.division, points };
+}
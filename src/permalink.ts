@@ -0,0 +1,84 @@
+/**
+ * Open Graph tags for shot permalinks, so pasting /shot/:id into a chat tool
+ * shows a preview of the stone layout
+ */
+import { getShot } from "./lib/repository";
+import { parseRoute } from "./lib/routes";
+import { HOUSE_HEIGHT, HOUSE_WIDTH } from "./lib/house-geometry";
+import type { PngScale } from "./lib/house-image";
+
+const PREVIEW_SCALE: PngScale = 2;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const metaTags = (tags: Record<string, string>) =>
+  Object.entries(tags)
+    .map(
+      ([property, content]) =>
+        `<meta property="${property}" content="${escapeHtml(content)}" />`
+    )
+    .join("\n");
+
+/**
+ * Serve the app for a shot permalink with preview tags in its <head>, or
+ * return null when the request is not for one
+ */
+export async function handlePermalinkRequest(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  const route = parseRoute(url.pathname);
+  if (route.view !== "shot" || request.method !== "GET" || !env.ASSETS) {
+    return null;
+  }
+
+  // The SPA shell; the client router takes it from there
+  const page = await env.ASSETS.fetch(new URL("/", url));
+  const details = env.DB ? await getShot(env.DB, route.shotId) : null;
+  if (!details) return page;
+
+  const { shot, end, game, event } = details;
+  const title = `${shot.playerName} (${shot.team}) – ${shot.type}`;
+  const description = [
+    event.name,
+    `${game.teamRed} vs ${game.teamYellow}`,
+    `End ${end.number}, shot ${shot.number}`,
+    shot.percentScore === null ? null : `${shot.percentScore}%`
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const tags = metaTags({
+    "og:type": "website",
+    "og:url": url.toString(),
+    "og:title": title,
+    "og:description": description,
+    "og:image": new URL(
+      `/api/shot/${shot.id}.png?scale=${PREVIEW_SCALE}`,
+      url
+    ).toString(),
+    "og:image:width": String(HOUSE_WIDTH * PREVIEW_SCALE),
+    "og:image:height": String(HOUSE_HEIGHT * PREVIEW_SCALE),
+    "og:image:alt": `Stone positions after shot ${shot.number}`,
+    "twitter:card": "summary_large_image"
+  });
+
+  return new HTMLRewriter()
+    .on("head", {
+      element(head) {
+        head.append(tags, { html: true });
+      }
+    })
+    .on("title", {
+      element(element) {
+        element.setInnerContent(title);
+      }
+    })
+    .transform(page);
+}
@@ -11,7 +11,10 @@ import {
   type ToolSet
 } from "ai";
 import { processToolCalls, cleanupMessages } from "./utils";
-import { tools, executions } from "./tools";
+import { tools, executions, withLiveSchema } from "./tools";
+import { formatSchema, loadSchema } from "./lib/schema";
+import { handleApiRequest } from "./api";
+import { handlePermalinkRequest } from "./permalink";
 import { env } from "cloudflare:workers";
 import { createWorkersAI } from "workers-ai-provider";
 
@@ -28,6 +31,24 @@ const model = workersai("@cf/meta/llama-3.1-8b-instruct");
  * Chat Agent implementation that handles real-time AI chat interactions
  */
 export class Chat extends AIChatAgent<Env> {
+  /** Schema for the queryDatabase description, read from D1 once per instance */
+  private schemaDescription?: string;
+
+  /**
+   * The live database schema formatted for the prompt, or undefined when it
+   * can't be read (the tool description then points at listTables instead)
+   */
+  private async getSchemaDescription() {
+    if (this.schemaDescription === undefined && this.env.DB) {
+      try {
+        this.schemaDescription = formatSchema(await loadSchema(this.env.DB));
+      } catch (error) {
+        console.error("Failed to load database schema:", error);
+      }
+    }
+    return this.schemaDescription;
+  }
+
   /**
    * Handles incoming chat messages and manages the response stream
    */
@@ -40,8 +61,10 @@ export class Chat extends AIChatAgent<Env> {
     // );
 
     // Collect all tools, including MCP tools
+    const schema = await this.getSchemaDescription();
     const allTools = {
       ...tools,
+      ...(schema && { queryDatabase: withLiveSchema(schema) }),
       ...this.mcp.getAITools()
     };
 
@@ -77,6 +100,78 @@ SHOT ID MANAGEMENT:
   * "How accurate was shot 150?" -> setShotId(150), then analyze the shot
   * "Show me the stones after shot 75" -> setShotId(75), then visualize
 
+END REPLAY:
+- When users want to walk through an end, see how an end unfolded, or see the shots leading up to a shot, use openEndReplay
+- Pass the shotId to open the end at that shot, or the endId with an optional shotNumber
+
+SCOREBOARD:
+- When users ask about a whole game (the score by end, who had hammer, how a game unfolded), use showScoreboard with the gameId or a shotId from that game
+
+DATABASE SCHEMA:
+- Use listTables and describeTable to check table and column names, and sampleValues to see the values stored in a column, before writing a query you are unsure about
+
+PLAYER AND TEAM NAMES:
+- Names are stored as the PDF parser produced them, so never guess them in a WHERE clause
+- Call resolvePlayer or resolveTeam first and use the exact stored name from the best candidate
+- If several candidates are close, ask the user which one they mean
+
+PLAYER MERGES:
+- The same athlete can appear under several spellings; suggestPlayerMerges proposes spellings to combine
+- mergePlayers applies a merge only after an admin approves it in the chat, so describe the merge before calling it
+- shots_canonical has the merged player_id and canonical_name for every shot; use it for per-player statistics
+
+POSITIONS:
+- The database has no position column; positions follow from the throwing order (a team's stones 1-2 lead, 3-4 second, 5-6 vice, 7-8 skip)
+- For who played which position in one game, or rotation changes, use inferPositions with the gameId or a shotId
+- For statistics by position across games, query the shot_positions view
+
+HAMMER EFFICIENCY:
+- For hammer conversion (scoring 2+ with hammer), forces, steals and blank ends, use computeEndEfficiency instead of writing SQL
+- Group by team, event, endNumber or situation (score differential going into the end); filter by eventId, gameId or team
+
+SHOT OUTCOMES:
+- The shot type is what was intended; for what actually happened (stayed in the house, rolled out, stones removed), use summarizeShotOutcomes
+- Filter by type for questions like "how often does a hit and roll stay in the house", and by team, player, event, game or end as needed
+- Outcomes are inferred from the stone positions, so a misread stone can occasionally skew a single shot
+
+HEATMAPS:
+- For where a player's, team's or shot type's stones usually finish, use showHeatmap; it draws the heatmap over the curling house
+- Resolve names first, and describe the hotspots it returns (e.g. "mostly top four-foot, slightly left of center")
+
+WIN PROBABILITY:
+- For how likely a team was to win from a game state, or how the odds swung during a game, use estimateWinProbability
+- Pass a gameId to chart a game under the scoreboard, or an end, differential and hammer (plus the division) for one state
+- Quote probabilities as historical rates, e.g. "teams up 2 with hammer going into end 7 have won about 84% of the time"
+
+KEY SHOTS:
+- For the biggest, best or most costly shots of a game, use findKeyShots with the gameId; resolve the game first if needed
+- Each key shot has a shotId: show the top one with setShotId, or openEndReplay to walk through its end
+- WPA is an estimate from the stones in the house, so describe it as such
+
+HOUSE MEASUREMENTS:
+- For shot rock, how many stones are counting, distances to the button or guards, use analyzeHouse with the shotId
+- It also shows the shot with the measurement overlay, so you don't need setShotId as well
+
+CUSTOM POSITIONS:
+- Users build hypothetical layouts in the position editor and ask "what would you throw here?" with a position code in the message
+- For a pasted code or /position/ link, use showPosition to read the stones and open it in the editor
+- Recommend a shot from the stones, who throws, hammer and the free guard zone; findSimilarPositions with the stones shows what teams played in matching positions
+- To show a layout you describe, write its code and pass it to showPosition
+
+RULES:
+- For free guard zone, no-tick or mixed doubles placement questions about an end, use checkRules with the endId
+- Its flags are sequences the rules don't allow; they usually point at a misread diagram rather than an infraction
+- The Rules toggle under the curling house shades the free guard zone and rings the stones the next shot can't remove
+
+SIMILAR POSITIONS:
+- For "what do teams usually play here" or how positions like this one ended, use findSimilarPositions with a shotId or stones
+- Pass mirror for layouts that play the same on either side, and the shot number to compare the same point of an end
+- Summarize the next shots and end results across the matches rather than listing every one
+
+SHOT COMPARISONS:
+- To put two to four shots side by side (the same shot by different players, a similar position found earlier, a position before and after a shot), use compareShots with the reference shot first
+- The UI shows each house and marks stones added, moved or missing compared with the reference; explain what those differences mean for the end
+
 CURLING CONTEXT:
 - You have access to a comprehensive curling analytics database with shot-by-shot data
 - Curling is played with stones, and common shot types include Draw, Take-out, Front, Clearing, Hit and Roll, etc.
@@ -125,100 +220,16 @@ export default {
       });
     }
 
-    // Direct database query endpoint for shot details
-    if (url.pathname === "/api/shot" && request.method === "GET") {
-      const shotId = url.searchParams.get("id");
-      if (!shotId || Number.isNaN(Number(shotId))) {
-        return Response.json(
-          { success: false, error: "Valid shot ID required" },
-          { status: 400 }
-        );
-      }
+    // Shot permalinks get link preview tags
+    const permalinkResponse = await handlePermalinkRequest(request, env);
+    if (permalinkResponse) {
+      return permalinkResponse;
+    }
 
-      try {
-        const db = env.DB;
-        if (!db) {
-          return Response.json(
-            { success: false, error: "Database not configured" },
-            { status: 500 }
-          );
-        }
-
-        // Query shot details with joins
-        const shotQuery = `
-          SELECT 
-            s.id as shot_id,
-            s.number as shot_number,
-            s.color as shot_color,
-            s.team as shot_team,
-            s.player_name,
-            s.type as shot_type,
-            s.turn,
-            s.percent_score,
-            e.id as end_id,
-            e.number as end_number,
-            e.direction,
-            e.color_hammer,
-            e.score_red,
-            e.score_yellow,
-            g.id as game_id,
-            g.session,
-            g.name as game_name,
-            g.sheet,
-            g.type as game_type,
-            g.start_date,
-            g.start_time,
-            g.team_red,
-            g.team_yellow,
-            g.final_score_red,
-            g.final_score_yellow,
-            ev.name as event_name,
-            ev.start_date as event_start_date,
-            ev.end_date as event_end_date
-          FROM shots s
-          JOIN ends e ON s.end_id = e.id
-          JOIN games g ON e.game_id = g.id
-          JOIN events ev ON g.event_id = ev.id
-          WHERE s.id = ?
-        `;
-
-        const shotResult = await db
-          .prepare(shotQuery)
-          .bind(Number(shotId))
-          .first();
-
-        if (!shotResult) {
-          return Response.json(
-            { success: false, error: `Shot with ID ${shotId} not found` },
-            { status: 404 }
-          );
-        }
-
-        // Query stone positions for this shot
-        const stoneQuery = `
-          SELECT color, x, y
-          FROM stone_positions
-          WHERE shot_id = ?
-          ORDER BY id
-        `;
-
-        const stoneResult = await db
-          .prepare(stoneQuery)
-          .bind(Number(shotId))
-          .all();
-
-        return Response.json({
-          success: true,
-          shot: shotResult,
-          stones: stoneResult.results || []
-        });
-      } catch (error) {
-        console.error("Database query error:", error);
-        return Response.json(
-          { success: false, error: "Database query failed" },
-          { status: 500 }
-        );
-      }
+    // Direct database endpoints used by the client
+    const apiResponse = await handleApiRequest(request, env);
+    if (apiResponse) {
+      return apiResponse;
     }
 
     if (!process.env.OPENAI_API_KEY) {
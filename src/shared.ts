@@ -3,3 +3,5 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied."
 } as const;
+
+export type Approval = (typeof APPROVAL)[keyof typeof APPROVAL];
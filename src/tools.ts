@@ -4,13 +4,75 @@
 import { tool, type ToolSet } from "ai";
 import { z } from "zod/v3";
 import { env } from "cloudflare:workers";
+import {
+  CURLING_TABLES,
+  DEFAULT_MAX_LIMIT,
+  guardSelectQuery
+} from "./lib/sql-guard";
+import {
+  DEFAULT_SAMPLE_SIZE,
+  MAX_SAMPLE_SIZE,
+  describeTable as describeCurlingTable,
+  listTableNames,
+  sampleValues as sampleColumnValues
+} from "./lib/schema";
+import {
+  findSimilarPositions as searchSimilarPositions,
+  getEnd,
+  getEndReplay,
+  getGameLineups,
+  getGameShots,
+  getGameSummary,
+  getShot,
+  getShots,
+  listGameSummaries,
+  listPlayerNameUsage,
+  listPlayerNames,
+  listShotSnapshots,
+  listTeamNames,
+  mergePlayerNames,
+  type PlayerMerge
+} from "./lib/repository";
+import { suggestMerges } from "./lib/merge-suggester";
+import { computeEndEfficiency as computeEfficiency } from "./lib/end-efficiency";
+import {
+  buildNameIndex,
+  type NameIndex,
+  normalizeName,
+  searchNameIndex
+} from "./lib/name-match";
+import {
+  divisionForEvent,
+  estimateStateProbability,
+  gameWinProbability,
+  getWinProbabilityTables
+} from "./lib/win-probability";
+import { rankKeyShots, shotWinProbabilities } from "./lib/shot-wpa";
+import { formatRoute } from "./lib/routes";
+import { analyzeHouse as measureHouse } from "./lib/house-analysis";
+import { checkReplayRules, ruleStones, rulesForEvent } from "./lib/rules";
+import { decodePosition, encodePosition, throwerOf } from "./lib/position-code";
+import { cached } from "./lib/cache";
+import { buildHeatmap, summarizeHeatmap } from "./lib/heatmap";
+import {
+  MAX_OUTCOME_SHOTS,
+  summarizeShotOutcomes as summarizeOutcomes
+} from "./lib/shot-outcomes";
+import {
+  MAX_COMPARED_SHOTS,
+  MIN_COMPARED_SHOTS,
+  compareShots as buildComparison,
+  describeDifference
+} from "./lib/shot-comparison";
+import type { PlayerName, ShotDetails, TeamName } from "./lib/domain";
 
 /**
- * Read-only database query tool that executes automatically
- * This allows safe SELECT queries against the curling database without confirmation
+ * Description of queryDatabase. The schema part is read from D1 by the Chat
+ * agent (see withLiveSchema); without it the model is pointed at the
+ * introspection tools instead.
  */
-const queryDatabase = tool({
-  description: `Execute SELECT queries against the curling analytics database. This contains comprehensive curling match data including shot-by-shot analysis, stone positions, and performance metrics.
+export function queryDatabaseDescription(schema?: string) {
+  return `Execute SELECT queries against the curling analytics database. This contains comprehensive curling match data including shot-by-shot analysis, stone positions, and performance metrics.
     
     CURLING CONTEXT:
     - Curling is played with 8 stones per team (red vs yellow) over 10 ends
@@ -19,78 +81,58 @@ const queryDatabase = tool({
     - Shots are scored 0-100% based on execution quality
     - Stone positions are tracked with x,y coordinates relative to the button (center of target)
     
-    DATA QUALITY NOTES:
-    - Some games have final_score_red/final_score_yellow as 'NaN' (string, not NULL) - filter these out
+    NORMALIZED VIEWS (prefer these over the raw tables):
+    - games_normalized: final_score_red/final_score_yellow are NULL when missing or for Win/Loss games,
+      is_win_loss = 1 for games decided as a Win/Loss (forfeits), winner is 'red', 'yellow', 'tie' or NULL
+    - ends_normalized: hammer is 'red', 'yellow' or 'unknown'; scores and time_left_red/yellow are NULL when missing
+    - shots_normalized: rotation is 'clockwise'/'counterclockwise', handle is 'in'/'out' (right-handed assumed when inferred),
+      turn_recorded says which of the two the source data recorded; percent_score is NULL when missing
+    - The views keep the same id/foreign key columns as the tables they wrap
+    - shots_canonical: shots with player_id and canonical_name, combining spellings of one athlete merged by an admin
+    - shot_positions: shots with game_id, end_number, format ('fours' or 'mixed_doubles'), team_stone and position
+      ('lead', 'second', 'vice', 'skip'; 'first_last' or 'middle' in mixed doubles) inferred from the shot number
+    - position_signatures (a table kept in sync with the stones): one row per shot with red_count/yellow_count, red_in_house/yellow_in_house and each
+      color's centroid (red_x, red_y, yellow_x, yellow_y); use findSimilarPositions to search layouts
+    - stone_positions_normalized: stone_positions with every end seen the same way round (ends recorded from the other
+      end of the sheet, with a negative ends.direction, are turned half a turn); x and y are 20 units per foot from the
+      button, y positive towards the hog line
+    
+    RAW TABLE QUIRKS (already handled by the views):
+    - Some games have final_score_red/final_score_yellow as 'NaN' (string, not NULL)
     - Score of 999 represents a Win/Loss game (999=Win, 0=Loss)
-    - Some ends have color_hammer = 'error_color' - these are parsing errors, filter out if needed
+    - Some ends have color_hammer = 'error_color' (parsing errors)
     - Turn column has two formats: 'Clockwise'/'Counter-clockwise' OR 'In'/'Out' (depends on handedness)
     - Time values (time_left_red/yellow) may be 'NaN' for some games missing score data
-    - Join pattern: games -> ends -> shots -> stone_positions (use proper JOINs)
-    
-    DATABASE SCHEMA:
-    
-    CREATE TABLE IF NOT EXISTS events(
-        id INTEGER PRIMARY KEY,
-        name TEXT,
-        start_date TEXT,
-        end_date TEXT
-    );
-    
-    CREATE TABLE IF NOT EXISTS games(
-        id INTEGER PRIMARY KEY,
-        event_id INTEGER,
-        session TEXT,
-        name TEXT,
-        sheet TEXT,
-        type TEXT,
-        start_date TEXT,
-        start_time TEXT,
-        team_red TEXT,
-        team_yellow TEXT,
-        final_score_red INTEGER,
-        final_score_yellow INTEGER,
-        FOREIGN KEY (event_id) REFERENCES events(id)
-    );
+    - stone_positions are as drawn on the scoresheet, so ends played towards the other end of the sheet are upside down
+    - Join pattern: games -> ends -> shots -> stone_positions_normalized (use proper JOINs)
     
-    CREATE TABLE IF NOT EXISTS ends(
-        id INTEGER PRIMARY KEY,
-        game_id INTEGER,
-        number INTEGER,
-        direction INTEGER,
-        color_hammer TEXT,
-        score_red INTEGER,
-        score_yellow INTEGER,
-        time_left_red INTEGER,
-        time_left_yellow INTEGER,
-        FOREIGN KEY (game_id) REFERENCES games(id)
-    );
+    QUERY RULES:
+    - Exactly one SELECT (or WITH ... SELECT) statement; writes, PRAGMA and multiple statements are rejected
+    - Only the tables and views in the schema below may be queried
+    - Results are capped at ${DEFAULT_MAX_LIMIT} rows; a LIMIT is added when missing and larger limits are reduced
+    - Prefer aggregates (COUNT, AVG, GROUP BY) over returning raw stone position rows
+    - A rejected query returns a code and a hint describing how to fix it
     
-    CREATE TABLE IF NOT EXISTS shots(
-        id INTEGER PRIMARY KEY,
-        end_id INTEGER,
-        number INTEGER,
-        color TEXT,
-        team TEXT,
-        player_name TEXT,
-        type TEXT,
-        turn TEXT,
-        percent_score REAL,
-        FOREIGN KEY (end_id) REFERENCES ends(id)
-    );
+    DATABASE SCHEMA:
+    ${
+      schema ??
+      "Not loaded. Use listTables and describeTable to look up tables and columns before querying."
+    }
     
-    CREATE TABLE IF NOT EXISTS stone_positions(
-        id INTEGER PRIMARY KEY,
-        shot_id INTEGER,
-        color TEXT,
-        x REAL,
-        y REAL,
-        FOREIGN KEY (shot_id) REFERENCES shots(id)
-    );`,
+    Use sampleValues to see the actual values of a column (shot types, team codes, turn formats) before filtering on it.`;
+}
+
+/**
+ * Read-only database query tool that executes automatically
+ * This allows safe SELECT queries against the curling database without confirmation
+ */
+const queryDatabase = tool({
+  description: queryDatabaseDescription(),
   inputSchema: z.object({
     query: z
       .string()
       .describe(
-        "The SELECT SQL query to execute. Only SELECT statements are allowed."
+        "A single SELECT SQL query to execute. Only read-only SELECT statements are allowed."
       ),
     params: z
       .array(z.any())
@@ -101,13 +143,14 @@ const queryDatabase = tool({
   }),
   execute: async ({ query, params }) => {
     try {
-      // Validate that this is a SELECT query
-      const trimmedQuery = query.trim().toLowerCase();
-      if (!trimmedQuery.startsWith("select")) {
+      // Validate that this is a single read-only SELECT and bound its size
+      const guarded = guardSelectQuery(query);
+      if (!guarded.ok) {
         return {
           success: false,
-          error:
-            "Only SELECT queries are allowed with this tool. Use querySQLiteDatabase for other operations."
+          error: guarded.message,
+          code: guarded.code,
+          hint: guarded.hint
         };
       }
 
@@ -123,15 +166,18 @@ const queryDatabase = tool({
       const result =
         params && params.length > 0
           ? await db
-              .prepare(query)
+              .prepare(guarded.sql)
               .bind(...params)
               .all()
-          : await db.prepare(query).all();
+          : await db.prepare(guarded.sql).all();
 
+      const count = result.results?.length || 0;
       return {
         success: true,
         rows: result.results,
-        count: result.results?.length || 0,
+        count,
+        truncated: count >= guarded.limit,
+        notes: guarded.notes,
         meta: result.meta
       };
     } catch (error) {
@@ -144,6 +190,376 @@ const queryDatabase = tool({
   }
 });
 
+/**
+ * queryDatabase with the live schema in its description, built once per
+ * Chat agent from loadSchema
+ */
+export const withLiveSchema = (schema: string) => ({
+  ...queryDatabase,
+  description: queryDatabaseDescription(schema)
+});
+
+/**
+ * List the tables and views the agent can query
+ */
+const listTables = tool({
+  description: `List the tables and views of the curling database that queryDatabase can read, with their column names.
+    Use describeTable for column types and foreign keys.`,
+  inputSchema: z.object({}),
+  execute: async () => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const names = await listTableNames(db);
+      const tables = await Promise.all(
+        names.map(async ({ name, kind }) => ({
+          name,
+          kind,
+          columns:
+            (await describeCurlingTable(db, name))?.columns.map(
+              (column) => column.name
+            ) ?? []
+        }))
+      );
+
+      return {
+        success: true,
+        tables,
+        count: tables.length
+      };
+    } catch (error) {
+      console.error("List tables error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Describe the columns of one table or view
+ */
+const describeTable = tool({
+  description: `Describe a table or view of the curling database: each column's name, type, whether it is the primary key,
+    and the foreign keys to other tables.`,
+  inputSchema: z.object({
+    table: z
+      .string()
+      .describe(`The table or view name, one of: ${CURLING_TABLES.join(", ")}`)
+  }),
+  execute: async ({ table }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const info = await describeCurlingTable(db, table);
+      if (!info) {
+        return {
+          success: false,
+          error: `Unknown table ${table}. Use listTables to see the available tables.`
+        };
+      }
+
+      return {
+        success: true,
+        ...info
+      };
+    } catch (error) {
+      console.error("Describe table error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Show the most common values of a column
+ */
+const sampleValues = tool({
+  description: `Show the most common distinct values of a column with how often each occurs, e.g. shot types (shots.type),
+    team codes (games.team_red), or the turn formats (shots.turn). Use this before filtering on a text column so the
+    query matches the values actually stored.`,
+  inputSchema: z.object({
+    table: z.string().describe("The table or view name"),
+    column: z.string().describe("The column to sample"),
+    limit: z
+      .number()
+      .optional()
+      .describe(
+        `How many values to return, most common first (default ${DEFAULT_SAMPLE_SIZE}, max ${MAX_SAMPLE_SIZE})`
+      )
+  }),
+  execute: async ({ table, column, limit }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const sample = await sampleColumnValues(db, table, column, limit);
+      if (!sample) {
+        return {
+          success: false,
+          error: `Unknown column ${table}.${column}. Use describeTable to see the columns of a table.`
+        };
+      }
+
+      return {
+        success: true,
+        ...sample,
+        count: sample.values.length
+      };
+    } catch (error) {
+      console.error("Sample values error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+// Name indexes cover every distinct name in shots / games, so they are built
+// once and reused across conversations
+const getPlayerIndex = cached(async () =>
+  buildNameIndex(
+    (await listPlayerNames(env.DB)).map((player) => ({
+      item: player,
+      name: player.name,
+      context: [player.team],
+      weight: player.eventCount
+    }))
+  )
+);
+
+const getTeamIndex = cached(async () =>
+  buildNameIndex(
+    (await listTeamNames(env.DB)).map((team) => ({
+      item: team,
+      name: team.name,
+      weight: team.eventCount
+    }))
+  )
+);
+
+// Position words say nothing about the name ("SWE skip")
+const PLAYER_IGNORED_WORDS = [
+  "skip",
+  "vice",
+  "third",
+  "second",
+  "lead",
+  "fourth",
+  "alternate",
+  "player"
+];
+
+const MAX_CANDIDATES = 20;
+
+/**
+ * Resolve a free-text player name to the names stored in the database
+ */
+const resolvePlayer = tool({
+  description: `Find the player names stored in the database that match what the user typed (e.g. "Edin", "niklas edin",
+    "Müller", "SWE Edin"). Matching ignores case, accents, word order and small typos. Returns ranked candidates with the
+    exact stored name, team and number of events, shots. ALWAYS use this before filtering on shots.player_name, then use the
+    exact stored name in queryDatabase. If several candidates score similarly, ask the user which one they mean.`,
+  inputSchema: z.object({
+    name: z
+      .string()
+      .describe("The player name as typed, optionally with a team code"),
+    team: z
+      .string()
+      .optional()
+      .describe("Only consider players of this team (as stored in shots.team)"),
+    limit: z
+      .number()
+      .optional()
+      .describe(
+        `Maximum number of candidates (default 5, max ${MAX_CANDIDATES})`
+      )
+  }),
+  execute: async ({ name, team, limit }) => {
+    try {
+      if (!env.DB) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      let index: NameIndex<PlayerName> = await getPlayerIndex();
+      if (team) {
+        const normalizedTeam = normalizeName(team);
+        index = {
+          entries: index.entries.filter(
+            (entry) => normalizeName(entry.item.team) === normalizedTeam
+          )
+        };
+      }
+
+      const candidates = searchNameIndex(index, name, {
+        limit: Math.min(MAX_CANDIDATES, limit ?? 5),
+        ignoredWords: PLAYER_IGNORED_WORDS
+      }).map(({ item, score }) => ({ ...item, score }));
+
+      return {
+        success: true,
+        query: name,
+        candidates,
+        count: candidates.length,
+        message: candidates.length
+          ? `Use the exact stored name (e.g. player_name = '${candidates[0].name}') in queries`
+          : `No player matches "${name}"`
+      };
+    } catch (error) {
+      console.error("Resolve player error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Resolve a free-text team name to the names stored in the database
+ */
+const resolveTeam = tool({
+  description: `Find the team names stored in games.team_red / games.team_yellow (and shots.team) that match what the user
+    typed. Matching ignores case, accents and small typos. Returns ranked candidates with the exact stored name and number
+    of events and games. ALWAYS use this before filtering on a team column, then use the exact stored name in queryDatabase.`,
+  inputSchema: z.object({
+    name: z.string().describe("The team name or code as typed"),
+    limit: z
+      .number()
+      .optional()
+      .describe(
+        `Maximum number of candidates (default 5, max ${MAX_CANDIDATES})`
+      )
+  }),
+  execute: async ({ name, limit }) => {
+    try {
+      if (!env.DB) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const index: NameIndex<TeamName> = await getTeamIndex();
+      const candidates = searchNameIndex(index, name, {
+        limit: Math.min(MAX_CANDIDATES, limit ?? 5)
+      }).map(({ item, score }) => ({ ...item, score }));
+
+      return {
+        success: true,
+        query: name,
+        candidates,
+        count: candidates.length,
+        message: candidates.length
+          ? `Use the exact stored name (e.g. team_red = '${candidates[0].name}') in queries`
+          : `No team matches "${name}"`
+      };
+    } catch (error) {
+      console.error("Resolve team error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Propose raw player spellings that are probably the same athlete
+ */
+const suggestPlayerMerges = tool({
+  description: `Suggest player name spellings that are probably the same athlete (same team code, similar names,
+    never used in the same game), so their statistics can be combined. Returns pairs with a confidence and reasons.
+    To apply one, call mergePlayers, which an admin must approve.`,
+  inputSchema: z.object({
+    team: z
+      .string()
+      .optional()
+      .describe("Only suggest merges within this team code"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Maximum number of suggestions (default 10)")
+  }),
+  execute: async ({ team, limit }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const usages = await listPlayerNameUsage(db);
+      const suggestions = suggestMerges(
+        team ? usages.filter((usage) => usage.team === team) : usages,
+        { limit: Math.min(MAX_CANDIDATES, limit ?? 10) }
+      );
+
+      return {
+        success: true,
+        suggestions,
+        count: suggestions.length
+      };
+    } catch (error) {
+      console.error("Merge suggestion error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Map raw player spellings to one canonical player. Requires approval, so it
+ * has no execute function; see executions.mergePlayers.
+ */
+const mergePlayers = tool({
+  description: `Merge raw player name spellings (shots.player_name) of one team into a single canonical player, so
+    shots_canonical reports them under one name and player_id. This changes the database and requires admin approval,
+    so explain the merge to the user before calling it.`,
+  inputSchema: z.object({
+    canonicalName: z
+      .string()
+      .describe("The name to show for the merged player"),
+    team: z.string().describe("The team code, as stored in shots.team"),
+    rawNames: z
+      .array(z.string())
+      .min(1)
+      .max(20)
+      .describe(
+        "Every raw spelling to map to the player, as stored in shots.player_name for the team"
+      )
+  }),
+  outputSchema: z.custom<MergePlayersOutput>()
+});
+
 /**
  * Query shot details with all related information via joins
  */
@@ -163,68 +579,18 @@ const queryShotDetails = tool({
         };
       }
 
-      // Query shot details with joins
-      const shotQuery = `
-        SELECT 
-          s.id as shot_id,
-          s.number as shot_number,
-          s.color as shot_color,
-          s.team as shot_team,
-          s.player_name,
-          s.type as shot_type,
-          s.turn,
-          s.percent_score,
-          e.id as end_id,
-          e.number as end_number,
-          e.direction,
-          e.color_hammer,
-          e.score_red,
-          e.score_yellow,
-          g.id as game_id,
-          g.session,
-          g.name as game_name,
-          g.sheet,
-          g.type as game_type,
-          g.start_date,
-          g.start_time,
-          g.team_red,
-          g.team_yellow,
-          g.final_score_red,
-          g.final_score_yellow,
-          ev.name as event_name,
-          ev.start_date as event_start_date,
-          ev.end_date as event_end_date
-        FROM shots s
-        JOIN ends e ON s.end_id = e.id
-        JOIN games g ON e.game_id = g.id
-        JOIN events ev ON g.event_id = ev.id
-        WHERE s.id = ?
-      `;
-
-      const shotResult = await db.prepare(shotQuery).bind(shotId).first();
-
-      if (!shotResult) {
+      const details = await getShot(db, shotId);
+      if (!details) {
         return {
           success: false,
           error: `Shot with ID ${shotId} not found`
         };
       }
 
-      // Query stone positions for this shot
-      const stoneQuery = `
-        SELECT color, x, y
-        FROM stone_positions
-        WHERE shot_id = ?
-        ORDER BY id
-      `;
-
-      const stoneResult = await db.prepare(stoneQuery).bind(shotId).all();
-
       return {
         success: true,
-        shot: shotResult,
-        stones: stoneResult.results || [],
-        count: (stoneResult.results || []).length
+        ...details,
+        count: details.stones.length
       };
     } catch (error) {
       console.error("Shot details query error:", error);
@@ -301,16 +667,1066 @@ const setShotId = tool({
 });
 
 /**
- * Export available tools - database query, shot details, visualization, and shot ID setting
+ * Tool to open an end in the replay viewer at a specific shot
  */
-export const tools = {
-  queryDatabase,
-  queryShotDetails,
-  visualizeCurlingShot,
-  setShotId
-} satisfies ToolSet;
+const openEndReplay = tool({
+  description: `Open an end in replay mode in the curling house on the left side, so the user can step through it stone by stone.
+    Pass the endId, or a shotId to open the end that shot belongs to. shotNumber (1-16) selects the shot to start on;
+    when a shotId is given, the replay starts on that shot.`,
+  inputSchema: z.object({
+    endId: z.number().optional().describe("The ID of the end to replay"),
+    shotId: z
+      .number()
+      .optional()
+      .describe("A shot ID; its end is opened at this shot"),
+    shotNumber: z
+      .number()
+      .optional()
+      .describe("The shot number within the end to start on (1-16)")
+  }),
+  execute: async ({ endId, shotId, shotNumber }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      let targetEndId = endId;
+      let targetShotNumber = shotNumber ?? 1;
+      if (targetEndId === undefined && shotId !== undefined) {
+        const details = await getShot(db, shotId);
+        if (!details) {
+          return {
+            success: false,
+            error: `Shot with ID ${shotId} not found`
+          };
+        }
+        targetEndId = details.end.id;
+        targetShotNumber = shotNumber ?? details.shot.number;
+      }
+      if (targetEndId === undefined) {
+        return {
+          success: false,
+          error: "Provide an endId or a shotId to open a replay"
+        };
+      }
+
+      const end = await getEnd(db, targetEndId);
+      if (!end) {
+        return {
+          success: false,
+          error: `End with ID ${targetEndId} not found`
+        };
+      }
+
+      return {
+        success: true,
+        openReplay: true,
+        endId: end.id,
+        shotNumber: targetShotNumber,
+        message: `Opened end ${end.number} in replay mode at shot ${targetShotNumber}`
+      };
+    } catch (error) {
+      console.error("End replay error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
 
 /**
- * No tools require human confirmation, so executions object is empty
+ * Tool to display a game's line score above the curling house
  */
-export const executions = {};
+const showScoreboard = tool({
+  description: `Show the scoreboard (line score) of a game above the curling house on the left side: ends across, hammer,
+    running totals and remaining time. Clicking an end opens it in the curling house.
+    Pass the gameId, or a shotId to show the game that shot belongs to. The result includes the per-end scores.`,
+  inputSchema: z.object({
+    gameId: z.number().optional().describe("The ID of the game to show"),
+    shotId: z
+      .number()
+      .optional()
+      .describe("A shot ID; the scoreboard of its game is shown")
+  }),
+  execute: async ({ gameId, shotId }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      let targetGameId = gameId;
+      if (targetGameId === undefined && shotId !== undefined) {
+        const details = await getShot(db, shotId);
+        if (!details) {
+          return {
+            success: false,
+            error: `Shot with ID ${shotId} not found`
+          };
+        }
+        targetGameId = details.game.id;
+      }
+      if (targetGameId === undefined) {
+        return {
+          success: false,
+          error: "Provide a gameId or a shotId to show a scoreboard"
+        };
+      }
+
+      const summary = await getGameSummary(db, targetGameId);
+      if (!summary) {
+        return {
+          success: false,
+          error: `Game with ID ${targetGameId} not found`
+        };
+      }
+
+      const { game, event, ends } = summary;
+      return {
+        success: true,
+        showScoreboard: true,
+        gameId: game.id,
+        event: event.name,
+        teamRed: game.teamRed,
+        teamYellow: game.teamYellow,
+        finalScoreRed: game.finalScoreRed,
+        finalScoreYellow: game.finalScoreYellow,
+        winner: game.winner,
+        ends: ends.map((end) => ({
+          endId: end.id,
+          number: end.number,
+          hammer: end.hammer,
+          scoreRed: end.scoreRed,
+          scoreYellow: end.scoreYellow
+        })),
+        message: `Showing the scoreboard for ${game.teamRed} vs ${game.teamYellow} (${event.name})`
+      };
+    } catch (error) {
+      console.error("Scoreboard query error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Tool to infer who played lead, second, vice and skip in a game
+ */
+const inferPositions = tool({
+  description: `Infer each team's lineup in a game (lead, second, vice, skip; or first_last / middle in mixed doubles)
+    from the throwing order, with each player's shots and percentage at each position and any rotation changes
+    (ends where a position was thrown by a different player). Pass the gameId, or a shotId to use that shot's game.
+    For questions across games ("best leads at an event") query the shot_positions view instead.`,
+  inputSchema: z.object({
+    gameId: z.number().optional().describe("The ID of the game"),
+    shotId: z
+      .number()
+      .optional()
+      .describe("A shot ID; the lineups of its game are inferred")
+  }),
+  execute: async ({ gameId, shotId }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      let targetGameId = gameId;
+      if (targetGameId === undefined && shotId !== undefined) {
+        const details = await getShot(db, shotId);
+        if (!details) {
+          return {
+            success: false,
+            error: `Shot with ID ${shotId} not found`
+          };
+        }
+        targetGameId = details.game.id;
+      }
+      if (targetGameId === undefined) {
+        return {
+          success: false,
+          error: "Provide a gameId or a shotId to infer positions"
+        };
+      }
+
+      const result = await getGameLineups(db, targetGameId);
+      if (!result) {
+        return {
+          success: false,
+          error: `Game with ID ${targetGameId} not found`
+        };
+      }
+
+      const { game, event, format, lineups } = result;
+      const changes = lineups.reduce(
+        (sum, lineup) => sum + lineup.rotationChanges.length,
+        0
+      );
+      return {
+        success: true,
+        gameId: game.id,
+        event: event.name,
+        format,
+        lineups,
+        message: `Lineups for ${game.teamRed} vs ${game.teamYellow} (${format === "mixed_doubles" ? "mixed doubles" : "fours"}), ${changes} rotation change${changes === 1 ? "" : "s"}`
+      };
+    } catch (error) {
+      console.error("Infer positions error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Hammer efficiency analytics over ends
+ */
+const computeEndEfficiency = tool({
+  description: `Compute hammer efficiency: for the team with hammer, how often it converts (scores 2+), is forced to take 1,
+    gives up a steal, or blanks, with rates and net points per end. Group by team, event, endNumber or situation (the
+    hammer team's score differential going into the end, e.g. up_1, tied, down_2). Filter by eventId, gameId and/or team
+    (the exact stored name, use resolveTeam first). With a team, stats are split into ends with and without hammer;
+    withoutHammer is still counted for the hammer team, so withoutHammer.steals are the team's steals and
+    withoutHammer.forces the times it forced the opponent to take 1. Prefer this over writing hammer SQL by hand.`,
+  inputSchema: z.object({
+    groupBy: z
+      .enum(["team", "event", "endNumber", "situation"])
+      .optional()
+      .describe("How to group the ends (default team)"),
+    team: z
+      .string()
+      .optional()
+      .describe("Only ends played by this team (exact stored name)"),
+    eventId: z.number().optional().describe("Only games of this event"),
+    gameId: z.number().optional().describe("Only this game")
+  }),
+  execute: async ({ groupBy, team, eventId, gameId }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const games = await listGameSummaries(db, { eventId, gameId, team });
+      if (!games.length) {
+        return {
+          success: false,
+          error: "No games match these filters"
+        };
+      }
+
+      const efficiency = computeEfficiency(games, { groupBy, team });
+      return {
+        success: true,
+        games: games.length,
+        ...efficiency,
+        message: `Hammer efficiency over ${efficiency.overall.withHammer.ends} ends with hammer in ${games.length} game${games.length === 1 ? "" : "s"}, grouped by ${efficiency.groupBy}`
+      };
+    } catch (error) {
+      console.error("End efficiency error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * What physically happened on shots, from the stones before and after each
+ */
+const summarizeShotOutcomes = tool({
+  description: `Classify what physically happened on shots by comparing the stones before and after each one, rather than
+    the recorded type and percentage. The thrown stone's result is in_house, guard, behind (came to rest there),
+    rolled_out (left play after moving other stones) or no_change (left play and nothing else changed); each shot also
+    counts the stones it removed and moved per color. Returns the counts overall and per shot type, with inHouseRate and
+    how many shots removed an opposing or an own stone. Use it for "how often does a hit and roll stay in the house"
+    (type "Hit and Roll"). Filter by eventId, gameId, endId, team, type and/or playerName (exact stored names, use
+    resolveTeam / resolvePlayer first); with endId every shot's outcome is listed too. Outcomes are classified on each
+    call from at most the ${MAX_OUTCOME_SHOTS} newest matching shots, so narrow broad questions with filters; the result
+    says when it was cut off (truncated).`,
+  inputSchema: z.object({
+    eventId: z.number().optional().describe("Only shots of this event"),
+    gameId: z.number().optional().describe("Only shots of this game"),
+    endId: z.number().optional().describe("Only shots of this end"),
+    team: z
+      .string()
+      .optional()
+      .describe("Only shots thrown by this team (exact stored name)"),
+    type: z
+      .string()
+      .optional()
+      .describe('Only this recorded shot type, e.g. "Hit and Roll"'),
+    playerName: z
+      .string()
+      .optional()
+      .describe("Only shots thrown by this player (exact stored name)")
+  }),
+  execute: async ({ eventId, gameId, endId, team, type, playerName }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const shots = await listShotSnapshots(db, {
+        eventId,
+        gameId,
+        endId,
+        team,
+        type,
+        playerName,
+        limit: MAX_OUTCOME_SHOTS
+      });
+      if (!shots.length) {
+        return {
+          success: false,
+          error: "No shots match these filters"
+        };
+      }
+
+      const truncated = shots.length === MAX_OUTCOME_SHOTS;
+      const summary = summarizeOutcomes(shots, {
+        truncated,
+        includeOutcomes: endId !== undefined
+      });
+      return {
+        success: true,
+        ...summary,
+        message: `${summary.overall.shots} shots classified${truncated ? ` (the most recent ${MAX_OUTCOME_SHOTS} matching shots)` : ""}, ${summary.overall.results.in_house} finished in the house`
+      };
+    } catch (error) {
+      console.error("Shot outcomes error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Heatmap of where stones finished, shown over the curling house
+ */
+const showHeatmap = tool({
+  description: `Show a heatmap over the curling house in the left panel of where stones finished, binned into one-foot
+    cells. With source "delivered" (default) it counts where each shot's thrown stone came to rest; with "all" it
+    counts every stone in play after each shot. Filter by eventId, gameId, team, playerName (exact stored names, use
+    resolveTeam / resolvePlayer first), type (recorded shot type, e.g. "Draw") and turn ("in", "out", "clockwise" or
+    "counterclockwise"). Use it for "where does X's draw usually finish" or "show me where guards get placed".
+    Coordinates are relative to the button in stone_positions units (20 per foot, y positive towards the hog line).
+    Only the ${MAX_OUTCOME_SHOTS} newest matching shots are counted; the result says when it was cut off (truncated).`,
+  inputSchema: z.object({
+    source: z
+      .enum(["delivered", "all"])
+      .optional()
+      .describe("Count the thrown stones (default) or every stone in play"),
+    eventId: z.number().optional().describe("Only shots of this event"),
+    gameId: z.number().optional().describe("Only shots of this game"),
+    team: z
+      .string()
+      .optional()
+      .describe("Only shots thrown by this team (exact stored name)"),
+    playerName: z
+      .string()
+      .optional()
+      .describe("Only shots thrown by this player (exact stored name)"),
+    type: z.string().optional().describe("Only this recorded shot type"),
+    turn: z
+      .enum(["in", "out", "clockwise", "counterclockwise"])
+      .optional()
+      .describe("Only shots with this handle or rotation")
+  }),
+  execute: async ({ source, ...filters }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const shots = await listShotSnapshots(db, {
+        ...filters,
+        limit: MAX_OUTCOME_SHOTS
+      });
+      if (!shots.length) {
+        return {
+          success: false,
+          error: "No shots match these filters"
+        };
+      }
+
+      const heatmap = buildHeatmap(shots, {
+        source,
+        filters,
+        truncated: shots.length === MAX_OUTCOME_SHOTS
+      });
+      // The client loads the grid itself from /api/heatmap
+      return {
+        success: true,
+        showHeatmap: true,
+        ...summarizeHeatmap(heatmap),
+        message: `Heatmap of ${heatmap.stones} ${heatmap.source === "delivered" ? "thrown stones" : "stones"} from ${heatmap.shots} shots${heatmap.truncated ? " (the most recent matching shots)" : ""}`
+      };
+    } catch (error) {
+      console.error("Heatmap error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Historical win probability of a game state, or through a whole game
+ */
+const estimateWinProbability = tool({
+  description: `Historical win probability, P(win | end, score differential, hammer), built from every game in the database
+    with separate tables for men, women and mixed_doubles. Either:
+    - pass gameId to get red's win probability before the first end and after every end of that game; this also shows
+      the win-probability chart under the scoreboard. Use it for "how did the odds swing" or "they were X% to win after
+      stealing in 6";
+    - or pass end (the end about to be played), differential (the team's score minus the opponent's) and hammer
+      (whether the team has it in that end) to get one state's probability, with the number of games behind it. When
+      basis is "prior" no game reached that state and the number is a model estimate, not a historical rate; say so.`,
+  inputSchema: z.object({
+    gameId: z.number().optional().describe("A game to chart"),
+    end: z
+      .number()
+      .optional()
+      .describe(
+        "The end about to be played (extra ends are end 11, or 9 in mixed doubles)"
+      ),
+    differential: z
+      .number()
+      .optional()
+      .describe("The team's score minus the opponent's going into the end"),
+    hammer: z
+      .boolean()
+      .optional()
+      .describe("Whether the team has hammer in that end"),
+    division: z
+      .enum(["men", "women", "mixed_doubles"])
+      .optional()
+      .describe("Which table to use for a state (default men)")
+  }),
+  execute: async ({ gameId, end, differential, hammer, division }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const tables = await getWinProbabilityTables(db);
+
+      if (gameId !== undefined) {
+        const summary = await getGameSummary(db, gameId);
+        if (!summary) {
+          return {
+            success: false,
+            error: `Game with ID ${gameId} not found`
+          };
+        }
+        const { game, event } = summary;
+        const chart = gameWinProbability(
+          tables[divisionForEvent(event.name)],
+          summary
+        );
+        return {
+          success: true,
+          showWinProbability: true,
+          ...chart,
+          teamRed: game.teamRed,
+          teamYellow: game.teamYellow,
+          message: `Win probability for ${game.teamRed} (red) after each end against ${game.teamYellow}; yellow's is 1 minus red's`
+        };
+      }
+
+      if (
+        end === undefined ||
+        differential === undefined ||
+        hammer === undefined
+      ) {
+        return {
+          success: false,
+          error: "Provide a gameId, or an end, differential and hammer"
+        };
+      }
+
+      const table = tables[division ?? "men"];
+      const estimate = estimateStateProbability(table, {
+        end,
+        differential,
+        hammer
+      });
+      if (!estimate) {
+        return {
+          success: false,
+          error: `No ${table.division} win-probability data for end ${end}`
+        };
+      }
+
+      const state = `A team ${differential === 0 ? "tied" : differential > 0 ? `up ${differential}` : `down ${-differential}`} ${hammer ? "with" : "without"} hammer going into end ${end}`;
+      const percent = Math.round(estimate.probability * 100);
+      return {
+        success: true,
+        division: table.division,
+        end,
+        differential,
+        hammer,
+        probability: estimate.probability,
+        basis: estimate.basis,
+        gamesInState: estimate.games,
+        message:
+          estimate.basis === "history"
+            ? `${state} has won about ${percent}% of the time (${estimate.games} games)`
+            : `No game in the database reached this state. ${state} is estimated at ${percent}% from neighbouring ends and a prior on the lead; this is not a historical rate`
+      };
+    } catch (error) {
+      console.error("Win probability error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Turning-point shots of a game by win probability added
+ */
+const findKeyShots = tool({
+  description: `Find the biggest shots of a game: every shot gets an estimated win probability added (WPA) for the team
+    that threw it, from the historical win-probability table and the stones in the house after the shot. Returns the
+    shots with the largest swings, positive (great shots) or negative (costly misses), with shotId, end, player, shot
+    type, percentage and the throwing team's win probability before and after. Use the shotIds with setShotId or
+    openEndReplay to show them.`,
+  inputSchema: z.object({
+    gameId: z.number().describe("The ID of the game"),
+    limit: z
+      .number()
+      .optional()
+      .describe(`Number of shots to return (default 5, max ${MAX_CANDIDATES})`)
+  }),
+  execute: async ({ gameId, limit }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const game = await getGameShots(db, gameId);
+      if (!game) {
+        return {
+          success: false,
+          error: `Game with ID ${gameId} not found`
+        };
+      }
+
+      const tables = await getWinProbabilityTables(db);
+      const shots = shotWinProbabilities(
+        tables[divisionForEvent(game.event.name)],
+        game
+      );
+      const keyShots = rankKeyShots(
+        shots,
+        Math.min(MAX_CANDIDATES, limit ?? 5)
+      ).map((shot) => ({
+        ...shot,
+        url: formatRoute({ view: "shot", shotId: shot.shotId })
+      }));
+
+      return {
+        success: true,
+        gameId,
+        teamRed: game.game.teamRed,
+        teamYellow: game.game.teamYellow,
+        event: game.event.name,
+        shotsAnalyzed: shots.length,
+        keyShots,
+        message: keyShots.length
+          ? `The biggest shot was ${keyShots[0].playerName}'s ${keyShots[0].type} in end ${keyShots[0].endNumber} (${keyShots[0].wpa > 0 ? "+" : ""}${Math.round(keyShots[0].wpa * 100)}% win probability)`
+          : "No shots with stone positions in this game"
+      };
+    } catch (error) {
+      console.error("Key shots error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Shot rock, counting stones and distances after a shot
+ */
+const analyzeHouse = tool({
+  description: `Measure the stones after a shot: which stone is shot rock, which color is counting and how many, each
+    stone's distance to the button and offset from it (in feet, or metres with unit "m"), and whether it is in the house, a guard (short of the house) or behind
+    the house. Shows the shot in the curling house with the measurement overlay turned on.
+    Use it for "who is sitting shot", "how many are counting" or "how close was that draw".`,
+  inputSchema: z.object({
+    shotId: z.number().describe("The shot after which to measure the house"),
+    unit: z
+      .enum(["ft", "m"])
+      .optional()
+      .describe("Unit of the distances and offsets: ft (default) or m")
+  }),
+  execute: async ({ shotId, unit = "ft" }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const details = await getShot(db, shotId);
+      if (!details) {
+        return {
+          success: false,
+          error: `Shot with ID ${shotId} not found`
+        };
+      }
+
+      const analysis = measureHouse(details.stones, { unit });
+      const { shot, end, game } = details;
+      const teamOf = (color: "red" | "yellow") =>
+        color === "red" ? game.teamRed : game.teamYellow;
+      return {
+        success: true,
+        showMeasurements: true,
+        shotId,
+        endNumber: end.number,
+        shotNumber: shot.number,
+        teamRed: game.teamRed,
+        teamYellow: game.teamYellow,
+        ...analysis,
+        message: analysis.counting
+          ? `${teamOf(analysis.counting.color)} (${analysis.counting.color}) is sitting ${analysis.counting.count} after shot ${shot.number} of end ${end.number}, shot rock ${analysis.shotRock?.distance} ${unit} from the button`
+          : `No stones in the house after shot ${shot.number} of end ${end.number}`
+      };
+    } catch (error) {
+      console.error("House analysis error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Read a position code from the position editor or a pasted link
+ */
+const showPosition = tool({
+  description: `Read a custom position code (e.g. "5r_r12.-40_y0.3", from the position editor or a /position/ link) and
+    open it in the position editor. Returns the shot about to be thrown, who throws it, hammer, and every stone with
+    its zone, distance to the button and whether the free guard zone protects it. A code is the next shot number and
+    the hammer color (r or y), then each stone as its color letter and x.y in stone_positions units, joined by
+    underscores. Use it when a message contains a position code, or write a code yourself to show a layout you
+    describe.`,
+  inputSchema: z.object({
+    code: z.string().describe("The position code, or a link ending in one")
+  }),
+  execute: async ({ code }) => {
+    try {
+      const position = decodePosition(code.split("/").pop() ?? "");
+      if (!position) {
+        return {
+          success: false,
+          error: `"${code}" is not a position code`
+        };
+      }
+
+      const thrower = throwerOf(position);
+      const protectedStones = ruleStones(
+        position.stones,
+        rulesForEvent("fours", null),
+        { shotNumber: position.shotNumber, thrower }
+      ).filter((stone) => stone.protected);
+      const analysis = measureHouse(position.stones);
+      return {
+        success: true,
+        showPosition: true,
+        code: encodePosition(position),
+        shotNumber: position.shotNumber,
+        hammer: position.hammer,
+        thrower,
+        ...analysis,
+        protectedStones,
+        message: `Shot ${position.shotNumber} is next, thrown by ${thrower}; ${
+          analysis.counting
+            ? `${analysis.counting.color} is sitting ${analysis.counting.count}`
+            : "nothing is in the house"
+        }`
+      };
+    } catch (error) {
+      console.error("Show position error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Free guard zone, no-tick and mixed doubles rules through an end
+ */
+const checkRules = tool({
+  description: `Apply the curling rules that can be seen in the stone positions to every shot of an end: the free guard
+    zone (in fours an opponent's guard between the tee line and the hog line can't be removed during the first five
+    stones, four before the 2018-19 season; in mixed doubles no stone can be removed during the first three), the
+    optional no-tick rule (center-line guards can't be moved off the center line during those shots), and the mixed
+    doubles placed stones and power play. For each shot it says whether the FGZ applied and classifies every stone
+    as in_house, guard, behind or out_of_play with whether it is protected from the next shot. It flags suspicious
+    sequences: a protected stone removed, a center guard ticked, more stones of a color than have been thrown, stones
+    recorded out of play, or a power play in an extra end. Flags usually mean the diagram was misread, so say so.`,
+  inputSchema: z.object({
+    endId: z.number().describe("The ID of the end to check"),
+    noTick: z
+      .boolean()
+      .optional()
+      .describe("Also apply the no-tick rule (fours only)")
+  }),
+  execute: async ({ endId, noTick }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const replay = await getEndReplay(db, endId);
+      if (!replay) {
+        return {
+          success: false,
+          error: `End with ID ${endId} not found`
+        };
+      }
+
+      const result = checkReplayRules(replay, { noTick });
+      return {
+        success: true,
+        endId,
+        endNumber: replay.end.number,
+        teamRed: replay.game.teamRed,
+        teamYellow: replay.game.teamYellow,
+        ...result,
+        message: result.flags.length
+          ? `${result.flags.length} suspicious sequence${result.flags.length === 1 ? "" : "s"} in end ${replay.end.number}: ${result.flags.map((flag) => flag.message).join("; ")}`
+          : `No rule problems in end ${replay.end.number}; the free guard zone applied to the first ${result.rules.protectedShots} shots`
+      };
+    } catch (error) {
+      console.error("Rules check error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Nearest historical layouts to a position, with what was thrown next
+ */
+const findSimilarPositions = tool({
+  description: `Find historical shots whose stone layout resembles a position: the stones after a shotId, or stones
+    given directly (x, y relative to the button, same units as stone_positions). Stones are matched one to one per
+    color regardless of order, and with mirror the layout also matches its reflection across the center line.
+    Returns the nearest positions with their mean stone distance in feet, the game, the next shot's type, player and
+    percentage, and the end's eventual score. Use it for "what do teams usually play here" or "how did this end up".`,
+  inputSchema: z.object({
+    shotId: z
+      .number()
+      .optional()
+      .describe("Search for the layout after this shot"),
+    stones: z
+      .array(
+        z.object({
+          color: z.enum(["red", "yellow"]).describe("The color of the stone"),
+          x: z.number().describe("X coordinate relative to button (center)"),
+          y: z.number().describe("Y coordinate relative to button (center)")
+        })
+      )
+      .optional()
+      .describe("A layout to search for instead of a shot's"),
+    mirror: z
+      .boolean()
+      .optional()
+      .describe("Also match the layout mirrored across the center line"),
+    shotNumber: z
+      .number()
+      .optional()
+      .describe(
+        "Only positions after this shot number of an end (e.g. the searched shot's number)"
+      ),
+    limit: z
+      .number()
+      .optional()
+      .describe(
+        `Number of positions to return (default 5, max ${MAX_CANDIDATES})`
+      )
+  }),
+  execute: async ({ shotId, stones, mirror, shotNumber, limit }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      let layout = stones;
+      if (shotId !== undefined) {
+        const details = await getShot(db, shotId);
+        if (!details) {
+          return {
+            success: false,
+            error: `Shot with ID ${shotId} not found`
+          };
+        }
+        layout = details.stones;
+      }
+      if (!layout?.length) {
+        return {
+          success: false,
+          error: "Provide a shotId or stones for a position with stones in play"
+        };
+      }
+
+      const positions = await searchSimilarPositions(db, layout, {
+        mirror,
+        shotNumber,
+        excludeShotId: shotId,
+        limit: Math.min(MAX_CANDIDATES, limit ?? 5)
+      });
+      const results = positions.map(
+        ({
+          shotId,
+          shotNumber,
+          distance,
+          mirrored,
+          end,
+          game,
+          event,
+          nextShot
+        }) => ({
+          shotId,
+          url: formatRoute({ view: "shot", shotId }),
+          event: event.name,
+          gameId: game.id,
+          teamRed: game.teamRed,
+          teamYellow: game.teamYellow,
+          endNumber: end.number,
+          shotNumber,
+          hammer: end.hammer,
+          distance,
+          mirrored,
+          nextShot: nextShot && {
+            shotId: nextShot.id,
+            color: nextShot.color,
+            team: nextShot.team,
+            playerName: nextShot.playerName,
+            type: nextShot.type,
+            percentScore: nextShot.percentScore
+          },
+          endScoreRed: end.scoreRed,
+          endScoreYellow: end.scoreYellow
+        })
+      );
+
+      return {
+        success: true,
+        positions: results,
+        message: results.length
+          ? `Found ${results.length} similar positions, the closest ${results[0].distance} ft off on average per stone`
+          : "No historical position with the same number of stones of each color"
+      };
+    } catch (error) {
+      console.error("Similar positions error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Shots side by side, each compared with the first
+ */
+const compareShots = tool({
+  description: `Open two to ${MAX_COMPARED_SHOTS} shots side by side in the UI, e.g. the same shot by two players or a
+    position before and after a decision. The first shot is the reference: for every other shot it returns how many
+    stones of each color were added, moved or are missing compared with it, and how many are unchanged. Also returns
+    each shot's game, end, player, type and score, and who is counting in each house. Use the shot IDs from
+    queryShotDetails, findSimilarPositions or the database.`,
+  inputSchema: z.object({
+    shotIds: z
+      .array(z.number())
+      .min(MIN_COMPARED_SHOTS)
+      .max(MAX_COMPARED_SHOTS)
+      .describe("The shots to compare, the reference first")
+  }),
+  execute: async ({ shotIds }) => {
+    try {
+      const db = env.DB;
+      if (!db) {
+        return {
+          success: false,
+          error: "Database not configured. Please set up D1 binding."
+        };
+      }
+
+      const shots = await getShots(db, shotIds);
+      const found = shots.filter((shot): shot is ShotDetails => shot !== null);
+      if (found.length < shotIds.length) {
+        const missing = shotIds.filter((_, i) => !shots[i]);
+        return {
+          success: false,
+          error: `Shots not found: ${missing.join(", ")}`
+        };
+      }
+
+      const comparison = buildComparison(found);
+      return {
+        success: true,
+        showComparison: true,
+        shotIds,
+        url: formatRoute({ view: "compare", shotIds }),
+        shots: comparison.shots.map(({ shot, end, game, event, stones }) => ({
+          shotId: shot.id,
+          event: event.name,
+          gameId: game.id,
+          teamRed: game.teamRed,
+          teamYellow: game.teamYellow,
+          endNumber: end.number,
+          shotNumber: shot.number,
+          team: shot.team,
+          playerName: shot.playerName,
+          type: shot.type,
+          percentScore: shot.percentScore,
+          counting: measureHouse(stones).counting
+        })),
+        differences: comparison.differences.map((difference) => ({
+          ...difference,
+          summary: describeDifference(difference)
+        })),
+        message: `Comparing ${shotIds.length} shots with shot ${shotIds[0]}`
+      };
+    } catch (error) {
+      console.error("Compare shots error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+/**
+ * Export available tools - database query, schema introspection, name resolution, player merges, shot details, visualization, shot ID setting, end replay, scoreboard, positions, hammer efficiency, shot outcomes, heatmaps, win probability, key shots, house measurements, custom positions, rules checks, similar positions and shot comparisons
+ */
+export const tools = {
+  queryDatabase,
+  listTables,
+  describeTable,
+  sampleValues,
+  resolvePlayer,
+  resolveTeam,
+  suggestPlayerMerges,
+  mergePlayers,
+  queryShotDetails,
+  visualizeCurlingShot,
+  setShotId,
+  openEndReplay,
+  showScoreboard,
+  inferPositions,
+  computeEndEfficiency,
+  summarizeShotOutcomes,
+  showHeatmap,
+  estimateWinProbability,
+  findKeyShots,
+  analyzeHouse,
+  showPosition,
+  checkRules,
+  findSimilarPositions,
+  compareShots
+} satisfies ToolSet;
+
+/**
+ * mergePlayers has no execute function: its output is the APPROVAL answer
+ * from the confirmation card until processToolCalls replaces it with the
+ * merge result or an error message
+ */
+type MergePlayersOutput =
+  | string
+  | Awaited<ReturnType<typeof executions.mergePlayers>>;
+
+/**
+ * Implementations of the tools that require human confirmation, run by
+ * processToolCalls once the user approves
+ */
+export const executions = {
+  mergePlayers: async (merge: PlayerMerge) => {
+    const db = env.DB;
+    if (!db) {
+      return {
+        success: false,
+        error: "Database not configured. Please set up D1 binding."
+      };
+    }
+
+    try {
+      const player = await mergePlayerNames(db, merge);
+      return {
+        success: true,
+        player,
+        message: `Merged ${merge.rawNames.length} spelling(s) into ${player.name} (${player.team}), player ID ${player.id}`
+      };
+    } catch (error) {
+      console.error("Player merge error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+};
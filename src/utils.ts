@@ -54,13 +54,14 @@ export async function processToolCalls<Tools extends ToolSet>({
             ""
           ) as keyof typeof executions;
 
-          // Only process tools that require confirmation (are in executions object) and are in 'input-available' state
-          if (!(toolName in executions) || part.state !== "input-available")
+          // Only process tools that require confirmation (are in executions object) and
+          // have been answered; the client sends the APPROVAL string as the tool output
+          if (!(toolName in executions) || part.state !== "output-available")
             return part;
 
           let result: unknown;
 
-          if (part.input === APPROVAL.YES) {
+          if (part.output === APPROVAL.YES) {
             // User approved the tool execution
             if (!isValidToolName(toolName, executions)) {
               return part;
@@ -75,10 +76,10 @@ export async function processToolCalls<Tools extends ToolSet>({
             } else {
               result = "Error: No execute function found on tool";
             }
-          } else if (part.input === APPROVAL.NO) {
+          } else if (part.output === APPROVAL.NO) {
             result = "Error: User denied access to tool execution";
           } else {
-            // If no approval input yet, leave the part as-is for user interaction
+            // Already executed, the output is the real result
             return part;
           }
 
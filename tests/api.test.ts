@@ -0,0 +1,175 @@
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { beforeAll, describe, it, expect } from "vitest";
+import worker from "../src/server";
+import { HOUSE_HEIGHT, HOUSE_WIDTH } from "../src/lib/house-geometry";
+import { mergePlayerNames } from "../src/lib/repository";
+import type { Player, SimilarPosition } from "../src/lib/domain";
+
+const get = async (path: string) => {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com${path}`),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+};
+
+// One game with an end from each end of the sheet. Shot 4 was recorded from
+// the other end, so once turned round its stones are those of shot 2.
+beforeAll(async () => {
+  const db = env.DB;
+  await db.batch([
+    db.prepare(
+      "INSERT INTO events (id, name, start_date) VALUES (1, 'Test Open', '2025-01-10')"
+    ),
+    db.prepare(
+      `INSERT INTO games (id, event_id, team_red, team_yellow, final_score_red, final_score_yellow)
+       VALUES (1, 1, 'SWE', 'SUI', 6, 4)`
+    ),
+    db.prepare(
+      `INSERT INTO ends (id, game_id, number, direction, color_hammer, score_red, score_yellow)
+       VALUES (1, 1, 1, 1, 'red', 2, 0), (2, 1, 2, -1, 'yellow', 0, 1)`
+    ),
+    db.prepare(
+      `INSERT INTO shots (id, end_id, number, color, team, player_name, type, turn, percent_score)
+       VALUES
+         (1, 1, 1, 'yellow', 'SUI', 'Yannick SCHWALLER', 'Front', 'in', 100),
+         (2, 1, 2, 'red', 'SWE', 'Niklas EDIN', 'Draw', 'out', 75),
+         (3, 1, 3, 'yellow', 'SUI', 'Yannick SCHWALLER', 'Draw', 'in', 50),
+         (4, 2, 2, 'red', 'SWE', 'N. EDIN', 'Draw', 'in', 100)`
+    ),
+    db.prepare(
+      `INSERT INTO stone_positions (shot_id, color, x, y)
+       VALUES
+         (1, 'yellow', 0, 100),
+         (2, 'yellow', 0, 100), (2, 'red', 10, -20),
+         (3, 'yellow', 0, 100), (3, 'red', 10, -20), (3, 'yellow', -30, 0),
+         (4, 'yellow', 0, -100), (4, 'red', -10, 20)`
+    )
+  ]);
+});
+
+describe("/api/shot/:id.png", () => {
+  const pngSize = async (response: Response) => {
+    const view = new DataView(await response.arrayBuffer());
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  };
+
+  it("renders the layout at twice the drawing size by default", async () => {
+    const response = await get("/api/shot/2.png");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect(await pngSize(response)).toEqual({
+      width: HOUSE_WIDTH * 2,
+      height: HOUSE_HEIGHT * 2
+    });
+  });
+
+  it("renders at scale 1 and rejects any other scale", async () => {
+    expect(await pngSize(await get("/api/shot/2.png?scale=1"))).toEqual({
+      width: HOUSE_WIDTH,
+      height: HOUSE_HEIGHT
+    });
+    for (const scale of ["4", "1.5", "0"]) {
+      expect((await get(`/api/shot/2.png?scale=${scale}`)).status).toBe(400);
+    }
+  });
+
+  it("serves repeat requests from the cache", async () => {
+    const first = await (await get("/api/shot/3.png")).arrayBuffer();
+    await env.DB.prepare("DELETE FROM stone_positions WHERE shot_id = 3").run();
+    const second = await (await get("/api/shot/3.png?scale=2")).arrayBuffer();
+    expect(new Uint8Array(second)).toEqual(new Uint8Array(first));
+  });
+
+  it("returns 404 for an unknown shot", async () => {
+    expect((await get("/api/shot/99.png")).status).toBe(404);
+  });
+});
+
+describe("/api/positions/similar", () => {
+  it("matches layouts recorded from either end of the sheet", async () => {
+    const response = await get("/api/positions/similar?shotId=2");
+    expect(response.status).toBe(200);
+    const { positions } = (await response.json()) as {
+      positions: SimilarPosition[];
+    };
+    expect(positions.map(({ shotId }) => shotId)).toEqual([4]);
+    expect(positions[0].distance).toBeCloseTo(0);
+    expect(positions[0].end.number).toBe(2);
+  });
+
+  it("keeps at least one result for a limit below one", async () => {
+    const response = await get("/api/positions/similar?shotId=2&limit=-1");
+    expect(response.status).toBe(200);
+    const { positions } = (await response.json()) as {
+      positions: SimilarPosition[];
+    };
+    expect(positions).toHaveLength(1);
+  });
+
+  it("returns 404 for an unknown shot", async () => {
+    expect((await get("/api/positions/similar?shotId=99")).status).toBe(404);
+  });
+});
+
+describe("player merges", () => {
+  const listPlayers = async () => {
+    const response = await get("/api/players?team=SWE");
+    return ((await response.json()) as { players: Player[] }).players;
+  };
+
+  it("maps spellings to one player and folds earlier merges", async () => {
+    const first = await mergePlayerNames(env.DB, {
+      canonicalName: "N. EDIN",
+      team: "SWE",
+      rawNames: ["N. EDIN"]
+    });
+    const second = await mergePlayerNames(env.DB, {
+      canonicalName: "Niklas EDIN",
+      team: "SWE",
+      rawNames: ["Niklas EDIN"]
+    });
+    expect(await listPlayers()).toEqual([first, second]);
+
+    const merged = await mergePlayerNames(env.DB, {
+      canonicalName: "Niklas EDIN",
+      team: "SWE",
+      rawNames: ["N. EDIN", "Niklas EDIN"]
+    });
+    expect(merged).toEqual({
+      id: first.id,
+      name: "Niklas EDIN",
+      team: "SWE",
+      aliases: ["N. EDIN", "Niklas EDIN"]
+    });
+    const [player, ...others] = await listPlayers();
+    expect(others).toEqual([]);
+    expect(player.id).toBe(merged.id);
+    expect(player.aliases.sort()).toEqual(merged.aliases);
+
+    const canonical = await env.DB.prepare(
+      "SELECT DISTINCT player_id, canonical_name FROM shots_canonical WHERE team = 'SWE'"
+    ).all();
+    expect(canonical.results).toEqual([
+      { player_id: first.id, canonical_name: "Niklas EDIN" }
+    ]);
+  });
+
+  it("rejects spellings the team never threw a shot under", async () => {
+    await expect(
+      mergePlayerNames(env.DB, {
+        canonicalName: "Niklas EDIN",
+        team: "SWE",
+        rawNames: ["Niklas EDIN", "Yannick SCHWALLER", "Nik EDIN"]
+      })
+    ).rejects.toThrow("No shots by Yannick SCHWALLER, Nik EDIN for team SWE");
+    expect(await listPlayers()).toEqual([]);
+  });
+});
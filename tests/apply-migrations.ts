@@ -0,0 +1,67 @@
+/**
+ * Vitest setup: the tables of the WCF dataset, which the migrations build
+ * on, and then every migration, in the test D1 database
+ */
+import { applyD1Migrations, env } from "cloudflare:test";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+  }
+}
+
+// The dataset import creates these; only the columns the app reads
+const DATASET_TABLES = [
+  `CREATE TABLE IF NOT EXISTS events(
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    start_date TEXT,
+    end_date TEXT
+  )`,
+  `CREATE TABLE IF NOT EXISTS games(
+    id INTEGER PRIMARY KEY,
+    event_id INTEGER NOT NULL REFERENCES events(id),
+    session TEXT,
+    name TEXT,
+    sheet TEXT,
+    type TEXT,
+    start_date TEXT,
+    start_time TEXT,
+    team_red TEXT NOT NULL,
+    team_yellow TEXT NOT NULL,
+    final_score_red,
+    final_score_yellow
+  )`,
+  `CREATE TABLE IF NOT EXISTS ends(
+    id INTEGER PRIMARY KEY,
+    game_id INTEGER NOT NULL REFERENCES games(id),
+    number INTEGER NOT NULL,
+    direction INTEGER,
+    color_hammer TEXT,
+    score_red,
+    score_yellow,
+    time_left_red,
+    time_left_yellow
+  )`,
+  `CREATE TABLE IF NOT EXISTS shots(
+    id INTEGER PRIMARY KEY,
+    end_id INTEGER NOT NULL REFERENCES ends(id),
+    number INTEGER NOT NULL,
+    color TEXT,
+    team TEXT,
+    player_name TEXT,
+    type TEXT,
+    turn TEXT,
+    percent_score
+  )`,
+  `CREATE TABLE IF NOT EXISTS stone_positions(
+    id INTEGER PRIMARY KEY,
+    shot_id INTEGER NOT NULL REFERENCES shots(id),
+    color TEXT NOT NULL,
+    x REAL NOT NULL,
+    y REAL NOT NULL
+  )`
+];
+
+await env.DB.batch(DATASET_TABLES.map((sql) => env.DB.prepare(sql)));
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import {
+  feetToUnits,
+  metresToUnits,
+  normalizeDirection,
+  toLength,
+  toPhysical
+} from "../src/lib/coordinates";
+import type { StonePosition } from "../src/lib/domain";
+
+describe("toLength", () => {
+  it("converts stone_positions units to feet and metres", () => {
+    expect(feetToUnits(6)).toBe(120);
+    expect(toLength(120)).toBe(6);
+    expect(toLength(120, "m")).toBe(1.829);
+    expect(toLength(metresToUnits(1.829), "m")).toBe(1.829);
+  });
+
+  it("gives offsets from the button", () => {
+    expect(toPhysical({ x: -30, y: 45 })).toEqual({ x: -1.5, y: 2.25 });
+    expect(toPhysical({ x: 20, y: 0 }, "m")).toEqual({ x: 0.305, y: 0 });
+  });
+});
+
+describe("normalizeDirection", () => {
+  const stones: StonePosition[] = [
+    { color: "red", x: 30, y: -40 },
+    { color: "yellow", x: 0, y: 200 }
+  ];
+
+  it("leaves ends recorded the usual way alone", () => {
+    expect(normalizeDirection(stones, 1)).toBe(stones);
+    expect(normalizeDirection(stones, null)).toBe(stones);
+  });
+
+  it("turns ends recorded from the other end half a turn", () => {
+    expect(normalizeDirection(stones, -1)).toEqual([
+      { color: "red", x: -30, y: 40 },
+      { color: "yellow", x: 0, y: -200 }
+    ]);
+  });
+});
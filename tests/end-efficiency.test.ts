@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyEnds,
+  computeEndEfficiency,
+  endOutcome,
+  scoreSituation
+} from "../src/lib/end-efficiency";
+import type { End, GameSummary, Hammer } from "../src/lib/domain";
+
+const game = (
+  id: number,
+  teamRed: string,
+  teamYellow: string,
+  ends: Array<[Hammer, number | null, number | null]>,
+  eventId = 1
+): GameSummary => ({
+  game: {
+    id,
+    eventId,
+    session: null,
+    name: null,
+    sheet: null,
+    type: null,
+    startDate: null,
+    startTime: null,
+    teamRed,
+    teamYellow,
+    finalScoreRed: null,
+    finalScoreYellow: null,
+    isWinLoss: false,
+    winner: null
+  },
+  event: {
+    id: eventId,
+    name: `Event ${eventId}`,
+    startDate: null,
+    endDate: null
+  },
+  ends: ends.map(
+    ([hammer, scoreRed, scoreYellow], i): End => ({
+      id: id * 100 + i,
+      gameId: id,
+      number: i + 1,
+      direction: null,
+      hammer,
+      scoreRed,
+      scoreYellow,
+      timeLeftRed: null,
+      timeLeftYellow: null
+    })
+  )
+});
+
+// SWE (red) vs CAN (yellow): CAN converts 2, SWE is forced, SWE blanks,
+// CAN steals 1 from SWE, then the score is unknown for an end
+const SWE_CAN = game(1, "SWE", "CAN", [
+  ["yellow", 0, 2],
+  ["red", 1, 0],
+  ["yellow", 0, 1],
+  ["red", 0, 0],
+  ["red", 0, 1],
+  ["unknown", 1, 0]
+]);
+
+describe("endOutcome", () => {
+  it("classifies from the hammer team's side", () => {
+    expect(endOutcome(3, 0)).toBe("conversion");
+    expect(endOutcome(2, 0)).toBe("conversion");
+    expect(endOutcome(1, 0)).toBe("force");
+    expect(endOutcome(0, 0)).toBe("blank");
+    expect(endOutcome(0, 1)).toBe("steal");
+  });
+});
+
+describe("scoreSituation", () => {
+  it("buckets the differential", () => {
+    expect(scoreSituation(-5)).toBe("down_3_plus");
+    expect(scoreSituation(-2)).toBe("down_2");
+    expect(scoreSituation(0)).toBe("tied");
+    expect(scoreSituation(1)).toBe("up_1");
+    expect(scoreSituation(4)).toBe("up_3_plus");
+  });
+});
+
+describe("classifyEnds", () => {
+  it("tracks the hammer team's running differential", () => {
+    const { ends, skipped } = classifyEnds(SWE_CAN);
+    expect(skipped).toBe(1);
+    expect(
+      ends.map((end) => [end.hammerTeam, end.outcome, end.differential])
+    ).toEqual([
+      ["CAN", "conversion", 0],
+      ["SWE", "force", -2],
+      ["CAN", "force", 1],
+      ["SWE", "blank", -2],
+      ["SWE", "steal", -2]
+    ]);
+    expect(ends[4].points).toBe(-1);
+  });
+});
+
+describe("computeEndEfficiency", () => {
+  it("counts every end for the team with hammer", () => {
+    const result = computeEndEfficiency([SWE_CAN]);
+    expect(result.overall.withHammer).toMatchObject({
+      ends: 5,
+      conversions: 1,
+      forces: 2,
+      steals: 1,
+      blanks: 1,
+      conversionRate: 0.2,
+      netPointsPerEnd: 0.6
+    });
+    expect(result.overall.withoutHammer).toBeUndefined();
+    expect(result.skippedEnds).toBe(1);
+  });
+
+  it("groups by team with and without hammer", () => {
+    const { groups } = computeEndEfficiency([SWE_CAN], { groupBy: "team" });
+    const swe = groups.find((group) => group.key === "SWE");
+    expect(swe?.withHammer).toMatchObject({ ends: 3, forces: 1, steals: 1 });
+    // CAN's ends with hammer: SWE allowed a conversion and forced once
+    expect(swe?.withoutHammer).toMatchObject({
+      ends: 2,
+      conversions: 1,
+      forces: 1
+    });
+  });
+
+  it("filters to one team", () => {
+    const other = game(2, "NOR", "SCO", [["red", 2, 0]]);
+    const result = computeEndEfficiency([SWE_CAN, other], {
+      groupBy: "endNumber",
+      team: "CAN"
+    });
+    expect(result.team).toBe("CAN");
+    expect(result.overall.withHammer.ends).toBe(2);
+    expect(result.overall.withoutHammer?.steals).toBe(1);
+    expect(result.groups.map((group) => group.key)).toEqual([1, 2, 3, 4, 5]);
+    expect(result.groups[0].label).toBe("End 1");
+  });
+
+  it("orders score situations from down to up", () => {
+    const { groups } = computeEndEfficiency([SWE_CAN], {
+      groupBy: "situation"
+    });
+    expect(groups.map((group) => [group.key, group.withHammer.ends])).toEqual([
+      ["down_2", 3],
+      ["tied", 1],
+      ["up_1", 1]
+    ]);
+  });
+
+  it("groups by event", () => {
+    const { groups } = computeEndEfficiency(
+      [SWE_CAN, game(2, "NOR", "SCO", [["red", 2, 0]], 7)],
+      { groupBy: "event" }
+    );
+    expect(groups.map((group) => [group.key, group.label])).toEqual([
+      [1, "Event 1"],
+      [7, "Event 7"]
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  HEATMAP_CELL_SIZE,
+  binStones,
+  buildHeatmap,
+  heatmapHotspots,
+  heatmapPath,
+  summarizeHeatmap
+} from "../src/lib/heatmap";
+import type {
+  Shot,
+  ShotSnapshots,
+  StoneColor,
+  StonePosition
+} from "../src/lib/domain";
+import { red, yellow } from "./stones";
+
+const snapshots = (
+  color: StoneColor,
+  before: StonePosition[],
+  after: StonePosition[]
+): ShotSnapshots => {
+  const shot: Shot = {
+    id: 1,
+    endId: 1,
+    number: 1,
+    color,
+    team: "SWE",
+    playerName: "Player",
+    type: "Draw",
+    turn: null,
+    percentScore: null
+  };
+  return { shot, before, after };
+};
+
+describe("binStones", () => {
+  it("counts stones per one-foot cell", () => {
+    const cells = binStones([red(1, 1), yellow(5, 8), red(30, 1)]);
+    expect(cells).toHaveLength(2);
+    const busiest = cells.find((cell) => cell.count === 2);
+    expect(busiest).toBeDefined();
+    // The cell holding both stones contains them
+    expect(Math.abs(busiest!.x - 3)).toBeLessThanOrEqual(HEATMAP_CELL_SIZE);
+    expect(Math.abs(busiest!.y - 4)).toBeLessThanOrEqual(HEATMAP_CELL_SIZE);
+  });
+
+  it("leaves out stones off the drawn sheet", () => {
+    expect(binStones([red(1000, 0), red(0, -1000)])).toEqual([]);
+  });
+});
+
+describe("buildHeatmap", () => {
+  const shots = [
+    snapshots("red", [], [red(0, 10)]),
+    snapshots("yellow", [red(0, 10)], [red(0, 10), yellow(0, 200)]),
+    // Red's stone left play without touching anything
+    snapshots("red", [red(0, 10), yellow(0, 200)], [red(0, 10), yellow(0, 200)])
+  ];
+
+  it("counts thrown stones by default", () => {
+    const heatmap = buildHeatmap(shots);
+    expect(heatmap).toMatchObject({
+      source: "delivered",
+      shots: 3,
+      stones: 2,
+      max: 1
+    });
+  });
+
+  it("counts every stone after each shot", () => {
+    const heatmap = buildHeatmap(shots, { source: "all" });
+    expect(heatmap.stones).toBe(5);
+    expect(heatmap.max).toBe(3);
+    expect(heatmapHotspots(heatmap, 1)[0].count).toBe(3);
+  });
+});
+
+describe("summarizeHeatmap", () => {
+  it("leaves out the grid but keeps its extent and busiest cells", () => {
+    const summary = summarizeHeatmap(
+      buildHeatmap([snapshots("red", [], [red(0, 10), yellow(0, 200)])], {
+        source: "all"
+      })
+    );
+    expect(summary).not.toHaveProperty("cells");
+    expect(summary).toMatchObject({ shots: 1, stones: 2, cellCount: 2 });
+    expect(summary.bounds).toEqual({
+      left: -10,
+      right: 10,
+      bottom: 0,
+      top: 220
+    });
+    expect(summary.hotspots).toHaveLength(2);
+  });
+});
+
+describe("heatmapPath", () => {
+  it("requests the same heatmap from the API", () => {
+    expect(
+      heatmapPath("delivered", {
+        playerName: "Niklas Edin",
+        type: "Draw",
+        gameId: undefined
+      })
+    ).toBe("/api/heatmap?source=delivered&type=Draw&player=Niklas+Edin");
+  });
+});
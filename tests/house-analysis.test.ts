@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeHouse,
+  countingStones,
+  stoneZone
+} from "../src/lib/house-analysis";
+import { red, yellow } from "./stones";
+
+describe("countingStones", () => {
+  it("counts stones closer than the nearest opponent", () => {
+    expect(countingStones([red(0, 10), red(30, 0), yellow(50, 0)])).toEqual({
+      color: "red",
+      count: 2
+    });
+    expect(countingStones([yellow(5, 5), red(0, 20)])).toEqual({
+      color: "yellow",
+      count: 1
+    });
+  });
+
+  it("ignores stones outside the house", () => {
+    expect(countingStones([red(0, 200)])).toBeNull();
+    expect(countingStones([red(0, -200), yellow(100, 0)])).toEqual({
+      color: "yellow",
+      count: 1
+    });
+  });
+
+  it("counts a stone biting the 12-foot ring", () => {
+    // 12-foot radius is 120, a stone radius about 9
+    expect(countingStones([red(0, 128)])).toEqual({ color: "red", count: 1 });
+    expect(countingStones([red(0, 130)])).toBeNull();
+  });
+});
+
+describe("stoneZone", () => {
+  it("tells guards from stones behind the house", () => {
+    expect(stoneZone(red(0, 0))).toBe("in_house");
+    expect(stoneZone(red(10, 200))).toBe("guard");
+    expect(stoneZone(red(10, -150))).toBe("behind");
+  });
+});
+
+describe("analyzeHouse", () => {
+  it("ranks in-house stones and measures them in feet", () => {
+    const analysis = analyzeHouse([
+      yellow(0, 250),
+      red(0, 40),
+      yellow(30, 0),
+      red(0, 0)
+    ]);
+
+    expect(analysis.counting).toEqual({ color: "red", count: 1 });
+    expect(analysis.shotRock).toMatchObject({
+      color: "red",
+      distance: 0,
+      rank: 1,
+      counting: true
+    });
+    expect(
+      analysis.stones.map((stone) => [stone.color, stone.zone, stone.rank])
+    ).toEqual([
+      ["red", "in_house", 1],
+      ["yellow", "in_house", 2],
+      ["red", "in_house", 3],
+      ["yellow", "guard", null]
+    ]);
+    expect(analysis.stones[1].distance).toBe(1.5);
+    expect(analysis.inHouse).toEqual({ red: 2, yellow: 1 });
+    expect(analysis.guards).toEqual({ red: 0, yellow: 1 });
+  });
+
+  it("measures in metres on request", () => {
+    const analysis = analyzeHouse([yellow(30, -40)], { unit: "m" });
+    expect(analysis.unit).toBe("m");
+    expect(analysis.stones[0]).toMatchObject({
+      distance: 0.762,
+      offset: { x: 0.457, y: -0.61 }
+    });
+  });
+
+  it("handles an empty house", () => {
+    const analysis = analyzeHouse([red(0, -300)]);
+    expect(analysis.shotRock).toBeNull();
+    expect(analysis.counting).toBeNull();
+    expect(analysis.stones[0].counting).toBe(false);
+  });
+});
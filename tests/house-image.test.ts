@@ -0,0 +1,114 @@
+import { inflateSync } from "node:zlib";
+import { describe, it, expect } from "vitest";
+import {
+  rasterizeShapes,
+  renderHousePng,
+  renderHouseSvg
+} from "../src/lib/house-image";
+import {
+  BUTTON_CENTER,
+  HOUSE_HEIGHT,
+  HOUSE_WIDTH,
+  houseShapes
+} from "../src/lib/house-geometry";
+import type { StonePosition } from "../src/lib/domain";
+
+const stones: StonePosition[] = [
+  { color: "red", x: 0, y: 0 },
+  { color: "yellow", x: -60, y: 40 }
+];
+
+describe("renderHouseSvg", () => {
+  it("draws the rings and one circle per stone", () => {
+    const svg = renderHouseSvg(stones);
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    // 4 rings + 2 stones
+    expect(svg.match(/<circle /g)).toHaveLength(6);
+    expect(svg).toContain('fill="#ff6464"');
+    expect(svg).toContain('fill="#FFFF05"');
+  });
+
+  it("escapes the title", () => {
+    expect(renderHouseSvg([], "Draw <to> the 4 & out")).toContain(
+      "<title>Draw &lt;to&gt; the 4 &amp; out</title>"
+    );
+  });
+});
+
+describe("rasterizeShapes", () => {
+  const pixelAt = (
+    image: ReturnType<typeof rasterizeShapes>,
+    x: number,
+    y: number
+  ) => {
+    const offset = (y * image.width + x) * 3;
+    return [...image.pixels.subarray(offset, offset + 3)];
+  };
+
+  it("paints shapes in order at the requested scale", () => {
+    const image = rasterizeShapes(
+      houseShapes(stones),
+      HOUSE_WIDTH,
+      HOUSE_HEIGHT,
+      2
+    );
+    expect(image.width).toBe(HOUSE_WIDTH * 2);
+    expect(image.height).toBe(HOUSE_HEIGHT * 2);
+
+    // The red stone sits on the button, a little off the tee and center lines
+    const onStone = pixelAt(
+      image,
+      (BUTTON_CENTER.x + 5) * 2,
+      (BUTTON_CENTER.y + 5) * 2
+    );
+    expect(onStone).toEqual([0xff, 0x64, 0x64]);
+
+    // Ice in a corner
+    expect(pixelAt(image, 2, 2)).toEqual([0xf0, 0xf8, 0xff]);
+  });
+
+  it("blends rectangle and line edges by how much of each pixel they cover", () => {
+    const image = rasterizeShapes(
+      [
+        { kind: "rect", x: 0.5, y: 0, width: 1, height: 1, fill: "#000" },
+        {
+          kind: "line",
+          x1: 0,
+          y1: 2,
+          x2: 3,
+          y2: 2,
+          stroke: "#000",
+          strokeWidth: 1
+        }
+      ],
+      3,
+      3
+    );
+    expect(pixelAt(image, 0, 0)).toEqual([128, 128, 128]);
+    expect(pixelAt(image, 1, 0)).toEqual([128, 128, 128]);
+    expect(pixelAt(image, 2, 0)).toEqual([255, 255, 255]);
+    // The line is centered on y = 2, so it covers half of rows 1 and 2
+    expect(pixelAt(image, 1, 1)).toEqual([128, 128, 128]);
+    expect(pixelAt(image, 1, 2)).toEqual([128, 128, 128]);
+  });
+});
+
+describe("renderHousePng", () => {
+  it("encodes a valid PNG with the expected dimensions", async () => {
+    const png = await renderHousePng(stones, 1);
+    expect([...png.subarray(0, 8)]).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a
+    ]);
+
+    const view = new DataView(png.buffer, png.byteOffset);
+    expect(view.getUint32(16)).toBe(HOUSE_WIDTH);
+    expect(view.getUint32(20)).toBe(HOUSE_HEIGHT);
+
+    // IDAT follows the 13-byte IHDR chunk; each row is a filter byte + RGB
+    const idatLength = view.getUint32(33);
+    const idat = png.subarray(41, 41 + idatLength);
+    expect(inflateSync(idat)).toHaveLength(
+      (HOUSE_WIDTH * 3 + 1) * HOUSE_HEIGHT
+    );
+  });
+});
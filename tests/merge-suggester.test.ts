@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { compareNames, suggestMerges } from "../src/lib/merge-suggester";
+import type { PlayerNameUsage } from "../src/lib/domain";
+
+const usage = (
+  name: string,
+  team: string,
+  eventIds: number[],
+  gameIds: number[],
+  overrides: Partial<PlayerNameUsage> = {}
+): PlayerNameUsage => ({
+  name,
+  team,
+  shotCount: gameIds.length * 20,
+  eventIds,
+  gameIds,
+  playerId: null,
+  ...overrides
+});
+
+describe("compareNames", () => {
+  it("treats case and accent differences as identical", () => {
+    expect(compareNames("Torger NERGÅRD", "torger nergard").similarity).toBe(1);
+  });
+
+  it("recognizes initials", () => {
+    expect(compareNames("N. EDIN", "Niklas EDIN").similarity).toBe(0.9);
+  });
+
+  it("scores typos by edit distance", () => {
+    const { similarity } = compareNames("Niklas EDlN", "Niklas EDIN");
+    expect(similarity).toBeCloseTo(1 - 1 / 11);
+  });
+});
+
+describe("suggestMerges", () => {
+  it("suggests a parser typo within one event, keeping the common spelling", () => {
+    const [suggestion, ...rest] = suggestMerges([
+      usage("Niklas EDIN", "SWE", [1, 2], [10, 11, 20, 21]),
+      usage("Niklas EDlN", "SWE", [2], [22]),
+      usage("Oskar ERIKSSON", "SWE", [1, 2], [10, 11, 20, 21, 22])
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(suggestion.canonicalName).toBe("Niklas EDIN");
+    expect(suggestion.names.map((n) => n.name)).toEqual([
+      "Niklas EDIN",
+      "Niklas EDlN"
+    ]);
+    expect(suggestion.reasons).toContain(
+      "Both used in 1 event, never in the same game"
+    );
+  });
+
+  it("never merges names used in the same game", () => {
+    expect(
+      suggestMerges([
+        usage("Anna SMITH", "USA", [1], [10]),
+        usage("Anne SMITH", "USA", [1], [10])
+      ])
+    ).toEqual([]);
+  });
+
+  it("only compares names within a team code", () => {
+    expect(
+      suggestMerges([
+        usage("Niklas EDIN", "SWE", [1], [10]),
+        usage("Niklas EDIN", "NOR", [2], [20])
+      ])
+    ).toEqual([]);
+  });
+
+  it("skips names already mapped to the same player", () => {
+    expect(
+      suggestMerges([
+        usage("N. EDIN", "SWE", [1], [10], { playerId: 7 }),
+        usage("Niklas EDIN", "SWE", [2], [20], { playerId: 7 })
+      ])
+    ).toEqual([]);
+  });
+
+  it("ranks overlapping events above disjoint ones", () => {
+    const suggestions = suggestMerges([
+      usage("Niklas EDIN", "SWE", [1, 2], [10, 20]),
+      usage("N. EDIN", "SWE", [3], [30]),
+      usage("Anna HASSELBORG", "SWE", [1, 2], [11, 21]),
+      usage("Anna HASSELB0RG", "SWE", [2], [22])
+    ]);
+    expect(suggestions.map((s) => s.canonicalName)).toEqual([
+      "Anna HASSELBORG",
+      "Niklas EDIN"
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildNameIndex,
+  editDistance,
+  normalizeName,
+  searchNameIndex
+} from "../src/lib/name-match";
+
+const players = buildNameIndex(
+  [
+    { name: "Niklas EDIN", team: "SWE", events: 12 },
+    { name: "Oskar ERIKSSON", team: "SWE", events: 10 },
+    { name: "Brad GUSHUE", team: "CAN", events: 9 },
+    { name: "Yannick SCHWALLER", team: "SUI", events: 6 },
+    { name: "Magnus NEDREGOTTEN", team: "NOR", events: 4 },
+    { name: "Torger NERGÅRD", team: "NOR", events: 8 },
+    { name: "Anna HASSELBORG", team: "SWE", events: 11 }
+  ].map((player) => ({
+    item: player,
+    name: player.name,
+    context: [player.team],
+    weight: player.events
+  }))
+);
+
+const names = (query: string, options = {}) =>
+  searchNameIndex(players, query, options).map(({ item }) => item.name);
+
+describe("normalizeName", () => {
+  it("strips case, accents and punctuation", () => {
+    expect(normalizeName("  Torger  NERGÅRD ")).toBe("torger nergard");
+    expect(normalizeName("Søren O'Brien-Łukasz")).toBe("soren o brien lukasz");
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("edin", "eden")).toBe(1);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+});
+
+describe("searchNameIndex", () => {
+  it("matches a surname alone", () => {
+    expect(names("Edin")[0]).toBe("Niklas EDIN");
+  });
+
+  it("scores a full name match as exact regardless of word order", () => {
+    const [best] = searchNameIndex(players, "edin niklas");
+    expect(best.item.name).toBe("Niklas EDIN");
+    expect(best.score).toBeGreaterThan(0.95);
+  });
+
+  it("ignores accents in the query and the stored name", () => {
+    expect(names("Nergard")[0]).toBe("Torger NERGÅRD");
+    expect(names("nergård")[0]).toBe("Torger NERGÅRD");
+  });
+
+  it("tolerates small typos", () => {
+    expect(names("Gushew")[0]).toBe("Brad GUSHUE");
+    expect(names("Schwaler")[0]).toBe("Yannick SCHWALLER");
+  });
+
+  it("accepts initials", () => {
+    expect(names("N Edin")[0]).toBe("Niklas EDIN");
+  });
+
+  it("uses team codes as context and ignores position words", () => {
+    expect(names("SWE Edin")[0]).toBe("Niklas EDIN");
+    expect(names("SWE skip", { ignoredWords: ["skip"] })).toEqual([
+      "Niklas EDIN",
+      "Anna HASSELBORG",
+      "Oskar ERIKSSON"
+    ]);
+  });
+
+  it("returns nothing for unrelated names", () => {
+    expect(names("Homan")).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeGameResult,
+  normalizeHammer,
+  normalizeNumber,
+  normalizeTurn
+} from "../src/lib/normalize";
+
+describe("normalizeNumber", () => {
+  it("maps 'NaN' and missing values to null", () => {
+    expect(normalizeNumber("NaN")).toBeNull();
+    expect(normalizeNumber(null)).toBeNull();
+    expect(normalizeNumber(Number.NaN)).toBeNull();
+    expect(normalizeNumber("")).toBeNull();
+  });
+
+  it("keeps numbers and numeric strings", () => {
+    expect(normalizeNumber(7)).toBe(7);
+    expect(normalizeNumber("87.5")).toBe(87.5);
+  });
+});
+
+describe("normalizeGameResult", () => {
+  it("flags 999/0 as a Win/Loss game", () => {
+    expect(normalizeGameResult(0, 999)).toEqual({
+      finalScoreRed: null,
+      finalScoreYellow: null,
+      isWinLoss: true,
+      winner: "yellow"
+    });
+  });
+
+  it("derives the winner from the final score", () => {
+    expect(normalizeGameResult(8, 5)).toMatchObject({
+      finalScoreRed: 8,
+      isWinLoss: false,
+      winner: "red"
+    });
+    expect(normalizeGameResult(6, 6).winner).toBe("tie");
+  });
+
+  it("leaves the winner unknown when a score is 'NaN'", () => {
+    expect(normalizeGameResult("NaN", "NaN")).toEqual({
+      finalScoreRed: null,
+      finalScoreYellow: null,
+      isWinLoss: false,
+      winner: null
+    });
+  });
+});
+
+describe("normalizeHammer", () => {
+  it("maps parser errors to unknown", () => {
+    expect(normalizeHammer("red")).toBe("red");
+    expect(normalizeHammer("Yellow")).toBe("yellow");
+    expect(normalizeHammer("error_color")).toBe("unknown");
+    expect(normalizeHammer(null)).toBe("unknown");
+  });
+});
+
+describe("normalizeTurn", () => {
+  it("parses the rotation format", () => {
+    expect(normalizeTurn("Clockwise")).toEqual({
+      rotation: "clockwise",
+      handle: "in",
+      recorded: "rotation",
+      handedness: "right"
+    });
+    expect(normalizeTurn("Counter-clockwise")?.rotation).toBe(
+      "counterclockwise"
+    );
+  });
+
+  it("parses the handle format using handedness", () => {
+    expect(normalizeTurn("In")?.rotation).toBe("clockwise");
+    expect(normalizeTurn("In", "left")?.rotation).toBe("counterclockwise");
+    expect(normalizeTurn("Out")).toMatchObject({
+      handle: "out",
+      recorded: "handle"
+    });
+  });
+
+  it("returns null for unknown values", () => {
+    expect(normalizeTurn("NaN")).toBeNull();
+    expect(normalizeTurn(null)).toBeNull();
+  });
+});
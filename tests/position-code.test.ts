@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  type CustomPosition,
+  decodePosition,
+  describePosition,
+  encodePosition,
+  throwerOf
+} from "../src/lib/position-code";
+
+const position: CustomPosition = {
+  shotNumber: 5,
+  hammer: "red",
+  stones: [
+    { color: "red", x: 12, y: -40 },
+    { color: "yellow", x: 0, y: 3 },
+    { color: "yellow", x: -20, y: 200 }
+  ]
+};
+
+describe("encodePosition", () => {
+  it("writes the shot, hammer and stones", () => {
+    expect(encodePosition(position)).toBe("5r_r12.-40_y0.3_y-20.200");
+    expect(
+      encodePosition({ shotNumber: 1, hammer: "yellow", stones: [] })
+    ).toBe("1y");
+  });
+
+  it("rounds coordinates to whole units", () => {
+    expect(
+      encodePosition({
+        shotNumber: 2,
+        hammer: "red",
+        stones: [{ color: "red", x: 10.4, y: -3.6 }]
+      })
+    ).toBe("2r_r10.-4");
+  });
+});
+
+describe("decodePosition", () => {
+  it("round-trips through encodePosition", () => {
+    expect(decodePosition(encodePosition(position))).toEqual(position);
+  });
+
+  it("rejects anything that isn't a position code", () => {
+    for (const code of ["", "r", "0r", "17y", "5b", "5r_r12", "5r_x1.2"]) {
+      expect(decodePosition(code)).toBeNull();
+    }
+  });
+});
+
+describe("describePosition", () => {
+  it("says who throws next and where the stones are", () => {
+    expect(throwerOf(position)).toBe("yellow");
+    expect(throwerOf({ ...position, shotNumber: 6 })).toBe("red");
+
+    const text = describePosition(position);
+    expect(text).toContain("`5r_r12.-40_y0.3_y-20.200`");
+    expect(text).toContain("shot 5 is next, thrown by yellow");
+    expect(text).toContain("yellow is sitting 1.");
+    expect(text).toContain("- yellow (-20, 200): guard");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  mirrorStones,
+  positionDistance,
+  positionSignature,
+  rankSimilarPositions
+} from "../src/lib/position-search";
+import { red, yellow } from "./stones";
+
+describe("positionSignature", () => {
+  it("counts and centers each color", () => {
+    expect(
+      positionSignature([red(0, 0), red(20, -40), yellow(-10, 10)])
+    ).toEqual({
+      redCount: 2,
+      yellowCount: 1,
+      red: { x: 10, y: -20 },
+      yellow: { x: -10, y: 10 }
+    });
+    expect(positionSignature([]).red).toBeNull();
+  });
+});
+
+describe("positionDistance", () => {
+  it("ignores the order stones are listed in", () => {
+    const a = [red(0, 0), red(40, -100), yellow(-30, 20)];
+    const b = [yellow(-30, 20), red(40, -100), red(0, 0)];
+    expect(positionDistance(a, b)).toBe(0);
+  });
+
+  it("averages the distance between paired stones", () => {
+    expect(
+      positionDistance([red(0, 0), red(100, 0)], [red(100, 20), red(0, 20)])
+    ).toBeCloseTo(20);
+  });
+
+  it("never pairs stones of different colors", () => {
+    expect(positionDistance([red(0, 0)], [yellow(0, 0)])).toBeGreaterThan(
+      positionDistance([red(0, 0)], [red(200, 0)])
+    );
+  });
+});
+
+describe("rankSimilarPositions", () => {
+  const query = [red(-60, -150), yellow(10, 10)];
+  const candidates = [
+    { shotId: 1, stones: [red(-60, -150), yellow(30, 10)] },
+    { shotId: 2, stones: [red(60, -150), yellow(-10, 10)] },
+    { shotId: 3, stones: [red(-20, -150), yellow(10, 10)] }
+  ];
+
+  it("ranks by distance in feet, nearest first", () => {
+    const matches = rankSimilarPositions(query, candidates);
+    expect(matches.map((match) => match.shotId)).toEqual([1, 3, 2]);
+    expect(matches[0]).toEqual({ shotId: 1, distance: 0.5, mirrored: false });
+  });
+
+  it("matches mirrored layouts when asked", () => {
+    const matches = rankSimilarPositions(query, candidates, {
+      mirror: true,
+      limit: 1
+    });
+    expect(matches).toEqual([{ shotId: 2, distance: 0, mirrored: true }]);
+    expect(mirrorStones(query)[0]).toEqual(red(60, -150));
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectGameFormat,
+  inferLineups,
+  positionForShot,
+  type PositionedShot
+} from "../src/lib/positions";
+
+const FOURS = ["Lead", "Second", "Vice", "Skip"];
+
+/**
+ * Every shot of an end for both teams, red throwing first; players are
+ * listed in throwing order
+ */
+const end = (
+  endNumber: number,
+  red: string[],
+  yellow: string[],
+  stonesPerPlayer = 2
+): PositionedShot[] =>
+  Array.from({ length: red.length * stonesPerPlayer * 2 }, (_, i) => {
+    const shotNumber = i + 1;
+    const color = shotNumber % 2 === 1 ? "red" : "yellow";
+    const players = color === "red" ? red : yellow;
+    const stone = Math.ceil(shotNumber / 2);
+    return {
+      endNumber,
+      shotNumber,
+      color,
+      team: color === "red" ? "SWE" : "CAN",
+      playerName: players[Math.floor((stone - 1) / stonesPerPlayer)],
+      percentScore: 75
+    };
+  });
+
+describe("positionForShot", () => {
+  it("assigns two stones per player in fours", () => {
+    expect(
+      Array.from({ length: 16 }, (_, i) => positionForShot(i + 1, "fours"))
+    ).toEqual(
+      ["lead", "second", "vice", "skip"].flatMap((position) =>
+        Array(4).fill(position)
+      )
+    );
+  });
+
+  it("gives the first and last stones to one player in mixed doubles", () => {
+    expect(
+      Array.from({ length: 10 }, (_, i) =>
+        positionForShot(i + 1, "mixed_doubles")
+      )
+    ).toEqual([
+      "first_last",
+      "first_last",
+      "middle",
+      "middle",
+      "middle",
+      "middle",
+      "middle",
+      "middle",
+      "first_last",
+      "first_last"
+    ]);
+  });
+});
+
+describe("detectGameFormat", () => {
+  it("uses the event name", () => {
+    expect(
+      detectGameFormat({
+        eventName: "World Mixed Doubles Championship 2019",
+        maxShotNumber: 16
+      })
+    ).toBe("mixed_doubles");
+  });
+
+  it("falls back to the number of shots per end", () => {
+    expect(detectGameFormat({ eventName: "Worlds", maxShotNumber: 10 })).toBe(
+      "mixed_doubles"
+    );
+    expect(detectGameFormat({ eventName: "Worlds", maxShotNumber: 16 })).toBe(
+      "fours"
+    );
+  });
+});
+
+describe("inferLineups", () => {
+  it("orders each team's players by position", () => {
+    const [red, yellow] = inferLineups(
+      end(1, FOURS, ["Y1", "Y2", "Y3", "Y4"]),
+      "fours"
+    );
+    expect(red.team).toBe("SWE");
+    expect(red.players.map((p) => [p.playerName, p.position])).toEqual([
+      ["Lead", "lead"],
+      ["Second", "second"],
+      ["Vice", "vice"],
+      ["Skip", "skip"]
+    ]);
+    expect(red.players[0]).toMatchObject({ shots: 2, percentage: 75 });
+    expect(yellow.players.map((p) => p.playerName)).toEqual([
+      "Y1",
+      "Y2",
+      "Y3",
+      "Y4"
+    ]);
+    expect(red.rotationChanges).toEqual([]);
+  });
+
+  it("reports rotation changes and keeps the most thrown position", () => {
+    const shots = [
+      ...end(1, FOURS, FOURS),
+      ...end(2, FOURS, FOURS),
+      // The vice and skip swap for the last end
+      ...end(3, ["Lead", "Second", "Skip", "Vice"], FOURS)
+    ];
+    const [red, yellow] = inferLineups(shots, "fours");
+
+    expect(red.rotationChanges).toEqual([
+      { endNumber: 3, position: "vice", from: "Vice", to: "Skip" },
+      { endNumber: 3, position: "skip", from: "Skip", to: "Vice" }
+    ]);
+    const vice = red.players.find((p) => p.playerName === "Vice");
+    expect(vice).toMatchObject({
+      position: "vice",
+      shots: 6,
+      shotsByPosition: { vice: 4, skip: 2 }
+    });
+    expect(yellow.rotationChanges).toEqual([]);
+  });
+
+  it("handles mixed doubles", () => {
+    const [red] = inferLineups(
+      end(
+        1,
+        ["Anna", "Bob", "Bob", "Bob", "Anna"],
+        ["C", "D", "D", "D", "C"],
+        1
+      ),
+      "mixed_doubles"
+    );
+    expect(red.players).toMatchObject([
+      { playerName: "Anna", position: "first_last", shots: 2 },
+      { playerName: "Bob", position: "middle", shots: 3 }
+    ]);
+  });
+
+  it("leaves the percentage empty when no shot was scored", () => {
+    const shots = end(1, FOURS, FOURS).map((shot) => ({
+      ...shot,
+      percentScore: null
+    }));
+    expect(inferLineups(shots, "fours")[0].players[0].percentage).toBeNull();
+  });
+});
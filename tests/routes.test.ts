@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { formatRoute, parseRoute, type AppRoute } from "../src/lib/routes";
+
+describe("parseRoute", () => {
+  it("parses shot permalinks", () => {
+    expect(parseRoute("/shot/123")).toEqual({ view: "shot", shotId: 123 });
+    expect(parseRoute("/shot/123/")).toEqual({ view: "shot", shotId: 123 });
+  });
+
+  it("parses game scoreboard links", () => {
+    expect(parseRoute("/game/5")).toEqual({ view: "game", gameId: 5 });
+    expect(parseRoute("/game/5/")).toEqual({ view: "game", gameId: 5 });
+  });
+
+  it("parses end permalinks with and without a shot number", () => {
+    expect(parseRoute("/game/5/end/7")).toEqual({
+      view: "end",
+      gameId: 5,
+      endNumber: 7
+    });
+    expect(parseRoute("/game/5/end/7/shot/12")).toEqual({
+      view: "end",
+      gameId: 5,
+      endNumber: 7,
+      shotNumber: 12
+    });
+  });
+
+  it("parses position editor links", () => {
+    expect(parseRoute("/position/5r_r12.-40_y0.3")).toEqual({
+      view: "position",
+      code: "5r_r12.-40_y0.3"
+    });
+  });
+
+  it("parses comparison links", () => {
+    expect(parseRoute("/compare/12,40,7")).toEqual({
+      view: "compare",
+      shotIds: [12, 40, 7]
+    });
+  });
+
+  it("falls back to home for anything else", () => {
+    for (const path of [
+      "/",
+      "/shot/abc",
+      "/game/abc",
+      "/game/5/end",
+      "/shot/1/extra",
+      "/position/",
+      "/compare/12"
+    ]) {
+      expect(parseRoute(path)).toEqual({ view: "home" });
+    }
+  });
+});
+
+describe("formatRoute", () => {
+  it("round-trips through parseRoute", () => {
+    const routes: AppRoute[] = [
+      { view: "home" },
+      { view: "shot", shotId: 42 },
+      { view: "game", gameId: 3 },
+      { view: "end", gameId: 3, endNumber: 8 },
+      { view: "end", gameId: 3, endNumber: 8, shotNumber: 16 },
+      { view: "position", code: "1y" },
+      { view: "compare", shotIds: [1, 2] }
+    ];
+    for (const route of routes) {
+      expect(parseRoute(formatRoute(route))).toEqual(route);
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkEndRules,
+  findPlacedStones,
+  isProtected,
+  ruleZone,
+  rulesForEvent
+} from "../src/lib/rules";
+import type {
+  ShotWithStones,
+  StoneColor,
+  StonePosition
+} from "../src/lib/domain";
+import { red, yellow } from "./stones";
+
+/**
+ * An end from the stones after each shot; yellow throws first
+ */
+const shots = (layouts: StonePosition[][]): ShotWithStones[] =>
+  layouts.map((stones, i) => ({
+    shot: {
+      id: i + 1,
+      endId: 1,
+      number: i + 1,
+      color: (i % 2 === 0 ? "yellow" : "red") as StoneColor,
+      team: i % 2 === 0 ? "CAN" : "SWE",
+      playerName: `Player ${i + 1}`,
+      type: "Draw",
+      turn: null,
+      percentScore: null
+    },
+    stones
+  }));
+
+const FOURS = rulesForEvent("fours", "2019-03-30");
+
+describe("rulesForEvent", () => {
+  it("uses the four-rock rule before the 2018-19 season", () => {
+    expect(rulesForEvent("fours", "2018-02-14").protectedShots).toBe(4);
+    expect(FOURS.protectedShots).toBe(5);
+    expect(rulesForEvent("mixed_doubles", null).protectedShots).toBe(3);
+  });
+});
+
+describe("ruleZone", () => {
+  it("classifies stones for the rules", () => {
+    expect(ruleZone(red(0, 0))).toBe("in_house");
+    expect(ruleZone(red(0, 200))).toBe("guard");
+    expect(ruleZone(red(100, -100))).toBe("behind");
+    expect(ruleZone(red(0, -200))).toBe("out_of_play");
+    expect(ruleZone(red(148, 200))).toBe("out_of_play");
+  });
+});
+
+describe("isProtected", () => {
+  it("protects the opponent's guards during the first five stones", () => {
+    const guard = yellow(0, 200);
+    expect(isProtected(guard, FOURS, { shotNumber: 4, thrower: "red" })).toBe(
+      true
+    );
+    expect(
+      isProtected(guard, FOURS, { shotNumber: 4, thrower: "yellow" })
+    ).toBe(false);
+    expect(isProtected(guard, FOURS, { shotNumber: 6, thrower: "red" })).toBe(
+      false
+    );
+    expect(
+      isProtected(yellow(0, 0), FOURS, { shotNumber: 2, thrower: "red" })
+    ).toBe(false);
+  });
+});
+
+describe("checkEndRules", () => {
+  it("flags a protected guard removed early", () => {
+    const result = checkEndRules(
+      shots([[yellow(0, 200)], [red(0, 0)], [red(0, 0), yellow(60, 0)]]),
+      FOURS,
+      { endNumber: 1 }
+    );
+    expect(result.flags).toMatchObject([
+      { kind: "protected_stone_removed", shotNumber: 2, color: "red" }
+    ]);
+    expect(result.shots[0]).toMatchObject({
+      protectedShot: true,
+      stones: [{ zone: "guard", protected: true }]
+    });
+  });
+
+  it("flags more stones than have been thrown", () => {
+    const result = checkEndRules(
+      shots([[yellow(0, 200), yellow(50, 50)]]),
+      FOURS,
+      { endNumber: 1 }
+    );
+    expect(result.flags.map((flag) => flag.kind)).toEqual(["too_many_stones"]);
+  });
+
+  it("applies the no-tick rule when asked", () => {
+    const layouts = [[yellow(0, 200)], [yellow(60, 190), red(0, 0)]];
+    expect(
+      checkEndRules(shots(layouts), FOURS, { endNumber: 1 }).flags
+    ).toEqual([]);
+    const noTick = rulesForEvent("fours", null, { noTick: true });
+    expect(
+      checkEndRules(shots(layouts), noTick, { endNumber: 1 }).flags
+    ).toMatchObject([{ kind: "center_guard_ticked", shotNumber: 2 }]);
+  });
+
+  it("finds mixed doubles placed stones and power plays", () => {
+    const mixed = rulesForEvent("mixed_doubles", null);
+    // Yellow's guard and red's stone placed to the side, yellow draws in
+    const first = shots([[yellow(-90, 150), red(-90, 10), yellow(0, 0)]]);
+    expect(findPlacedStones(first[0])).toEqual({
+      red: red(-90, 10),
+      yellow: yellow(-90, 150),
+      powerPlay: true
+    });
+    const result = checkEndRules(first, mixed, { endNumber: 9 });
+    expect(result.flags.map((flag) => flag.kind)).toEqual([
+      "power_play_in_extra_end"
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { formatSchema } from "../src/lib/schema";
+
+describe("formatSchema", () => {
+  it("renders tables with keys and views with their columns", () => {
+    const schema = formatSchema([
+      {
+        name: "ends",
+        kind: "table",
+        columns: [
+          { name: "id", type: "INTEGER", notNull: false, primaryKey: true },
+          {
+            name: "game_id",
+            type: "INTEGER",
+            notNull: true,
+            primaryKey: false
+          },
+          {
+            name: "color_hammer",
+            type: "TEXT",
+            notNull: false,
+            primaryKey: false
+          }
+        ],
+        foreignKeys: [
+          { column: "game_id", references: { table: "games", column: "id" } }
+        ]
+      },
+      {
+        name: "ends_normalized",
+        kind: "view",
+        columns: [
+          { name: "id", type: "INT", notNull: false, primaryKey: false },
+          { name: "hammer", type: "", notNull: false, primaryKey: false }
+        ],
+        foreignKeys: []
+      }
+    ]);
+
+    expect(schema).toBe(
+      [
+        "CREATE TABLE ends(",
+        "    id INTEGER PRIMARY KEY,",
+        "    game_id INTEGER NOT NULL,",
+        "    color_hammer TEXT,",
+        "    FOREIGN KEY (game_id) REFERENCES games(id)",
+        ");",
+        "",
+        "CREATE VIEW ends_normalized(",
+        "    id INT,",
+        "    hammer",
+        ");"
+      ].join("\n")
+    );
+  });
+
+  it("returns an empty string without tables", () => {
+    expect(formatSchema([])).toBe("");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  SHEET_VIEWPORTS,
+  frameSize,
+  panViewport,
+  zoomViewport
+} from "../src/lib/sheet-view";
+import {
+  HOUSE_HEIGHT,
+  HOUSE_WIDTH,
+  toDrawingCoords
+} from "../src/lib/house-geometry";
+
+const { house, play, end } = SHEET_VIEWPORTS;
+
+describe("SHEET_VIEWPORTS", () => {
+  it("centers the house view on the button", () => {
+    const button = toDrawingCoords(0, 0);
+    expect(house.x + house.width / 2).toBeCloseTo(button.x);
+    expect(house.y + house.height / 2).toBeCloseTo(button.y);
+  });
+
+  it("nests the views inside the scoring end", () => {
+    for (const viewport of [house, play]) {
+      expect(viewport.x).toBeGreaterThanOrEqual(end.x);
+      expect(viewport.y).toBeGreaterThanOrEqual(end.y);
+      expect(viewport.y + viewport.height).toBeLessThanOrEqual(
+        end.y + end.height
+      );
+    }
+  });
+});
+
+describe("frameSize", () => {
+  it("fits every view in the classic drawing's size", () => {
+    for (const viewport of [house, play, end]) {
+      const frame = frameSize(viewport);
+      expect(frame.width).toBeLessThanOrEqual(HOUSE_WIDTH);
+      expect(frame.height).toBeLessThanOrEqual(HOUSE_HEIGHT);
+      expect(frame.width / frame.height).toBeCloseTo(
+        viewport.width / viewport.height,
+        1
+      );
+    }
+  });
+});
+
+describe("zoomViewport", () => {
+  it("keeps the zoom center in place", () => {
+    const center = toDrawingCoords(20, 30);
+    const zoomed = zoomViewport(house, 2, center);
+    expect(zoomed.width).toBeCloseTo(house.width / 2);
+    expect((center.x - zoomed.x) / zoomed.width).toBeCloseTo(
+      (center.x - house.x) / house.width
+    );
+  });
+
+  it("stops at a few stones across and at the whole scoring end", () => {
+    expect(zoomViewport(house, 1000).width).toBeCloseTo(60);
+    const out = zoomViewport(play, 0.001);
+    expect(
+      Math.min(out.width / end.width, out.height / end.height)
+    ).toBeCloseTo(1);
+  });
+});
+
+describe("panViewport", () => {
+  it("moves the view but not off the scoring end", () => {
+    expect(panViewport(house, 10, -20)).toMatchObject({
+      x: house.x + 10,
+      y: house.y - 20
+    });
+    expect(panViewport(house, 0, 10_000).y).toBeCloseTo(
+      end.y + end.height - house.height
+    );
+  });
+});
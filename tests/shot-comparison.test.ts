@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareLayouts,
+  compareShots,
+  describeDifference
+} from "../src/lib/shot-comparison";
+import type { ShotDetails, StonePosition } from "../src/lib/domain";
+import { red, yellow } from "./stones";
+
+// Only the shot ID and the stones matter to the comparison
+const details = (id: number, stones: StonePosition[]) =>
+  ({ shot: { id }, stones }) as unknown as ShotDetails;
+
+describe("compareLayouts", () => {
+  it("counts added, moved and missing stones by color", () => {
+    const reference = [red(0, -40), yellow(60, 80), yellow(-30, 0)];
+    const stones = [red(0, -40), yellow(-10, 10), red(40, 20)];
+    expect(compareLayouts(reference, stones, 7)).toEqual({
+      shotId: 7,
+      added: { red: 1, yellow: 0 },
+      missing: { red: 0, yellow: 1 },
+      moved: { red: 0, yellow: 1 },
+      unchanged: 1
+    });
+  });
+
+  it("ignores the order stones are stored in", () => {
+    const reference = [red(10, 10), yellow(-50, 0)];
+    const stones = [yellow(-50, 1), red(11, 9)];
+    const difference = compareLayouts(reference, stones, 1);
+    expect(difference.unchanged).toBe(2);
+    expect(describeDifference(difference)).toBe("same layout");
+  });
+});
+
+describe("compareShots", () => {
+  it("compares every shot with the first", () => {
+    const comparison = compareShots([
+      details(1, [red(0, 0)]),
+      details(2, [red(0, 0)]),
+      details(3, [])
+    ]);
+    expect(comparison.shots).toHaveLength(3);
+    expect(comparison.differences.map(({ shotId }) => shotId)).toEqual([2, 3]);
+    expect(comparison.differences[1].missing).toEqual({ red: 1, yellow: 0 });
+  });
+});
+
+describe("describeDifference", () => {
+  it("lists the changes and how many stones stayed", () => {
+    expect(
+      describeDifference({
+        shotId: 1,
+        added: { red: 0, yellow: 0 },
+        missing: { red: 1, yellow: 1 },
+        moved: { red: 1, yellow: 0 },
+        unchanged: 3
+      })
+    ).toBe("1 moved, 2 missing, 3 unchanged");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyShotOutcome,
+  summarizeShotOutcomes
+} from "../src/lib/shot-outcomes";
+import type {
+  Shot,
+  ShotSnapshots,
+  StoneColor,
+  StonePosition
+} from "../src/lib/domain";
+import { red, yellow } from "./stones";
+
+const shot = (color: StoneColor, type = "Draw"): Shot => ({
+  id: 1,
+  endId: 1,
+  number: 2,
+  color,
+  team: color === "red" ? "SWE" : "CAN",
+  playerName: "Player",
+  type,
+  turn: null,
+  percentScore: null
+});
+
+const snapshots = (
+  color: StoneColor,
+  before: StonePosition[],
+  after: StonePosition[],
+  type?: string
+): ShotSnapshots => ({ shot: shot(color, type), before, after });
+
+describe("classifyShotOutcome", () => {
+  it("places the thrown stone in its zone", () => {
+    expect(
+      classifyShotOutcome(snapshots("red", [], [red(0, 10)]))
+    ).toMatchObject({ result: "in_house", thrownStone: red(0, 10) });
+    expect(
+      classifyShotOutcome(snapshots("red", [], [red(0, 200)])).result
+    ).toBe("guard");
+  });
+
+  it("counts removed stones on a hit and roll", () => {
+    const outcome = classifyShotOutcome(
+      snapshots("red", [yellow(5, 5)], [red(40, 10)])
+    );
+    expect(outcome).toMatchObject({
+      result: "in_house",
+      removed: { red: 0, yellow: 1 },
+      moved: { red: 0, yellow: 0 }
+    });
+  });
+
+  it("tells a roll out from a shot that changed nothing", () => {
+    expect(
+      classifyShotOutcome(snapshots("red", [yellow(5, 5)], [])).result
+    ).toBe("rolled_out");
+    expect(
+      classifyShotOutcome(snapshots("red", [yellow(0, 200)], [yellow(0, 200)]))
+        .result
+    ).toBe("no_change");
+  });
+
+  it("counts a stone pushed far as moved rather than removed", () => {
+    const outcome = classifyShotOutcome(
+      snapshots("red", [yellow(0, -250)], [yellow(0, 100), red(0, 0)])
+    );
+    expect(outcome).toMatchObject({
+      result: "in_house",
+      removed: { red: 0, yellow: 0 },
+      moved: { red: 0, yellow: 1 }
+    });
+  });
+});
+
+describe("summarizeShotOutcomes", () => {
+  it("summarizes overall and per shot type", () => {
+    const summary = summarizeShotOutcomes([
+      snapshots("red", [yellow(5, 5)], [red(40, 10)], "Hit and Roll"),
+      snapshots("red", [yellow(5, 5)], [], "Hit and Roll"),
+      snapshots("yellow", [], [yellow(0, 200)], "Draw")
+    ]);
+    expect(summary.overall).toMatchObject({
+      shots: 3,
+      inHouseRate: 0.333,
+      removedOpponent: 2,
+      removedOwn: 0
+    });
+    expect(summary.types[0]).toMatchObject({
+      type: "Hit and Roll",
+      shots: 2,
+      inHouseRate: 0.5
+    });
+    expect(summary.types[0].results).toMatchObject({
+      in_house: 1,
+      rolled_out: 1
+    });
+    expect(summary.outcomes).toBeUndefined();
+    expect(
+      summarizeShotOutcomes([snapshots("red", [], [])], {
+        includeOutcomes: true
+      }).outcomes
+    ).toHaveLength(1);
+  });
+});
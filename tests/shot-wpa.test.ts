@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  positionWinProbability,
+  rankKeyShots,
+  shotWinProbabilities
+} from "../src/lib/shot-wpa";
+import {
+  buildWinProbabilityTable,
+  redWinProbability
+} from "../src/lib/win-probability";
+import type {
+  End,
+  GameShots,
+  ShotWithStones,
+  StonePosition
+} from "../src/lib/domain";
+import { red, yellow } from "./stones";
+
+// No games: every probability comes from the prior
+const TABLE = buildWinProbabilityTable([], "men");
+
+const end = (
+  number: number,
+  scoreRed: number | null,
+  scoreYellow: number | null
+): End => ({
+  id: number,
+  gameId: 1,
+  number,
+  direction: null,
+  hammer: "red",
+  scoreRed,
+  scoreYellow,
+  timeLeftRed: null,
+  timeLeftYellow: null
+});
+
+const shots = (endId: number, layouts: StonePosition[][]): ShotWithStones[] =>
+  layouts.map((stones, i) => ({
+    shot: {
+      id: endId * 100 + i + 1,
+      endId,
+      number: i + 1,
+      color: i % 2 === 0 ? "yellow" : "red",
+      team: i % 2 === 0 ? "CAN" : "SWE",
+      playerName: `Player ${i + 1}`,
+      type: "Draw",
+      turn: null,
+      percentScore: null
+    },
+    stones
+  }));
+
+const game = (ends: GameShots["ends"]): GameShots => ({
+  game: {
+    id: 1,
+    eventId: 1,
+    session: null,
+    name: null,
+    sheet: null,
+    type: null,
+    startDate: null,
+    startTime: null,
+    teamRed: "SWE",
+    teamYellow: "CAN",
+    finalScoreRed: null,
+    finalScoreYellow: null,
+    isWinLoss: false,
+    winner: null
+  },
+  event: {
+    id: 1,
+    name: "World Men's Curling Championship 2019",
+    startDate: null,
+    endDate: null
+  },
+  ends
+});
+
+describe("positionWinProbability", () => {
+  const state = {
+    endNumber: 5,
+    differential: 0,
+    hammer: "red" as const,
+    shotsPerEnd: 16
+  };
+
+  it("starts from the start-of-end probability", () => {
+    expect(
+      positionWinProbability(TABLE, { ...state, stones: [], played: 0 })
+    ).toBeCloseTo(redWinProbability(TABLE, 5, 0, "red"), 5);
+  });
+
+  it("weighs counting stones more as the end goes on", () => {
+    const stones = [red(0, 0), red(20, 0), red(-20, 0)];
+    const start = redWinProbability(TABLE, 5, 0, "red");
+    const early = positionWinProbability(TABLE, {
+      ...state,
+      stones,
+      played: 4
+    });
+    const late = positionWinProbability(TABLE, {
+      ...state,
+      stones,
+      played: 14
+    });
+    expect(early).toBeGreaterThan(start);
+    expect(late).toBeGreaterThan(early);
+  });
+});
+
+describe("shotWinProbabilities", () => {
+  it("adds up to the end's swing and uses the recorded score last", () => {
+    const result = shotWinProbabilities(
+      TABLE,
+      game([
+        {
+          end: end(1, 0, 1),
+          shots: shots(1, [[yellow(0, 0)], [yellow(0, 0), red(0, 60)]])
+        }
+      ])
+    );
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ color: "yellow", team: "CAN" });
+    expect(result[0].wpa).toBeGreaterThan(0);
+
+    // Red's probability went from the start of end 1 to red having hammer
+    // down 1 in end 2
+    const start = redWinProbability(TABLE, 1, 0, "red");
+    const finish = redWinProbability(TABLE, 2, -1, "red");
+    const redSwing = result.reduce(
+      (sum, shot) => sum + (shot.color === "red" ? shot.wpa : -shot.wpa),
+      0
+    );
+    expect(redSwing).toBeCloseTo(finish - start, 2);
+    expect(result[1].after).toBeCloseTo(finish, 2);
+  });
+
+  it("stops after an end with a missing score", () => {
+    const result = shotWinProbabilities(
+      TABLE,
+      game([
+        { end: end(1, null, null), shots: shots(1, [[]]) },
+        { end: end(2, 1, 0), shots: shots(2, [[]]) }
+      ])
+    );
+    expect(result.map((shot) => shot.endNumber)).toEqual([1]);
+  });
+});
+
+describe("rankKeyShots", () => {
+  it("ranks by the size of the swing", () => {
+    const result = shotWinProbabilities(
+      TABLE,
+      game([
+        {
+          end: end(1, 3, 0),
+          shots: shots(1, [
+            [yellow(0, 0)],
+            [yellow(0, 0), red(100, 0)],
+            [red(0, 0), red(10, 10), red(-10, 10)]
+          ])
+        }
+      ])
+    );
+    const ranked = rankKeyShots(result, 2);
+    expect(ranked).toHaveLength(2);
+    expect(Math.abs(ranked[0].wpa)).toBeGreaterThanOrEqual(
+      Math.abs(ranked[1].wpa)
+    );
+  });
+});
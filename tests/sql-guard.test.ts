@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { guardSelectQuery, DEFAULT_MAX_LIMIT } from "../src/lib/sql-guard";
+
+describe("guardSelectQuery", () => {
+  describe("allowed queries", () => {
+    const allowed = [
+      "SELECT * FROM shots LIMIT 10",
+      "select type, count(*) from shots group by type order by 2 desc limit 5;",
+      "SELECT s.player_name, AVG(s.percent_score) FROM shots s JOIN ends e ON s.end_id = e.id JOIN games g ON e.game_id = g.id WHERE g.team_red = 'CAN' GROUP BY 1 LIMIT 20",
+      "SELECT * FROM games, events WHERE games.event_id = events.id LIMIT 3",
+      "WITH totals AS (SELECT game_id, SUM(score_red) AS r FROM ends GROUP BY game_id) SELECT * FROM totals LIMIT 10",
+      "WITH a(x) AS (SELECT id FROM shots), b AS (SELECT x FROM a) SELECT * FROM b LIMIT 1",
+      "SELECT * FROM shots WHERE type = 'DELETE; DROP TABLE shots' LIMIT 1",
+      "SELECT replace(player_name, '.', '') FROM shots LIMIT 1",
+      "-- most common shots\nSELECT type FROM shots LIMIT 1",
+      "SELECT id FROM shots WHERE end_id IN (SELECT id FROM ends WHERE number = 10) LIMIT 1",
+      'SELECT "type" FROM "shots" LIMIT 1',
+      "SELECT * FROM main.shots LIMIT 1",
+      "SELECT id FROM shots LIMIT 5 OFFSET 10",
+      "SELECT id FROM shots LIMIT 10, 5",
+      "SELECT * FROM shots WHERE id = ? LIMIT 1",
+      "SELECT * FROM shots JOIN ends USING (id), games WHERE games.id = ends.game_id LIMIT 1",
+      "SELECT id FROM shots WHERE end_id IN ends LIMIT 1",
+      "SELECT * FROM (shots JOIN ends ON shots.end_id = ends.id) LIMIT 1",
+      "SELECT * FROM (VALUES (1), (2)) LIMIT 1",
+      "SELECT id FROM shots WHERE number IN (1, 2) LIMIT 1"
+    ];
+
+    for (const query of allowed) {
+      it(`allows ${JSON.stringify(query)}`, () => {
+        expect(guardSelectQuery(query).ok).toBe(true);
+      });
+    }
+  });
+
+  describe("hostile queries", () => {
+    const hostile: Array<[string, string]> = [
+      ["", "EMPTY_QUERY"],
+      ["  ;  ", "EMPTY_QUERY"],
+      ["SELECT 1; DROP TABLE shots", "MULTIPLE_STATEMENTS"],
+      ["SELECT 1; SELECT 2", "MULTIPLE_STATEMENTS"],
+      ["DELETE FROM shots", "NOT_A_SELECT"],
+      ["/* select */ DELETE FROM shots", "NOT_A_SELECT"],
+      ["-- select\nUPDATE shots SET type = 'x'", "NOT_A_SELECT"],
+      ["PRAGMA table_info(shots)", "NOT_A_SELECT"],
+      ["WITH x AS (SELECT 1) DELETE FROM shots", "FORBIDDEN_KEYWORD"],
+      [
+        "WITH x AS (SELECT 1) INSERT INTO shots SELECT * FROM x",
+        "FORBIDDEN_KEYWORD"
+      ],
+      ["SELECT load_extension('evil')", "FORBIDDEN_FUNCTION"],
+      ["SELECT * FROM sqlite_master", "UNKNOWN_TABLE"],
+      ["SELECT * FROM pragma_table_info('shots')", "UNKNOWN_TABLE"],
+      ["SELECT * FROM shots, sqlite_master", "UNKNOWN_TABLE"],
+      ["SELECT * FROM shots JOIN _cf_KV ON 1 = 1", "UNKNOWN_TABLE"],
+      [
+        "SELECT * FROM shots JOIN ends ON shots.end_id = ends.id, sqlite_master",
+        "UNKNOWN_TABLE"
+      ],
+      [
+        "SELECT * FROM shots WHERE id IN pragma_table_info('shots')",
+        "UNKNOWN_TABLE"
+      ],
+      ["SELECT * FROM shots WHERE id IN sqlite_master", "UNKNOWN_TABLE"],
+      ["SELECT * FROM (sqlite_master) LIMIT 1", "UNKNOWN_TABLE"],
+      ["SELECT * FROM (shots, sqlite_master)", "UNKNOWN_TABLE"],
+      ["SELECT * FROM shots JOIN (sqlite_master)", "UNKNOWN_TABLE"],
+      ["SELECT * FROM shots, ((main.sqlite_master))", "UNKNOWN_TABLE"],
+      [
+        "SELECT count(*), sqlite_master AS t FROM sqlite_master",
+        "UNKNOWN_TABLE"
+      ],
+      ["SELECT 'unterminated", "SYNTAX_ERROR"],
+      ["SELECT (1", "SYNTAX_ERROR"],
+      ["SELECT 1 /* open comment", "SYNTAX_ERROR"],
+      ["SELECT * FROM shots LIMIT ?", "INVALID_LIMIT"],
+      ["SELECT * FROM shots LIMIT (SELECT 1000000)", "INVALID_LIMIT"]
+    ];
+
+    for (const [query, code] of hostile) {
+      it(`rejects ${JSON.stringify(query)} with ${code}`, () => {
+        const result = guardSelectQuery(query);
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.code).toBe(code);
+          expect(result.hint.length).toBeGreaterThan(0);
+        }
+      });
+    }
+  });
+
+  describe("LIMIT enforcement", () => {
+    it("adds a LIMIT when missing", () => {
+      const result = guardSelectQuery("SELECT * FROM stone_positions");
+      expect(result).toMatchObject({
+        ok: true,
+        sql: `SELECT * FROM stone_positions\nLIMIT ${DEFAULT_MAX_LIMIT}`,
+        limit: DEFAULT_MAX_LIMIT
+      });
+    });
+
+    it("adds the LIMIT after a trailing comment and semicolon", () => {
+      const result = guardSelectQuery("SELECT id FROM shots; -- all of them");
+      expect(result.ok && result.sql).toBe(
+        `SELECT id FROM shots\nLIMIT ${DEFAULT_MAX_LIMIT}`
+      );
+    });
+
+    it("ignores LIMIT clauses inside subqueries", () => {
+      const result = guardSelectQuery(
+        "SELECT * FROM shots WHERE id IN (SELECT id FROM shots LIMIT 5)"
+      );
+      expect(result.ok && result.limit).toBe(DEFAULT_MAX_LIMIT);
+    });
+
+    it("keeps a LIMIT under the maximum", () => {
+      const result = guardSelectQuery("SELECT * FROM shots LIMIT 25");
+      expect(result).toMatchObject({
+        ok: true,
+        sql: "SELECT * FROM shots LIMIT 25",
+        limit: 25,
+        notes: []
+      });
+    });
+
+    it("clamps a LIMIT over the maximum", () => {
+      const result = guardSelectQuery(
+        "SELECT * FROM shots LIMIT 100000 OFFSET 5",
+        { maxLimit: 50 }
+      );
+      expect(result).toMatchObject({
+        ok: true,
+        sql: "SELECT * FROM shots LIMIT 50 OFFSET 5",
+        limit: 50
+      });
+    });
+
+    it("clamps the count of the LIMIT offset, count form", () => {
+      const result = guardSelectQuery("SELECT * FROM shots LIMIT 10, 9999", {
+        maxLimit: 100
+      });
+      expect(result.ok && result.sql).toBe("SELECT * FROM shots LIMIT 10, 100");
+    });
+  });
+
+  it("accepts extra allowed tables", () => {
+    expect(
+      guardSelectQuery("SELECT * FROM custom_view", {
+        allowedTables: ["custom_view"]
+      }).ok
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { diffStonePositions, summarizeStoneDiff } from "../src/lib/stone-diff";
+import { red, yellow } from "./stones";
+
+describe("diffStonePositions", () => {
+  it("marks the first stone of an end as delivered", () => {
+    expect(diffStonePositions([], [red(0, -40)])).toEqual([
+      { color: "red", change: "delivered", from: null, to: { x: 0, y: -40 } }
+    ]);
+  });
+
+  it("treats small parser jitter as unchanged", () => {
+    const [transition] = diffStonePositions([red(10, 10)], [red(11, 9)]);
+    expect(transition.change).toBe("unchanged");
+  });
+
+  it("matches stones regardless of snapshot order", () => {
+    const before = [yellow(-50, 0), yellow(50, 0)];
+    const after = [yellow(50, 1), yellow(-50, 0), yellow(0, -60)];
+    expect(summarizeStoneDiff(diffStonePositions(before, after))).toEqual({
+      delivered: 1,
+      moved: 0,
+      removed: 0,
+      unchanged: 2
+    });
+  });
+
+  it("detects a hit and roll", () => {
+    // Red removes the yellow stone and rolls to the side
+    const before = [red(0, -80), yellow(5, 5)];
+    const after = [red(0, -80), red(40, 10)];
+    const transitions = diffStonePositions(before, after);
+
+    expect(summarizeStoneDiff(transitions)).toEqual({
+      delivered: 1,
+      moved: 0,
+      removed: 1,
+      unchanged: 1
+    });
+    expect(transitions.find((t) => t.change === "removed")).toMatchObject({
+      color: "yellow",
+      from: { x: 5, y: 5 }
+    });
+  });
+
+  it("detects a stone pushed further into the house", () => {
+    const before = [yellow(0, -30)];
+    const after = [yellow(0, 20), red(0, -25)];
+    const transitions = diffStonePositions(before, after);
+
+    expect(transitions).toContainEqual({
+      color: "yellow",
+      change: "moved",
+      from: { x: 0, y: -30 },
+      to: { x: 0, y: 20 }
+    });
+    expect(summarizeStoneDiff(transitions).delivered).toBe(1);
+  });
+
+  it("splits a jump longer than the unmatched cost into removed and delivered", () => {
+    const transitions = diffStonePositions([red(-100, 0)], [red(100, 0)], {
+      unmatchedCost: 50
+    });
+    expect(transitions.map((t) => t.change).sort()).toEqual([
+      "delivered",
+      "removed"
+    ]);
+  });
+});
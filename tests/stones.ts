@@ -0,0 +1,16 @@
+/**
+ * Stone factories shared by the tests, in stone_positions units
+ */
+import type { StonePosition } from "../src/lib/domain";
+
+export const red = (x: number, y: number): StonePosition => ({
+  color: "red",
+  x,
+  y
+});
+
+export const yellow = (x: number, y: number): StonePosition => ({
+  color: "yellow",
+  x,
+  y
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import type { UIMessage } from "ai";
+import { completedToolCallIds } from "../src/lib/tool-calls";
+
+// A conversation as it comes back after a reload
+const history: UIMessage[] = [
+  {
+    id: "1",
+    role: "user",
+    parts: [{ type: "text", text: "Show me shot 12" }]
+  },
+  {
+    id: "2",
+    role: "assistant",
+    parts: [
+      {
+        type: "tool-setShotId",
+        toolCallId: "call-1",
+        state: "output-available",
+        input: { shotId: 12 },
+        output: { success: true, updateShotId: true, shotId: 12 }
+      },
+      { type: "text", text: "Here is shot 12." },
+      {
+        type: "tool-mergePlayers",
+        toolCallId: "call-2",
+        state: "input-available",
+        input: { rawNames: ["A. Smith"] }
+      }
+    ]
+  }
+];
+
+describe("completedToolCallIds", () => {
+  it("marks the tool results of a reloaded conversation as handled", () => {
+    expect(completedToolCallIds(history)).toEqual(new Set(["call-1"]));
+  });
+
+  it("leaves calls without a result to be handled when it arrives", () => {
+    expect(completedToolCallIds(history).has("call-2")).toBe(false);
+    expect(completedToolCallIds([])).toEqual(new Set());
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWinProbabilityTable,
+  detectDivision,
+  estimateStateProbability,
+  findWinProbabilityCell,
+  gameWinProbability,
+  lookupWinProbability,
+  nextHammer
+} from "../src/lib/win-probability";
+import type { End, GameSummary, Hammer, StoneColor } from "../src/lib/domain";
+
+/**
+ * A game from per-end scores; red has hammer in the first end and hammer
+ * passes as the rules say
+ */
+const game = (
+  id: number,
+  scores: Array<[number, number]>,
+  eventName = "World Men's Curling Championship 2019"
+): GameSummary => {
+  let hammer: Hammer = "red";
+  const ends = scores.map(([scoreRed, scoreYellow], i): End => {
+    const end: End = {
+      id: id * 100 + i,
+      gameId: id,
+      number: i + 1,
+      direction: null,
+      hammer,
+      scoreRed,
+      scoreYellow,
+      timeLeftRed: null,
+      timeLeftYellow: null
+    };
+    hammer = nextHammer(end);
+    return end;
+  });
+  const red = scores.reduce((sum, [r]) => sum + r, 0);
+  const yellow = scores.reduce((sum, [, y]) => sum + y, 0);
+  const winner: StoneColor | "tie" =
+    red > yellow ? "red" : yellow > red ? "yellow" : "tie";
+  return {
+    game: {
+      id,
+      eventId: 1,
+      session: null,
+      name: null,
+      sheet: null,
+      type: null,
+      startDate: null,
+      startTime: null,
+      teamRed: "SWE",
+      teamYellow: "CAN",
+      finalScoreRed: red,
+      finalScoreYellow: yellow,
+      isWinLoss: false,
+      winner
+    },
+    event: { id: 1, name: eventName, startDate: null, endDate: null },
+    ends
+  };
+};
+
+describe("detectDivision", () => {
+  it("reads the division from the event name", () => {
+    expect(detectDivision("World Men's Curling Championship 2019")).toBe("men");
+    expect(detectDivision("World Women's Curling Championship 2019")).toBe(
+      "women"
+    );
+    expect(detectDivision("World Mixed Doubles Curling Championship")).toBe(
+      "mixed_doubles"
+    );
+    expect(detectDivision("Olympic Winter Games 2018")).toBeNull();
+  });
+});
+
+describe("nextHammer", () => {
+  it("passes hammer to the team that didn't score", () => {
+    const end = (scoreRed: number, scoreYellow: number): End => ({
+      id: 1,
+      gameId: 1,
+      number: 1,
+      direction: null,
+      hammer: "red",
+      scoreRed,
+      scoreYellow,
+      timeLeftRed: null,
+      timeLeftYellow: null
+    });
+    expect(nextHammer(end(2, 0))).toBe("yellow");
+    expect(nextHammer(end(0, 1))).toBe("red");
+    expect(nextHammer(end(0, 0))).toBe("red");
+  });
+});
+
+describe("buildWinProbabilityTable", () => {
+  // Red scores 2 in the first end and wins every game
+  const games = Array.from({ length: 20 }, (_, i) =>
+    game(i + 1, [
+      [2, 0],
+      [0, 1],
+      [1, 0],
+      [0, 0]
+    ])
+  );
+  const table = buildWinProbabilityTable(games, "men");
+
+  it("counts both teams of every decided game", () => {
+    expect(table.games).toBe(20);
+    const up2 = findWinProbabilityCell(table, {
+      end: 2,
+      differential: 2,
+      hammer: false
+    });
+    expect(up2).toMatchObject({ games: 20, wins: 20 });
+    const down2 = findWinProbabilityCell(table, {
+      end: 2,
+      differential: -2,
+      hammer: true
+    });
+    expect(down2).toMatchObject({ games: 20, wins: 0 });
+  });
+
+  it("keeps the two sides of a state complementary", () => {
+    for (const cell of table.cells) {
+      const mirror = lookupWinProbability(table, {
+        end: cell.end,
+        differential: -cell.differential,
+        hammer: !cell.hammer
+      });
+      expect(cell.probability + mirror).toBeCloseTo(1, 2);
+    }
+  });
+
+  it("smooths observed states without reaching certainty", () => {
+    const p = lookupWinProbability(table, {
+      end: 2,
+      differential: 2,
+      hammer: false
+    });
+    expect(p).toBeGreaterThan(0.8);
+    expect(p).toBeLessThan(1);
+  });
+
+  it("falls back to the prior for unseen states", () => {
+    const late = lookupWinProbability(table, {
+      end: 10,
+      differential: 3,
+      hammer: true
+    });
+    const tied = lookupWinProbability(table, {
+      end: 6,
+      differential: 0,
+      hammer: true
+    });
+    expect(late).toBeGreaterThan(0.95);
+    expect(tied).toBeGreaterThan(0.5);
+    expect(tied).toBeLessThan(0.7);
+  });
+
+  it("labels states no game reached as a prior", () => {
+    expect(
+      estimateStateProbability(table, {
+        end: 2,
+        differential: 2,
+        hammer: false
+      })
+    ).toMatchObject({ games: 20, basis: "history" });
+    expect(
+      estimateStateProbability(table, {
+        end: 10,
+        differential: 3,
+        hammer: true
+      })
+    ).toMatchObject({ games: 0, basis: "prior" });
+    expect(
+      estimateStateProbability(
+        { ...table, cells: [] },
+        { end: 2, differential: 0, hammer: true }
+      )
+    ).toBeNull();
+  });
+
+  it("ignores other divisions and undecided games", () => {
+    const other = [
+      game(100, [[1, 0]], "World Women's Curling Championship 2019"),
+      game(101, [[0, 0]])
+    ];
+    expect(buildWinProbabilityTable(other, "men").games).toBe(0);
+    expect(buildWinProbabilityTable(other, "women").games).toBe(1);
+  });
+});
+
+describe("gameWinProbability", () => {
+  it("charts red's chances before and after every end", () => {
+    const table = buildWinProbabilityTable(
+      [
+        game(1, [
+          [0, 1],
+          [3, 0]
+        ])
+      ],
+      "men"
+    );
+    const { points } = gameWinProbability(
+      table,
+      game(1, [
+        [0, 1],
+        [3, 0]
+      ])
+    );
+    expect(points.map((point) => [point.afterEnd, point.hammer])).toEqual([
+      [0, "red"],
+      [1, "red"],
+      [2, "yellow"]
+    ]);
+    expect(points[1].differential).toBe(-1);
+    expect(points[2]).toMatchObject({ differential: 2, probabilityRed: 1 });
+  });
+});
@@ -1,24 +1,39 @@
-import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+import path from "node:path";
+import {
+  defineWorkersConfig,
+  readD1Migrations
+} from "@cloudflare/vitest-pool-workers/config";
 
-export default defineWorkersConfig({
-  environments: {
-    ssr: {
-      keepProcessEnv: true
-    }
-  },
-  test: {
-    // https://github.com/cloudflare/workers-sdk/issues/9822
-    deps: {
-      optimizer: {
-        ssr: {
-          include: ["ajv"]
-        }
+export default defineWorkersConfig(async () => {
+  // Applied to the test D1 database by tests/apply-migrations.ts
+  const migrations = await readD1Migrations(path.join(__dirname, "migrations"));
+
+  return {
+    environments: {
+      ssr: {
+        keepProcessEnv: true
       }
     },
-    poolOptions: {
-      workers: {
-        wrangler: { configPath: "./wrangler.jsonc" }
+    test: {
+      // https://github.com/cloudflare/workers-sdk/issues/9822
+      deps: {
+        optimizer: {
+          ssr: {
+            include: ["ajv"]
+          }
+        }
+      },
+      setupFiles: ["./tests/apply-migrations.ts"],
+      poolOptions: {
+        workers: {
+          wrangler: { configPath: "./wrangler.jsonc" },
+          // The tests never call Workers AI, so they run without a login
+          remoteBindings: false,
+          miniflare: {
+            bindings: { TEST_MIGRATIONS: migrations }
+          }
+        }
       }
     }
-  }
+  };
 });